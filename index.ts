@@ -1,21 +1,32 @@
-import { createTables } from './src/config/database';
+import { Migrator } from './src/config/migrator';
 import { App } from './src/app';
 
+/** Maximum time to wait for a graceful shutdown before exiting anyway */
+const SHUTDOWN_TIMEOUT_MS = parseInt(process.env.SHUTDOWN_TIMEOUT_MS || '30000', 10);
+
+let app: App | undefined;
+let shuttingDown = false;
+
 /**
  * Initializes and starts the application
- * 1. Creates database tables
+ * 1. Applies pending database migrations, unless polls, votes and operations are kept in memory
  * 2. Initializes the Express application
- * 3. Starts the server on the specified port
+ * 3. Creates Kafka topics, starts the consumers and waits until they are ready
+ * 4. Starts the server on the specified port
  * @throws {Error} If initialization fails
  */
 async function bootstrap() {
   try {
-    // Create and initialize tables
-    await createTables();
-    console.log('Database tables initialized');
+    // Bring the schema up to date; instances starting together wait for each other
+    if (process.env.STORE_DRIVER === 'memory') {
+      console.log('Skipping database migrations, STORE_DRIVER is memory');
+    } else {
+      await new Migrator().up();
+      console.log('Database migrations applied');
+    }
 
     // Initialize the application
-    const app = new App();
+    app = new App();
     const port = parseInt(process.env.PORT || '3000', 10);
 
     // Start the application
@@ -29,6 +40,37 @@ async function bootstrap() {
   }
 }
 
+/**
+ * Shuts the application down gracefully on a termination signal, exiting with a non-zero code if
+ * that fails or takes longer than the shutdown timeout
+ * @param signal - Received signal
+ */
+async function shutdown(signal: NodeJS.Signals) {
+  if (shuttingDown) {
+    return;
+  }
+  shuttingDown = true;
+  console.log(`Received ${signal}, shutting down`);
+
+  const timer = setTimeout(() => {
+    console.error(`Shutdown did not finish within ${SHUTDOWN_TIMEOUT_MS}ms`);
+    process.exit(1);
+  }, SHUTDOWN_TIMEOUT_MS);
+  timer.unref();
+
+  try {
+    await app?.stop();
+    console.log('Shutdown complete');
+    process.exit(0);
+  } catch (error) {
+    console.error('Failed to shut down cleanly:', error);
+    process.exit(1);
+  }
+}
+
+process.on('SIGTERM', shutdown);
+process.on('SIGINT', shutdown);
+
 // Handle uncaught exceptions
 process.on('uncaughtException', (error) => {
   console.error('Uncaught Exception:', error);
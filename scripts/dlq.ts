@@ -0,0 +1,74 @@
+import { KafkaService } from '../src/services/kafkaService';
+
+/**
+ * Command line tool for the dead-letter topic
+ *   list                        - Lists every dead-lettered message
+ *   inspect <partition>:<offset> - Prints one dead-lettered message in full
+ *   replay <partition>:<offset>  - Produces the message back onto its original topic
+ */
+const usage = 'Usage: npm run dlq -- list | inspect <partition>:<offset> | replay <partition>:<offset>';
+
+/**
+ * Parses a `<partition>:<offset>` position argument
+ * @param position - Position argument
+ * @returns Partition number and offset
+ */
+const parsePosition = (position: string | undefined): { partition: number; offset: string } => {
+  const match = /^(\d+):(\d+)$/.exec(position || '');
+  if (!match) {
+    throw new Error(usage);
+  }
+  return { partition: parseInt(match[1], 10), offset: match[2] };
+};
+
+async function main() {
+  const [command, position] = process.argv.slice(2);
+  const kafkaService = new KafkaService();
+
+  try {
+    switch (command) {
+      case 'list': {
+        const entries = await kafkaService.readDeadLetters();
+        console.table(entries.map(entry => ({
+          position: `${entry.partition}:${entry.offset}`,
+          source: `${entry.original_topic}/${entry.original_partition}@${entry.original_offset}`,
+          attempts: entry.attempts,
+          failed_at: entry.failed_at,
+          error: entry.error
+        })));
+        break;
+      }
+
+      case 'inspect': {
+        const { partition, offset } = parsePosition(position);
+        const entry = (await kafkaService.readDeadLetters())
+          .find(deadLetter => deadLetter.partition === partition && deadLetter.offset === offset);
+        if (!entry) {
+          throw new Error(`No dead-lettered message at ${partition}:${offset}`);
+        }
+        console.log(JSON.stringify(entry, null, 2));
+        break;
+      }
+
+      case 'replay': {
+        const { partition, offset } = parsePosition(position);
+        const entry = await kafkaService.replayDeadLetter(partition, offset);
+        if (!entry) {
+          throw new Error(`No dead-lettered message at ${partition}:${offset}`);
+        }
+        console.log(`Replayed ${partition}:${offset} onto ${entry.original_topic}`);
+        break;
+      }
+
+      default:
+        throw new Error(usage);
+    }
+  } finally {
+    await kafkaService.disconnect();
+  }
+}
+
+main().then(() => process.exit(0)).catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
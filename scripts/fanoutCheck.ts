@@ -0,0 +1,115 @@
+import WebSocket from 'ws';
+
+/**
+ * Checks that WebSocket updates reach clients of every app instance, not only of the instance
+ * that processed the vote. Connects a client to each instance, subscribes them to a new poll,
+ * votes through the first instance and waits for every client to receive the updates.
+ *   FANOUT_URLS    - Comma-separated base URLs of the instances (default: http://localhost:3000,http://localhost:3001)
+ *   FANOUT_API_KEY - API key accepted by the instances (default: local-fanout-key)
+ */
+const urls = (process.env.FANOUT_URLS || 'http://localhost:3000,http://localhost:3001').split(',');
+const apiKey = process.env.FANOUT_API_KEY || 'local-fanout-key';
+const timeoutMs = parseInt(process.env.FANOUT_TIMEOUT_MS || '30000', 10);
+
+/** Message types every client must receive */
+const expectedTypes = ['LEADERBOARD_UPDATE', 'POLL_RESULTS_UPDATE'];
+
+/** Body of a `201 Created` response to `POST /polls` */
+interface CreatedPoll {
+  id: string;
+  optionIds: string[];
+}
+
+/**
+ * Sends an authenticated JSON request to an instance
+ * @param url - Request URL
+ * @param method - HTTP method
+ * @param body - JSON body, if any
+ * @returns Parsed response body
+ */
+const request = async (url: string, method: string, body?: unknown): Promise<unknown> => {
+  const response = await fetch(url, {
+    method,
+    headers: { 'Content-Type': 'application/json', 'X-API-Key': apiKey },
+    body: body === undefined ? undefined : JSON.stringify(body)
+  });
+  const payload = await response.json();
+  if (!response.ok) {
+    throw new Error(`${method} ${url} failed with ${response.status}: ${JSON.stringify(payload)}`);
+  }
+  return payload;
+};
+
+/**
+ * Reads the poll created by `POST /polls`
+ * @param payload - Response body
+ * @returns Poll ID and option IDs
+ * @throws {Error} If the poll was not created right away, for example because the request was accepted
+ */
+const parseCreatedPoll = (payload: unknown): CreatedPoll => {
+  const { id, optionIds } = (typeof payload === 'object' && payload !== null ? payload : {}) as Record<string, unknown>;
+  if (typeof id !== 'string' || !Array.isArray(optionIds) || !optionIds.every(optionId => typeof optionId === 'string')) {
+    throw new Error(`Unexpected response to POST /polls: ${JSON.stringify(payload)}`);
+  }
+  return { id, optionIds };
+};
+
+/**
+ * Opens a WebSocket connection to an instance and resolves once it is connected
+ * @param baseUrl - Base URL of the instance
+ * @returns Connected socket and the message types it has received so far
+ */
+const connect = (baseUrl: string): Promise<{ socket: WebSocket; received: Set<string> }> =>
+  new Promise((resolve, reject) => {
+    const socket = new WebSocket(baseUrl.replace(/^http/, 'ws'));
+    const received = new Set<string>();
+    socket.on('message', raw => {
+      const { type } = JSON.parse(raw.toString());
+      received.add(type);
+      if (type === 'CONNECTED') {
+        resolve({ socket, received });
+      }
+    });
+    socket.on('error', reject);
+  });
+
+async function main() {
+  const clients = await Promise.all(urls.map(connect));
+
+  const poll = parseCreatedPoll(await request(`${urls[0]}/polls`, 'POST', {
+    question: `Fan-out check ${new Date().toISOString()}`,
+    options: ['Yes', 'No'],
+    expired_at: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+    created_by: 'fanout-check'
+  }));
+
+  for (const { socket } of clients) {
+    socket.send(JSON.stringify({ type: 'subscribe', poll_id: poll.id }));
+  }
+  await new Promise(resolve => setTimeout(resolve, 500));
+
+  await request(`${urls[0]}/polls/${poll.id}/vote`, 'POST', {
+    user_id: 'fanout-check',
+    option_id: poll.optionIds[0]
+  });
+
+  const deadline = Date.now() + timeoutMs;
+  while (Date.now() < deadline && !clients.every(({ received }) => expectedTypes.every(type => received.has(type)))) {
+    await new Promise(resolve => setTimeout(resolve, 250));
+  }
+
+  let failed = false;
+  clients.forEach(({ socket, received }, index) => {
+    const missing = expectedTypes.filter(type => !received.has(type));
+    console.log(`${urls[index]}: ${missing.length === 0 ? 'ok' : `missing ${missing.join(', ')}`}`);
+    failed = failed || missing.length > 0;
+    socket.close();
+  });
+
+  process.exit(failed ? 1 : 0);
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,67 @@
+import { pool } from '../src/config/database';
+import { Migrator } from '../src/config/migrator';
+
+/**
+ * Command line tool for the database migrations
+ *   up [version]  - Applies the pending migrations, up to and including a version if given
+ *   down [steps]  - Reverts the most recently applied migrations, one by default
+ *   status        - Lists every migration and when it was applied
+ */
+const usage = 'Usage: npm run migrate -- up [version] | down [steps] | status';
+
+/**
+ * Parses an optional positive integer argument
+ * @param value - Argument
+ * @returns The number, or undefined if the argument is missing
+ */
+const parseCount = (value: string | undefined): number | undefined => {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (!/^\d+$/.test(value) || parseInt(value, 10) < 1) {
+    throw new Error(usage);
+  }
+  return parseInt(value, 10);
+};
+
+async function main() {
+  const [command, argument] = process.argv.slice(2);
+  const migrator = new Migrator();
+
+  try {
+    switch (command) {
+      case 'up': {
+        const applied = await migrator.up(parseCount(argument));
+        console.log(applied.length > 0 ? `Applied ${applied.length} migration(s)` : 'Schema is up to date');
+        break;
+      }
+
+      case 'down': {
+        const reverted = await migrator.down(parseCount(argument) ?? 1);
+        console.log(reverted.length > 0 ? `Reverted ${reverted.length} migration(s)` : 'No migrations to revert');
+        break;
+      }
+
+      case 'status': {
+        const statuses = await migrator.status();
+        console.table(statuses.map(status => ({
+          version: status.version,
+          name: status.name,
+          applied_at: status.applied_at?.toISOString() ?? 'pending',
+          file: status.missing ? 'missing' : 'present'
+        })));
+        break;
+      }
+
+      default:
+        throw new Error(usage);
+    }
+  } finally {
+    await pool.end();
+  }
+}
+
+main().then(() => process.exit(0)).catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -4,7 +4,9 @@ import { createServer } from 'http';
 import { KafkaService, WebSocketService } from './services';
 import { pollRouter } from './routes/polls';
 import { leaderboardRouter } from './routes/leaderboard';
+import { operationRouter } from './routes/operations';
 import { errorHandler, DatabaseError, KafkaError } from './utils/errorHandler';
+import { authenticate, strategiesFromEnv } from './utils/auth';
 import { pool } from './config/database';
 
 /**
@@ -24,20 +26,26 @@ export class App {
   constructor() {
     this.app = express();
     this.server = createServer(this.app);
-    this.kafkaService = new KafkaService();
     this.websocketService = new WebSocketService(this.server);
+    this.kafkaService = new KafkaService(this.websocketService);
 
     this.initializeMiddlewares();
     this.initializeRoutes();
-    this.initializeWebSocket();
     this.initializeErrorHandling();
   }
 
   /**
    * Sets up Express middleware for CORS, JSON parsing, URL encoding,
-   * and request logging.
+   * request logging and authentication. `TRUST_PROXY` (`true`, a hop count or a list of proxy
+   * addresses) makes client addresses, which requests are rate limited by, come from `X-Forwarded-For`.
    */
   private initializeMiddlewares(): void {
+    const trustProxy = process.env.TRUST_PROXY;
+    if (trustProxy) {
+      const hops = /^\d+$/.test(trustProxy) ? parseInt(trustProxy, 10) : undefined;
+      this.app.set('trust proxy', trustProxy === 'true' ? true : hops ?? trustProxy);
+    }
+
     this.app.use(cors({ origin: '*' }));
     this.app.use(express.json());
     this.app.use(express.urlencoded({ extended: true }));
@@ -46,11 +54,13 @@ export class App {
       console.log(`${req.method} ${req.url}`);
       next();
     });
+
+    this.app.use(authenticate(strategiesFromEnv()));
   }
 
   /**
    * Configures API routes including health check endpoint,
-   * poll routes, and leaderboard routes.
+   * poll routes, leaderboard routes and operation status routes.
    */
   private initializeRoutes(): void {
     // Add health check endpoint
@@ -60,15 +70,8 @@ export class App {
 
     // Register routes
     this.app.use('/polls', pollRouter(this.kafkaService));
-    this.app.use('/leaderboard', leaderboardRouter(this.kafkaService, this.websocketService));
-  }
-
-  /**
-   * Initializes WebSocket connections and sets up event handlers for
-   * client connections, disconnections, errors, and messages.
-   */
-  private initializeWebSocket(): void {
-    this.websocketService.initialize();
+    this.app.use('/leaderboard', leaderboardRouter());
+    this.app.use('/operations', operationRouter());
   }
 
   /**
@@ -79,12 +82,43 @@ export class App {
   }
 
   /**
-   * Starts the Express server on the specified port.
+   * Creates the Kafka topics, starts the consumers and waits until they are ready, then starts
+   * the Express server on the specified port.
    * @param port - Port number to start the server on
+   * @throws {KafkaError} If the Kafka consumers do not become ready
    */
   public async start(port: number): Promise<void> {
-    this.server.listen(port, () => {
-      console.log(`Server is running on port ${port}`);
+    await this.kafkaService.start();
+
+    await new Promise<void>(resolve => {
+      this.server.listen(port, () => {
+        console.log(`Server is running on port ${port}`);
+        resolve();
+      });
     });
   }
-}
\ No newline at end of file
+
+  /**
+   * Shuts the application down: closes WebSocket connections, stops accepting HTTP requests,
+   * lets the Kafka consumers finish their current messages before disconnecting every Kafka client,
+   * and ends the database pool.
+   */
+  public async stop(): Promise<void> {
+    this.websocketService.close();
+
+    await new Promise<void>(resolve => {
+      this.server.close(error => {
+        if (error) {
+          console.error('Failed to close HTTP server:', error);
+        }
+        resolve();
+      });
+    });
+    console.log('HTTP server closed');
+
+    await this.kafkaService.disconnect();
+
+    await pool.end();
+    console.log('Database pool closed');
+  }
+}
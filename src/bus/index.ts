@@ -0,0 +1,30 @@
+import { MessageBus } from '../models/messageBus';
+import { KafkaBus } from './kafkaBus';
+import { MemoryBroker, MemoryBus } from './memoryBus';
+
+export { KafkaBus } from './kafkaBus';
+export { MemoryBroker, MemoryBus } from './memoryBus';
+
+/** Broker shared by every in-memory bus of the process */
+let memoryBroker: MemoryBroker | undefined;
+
+/**
+ * Creates the message bus selected by `BUS_DRIVER`: `kafka` (default) or `memory`, in which case
+ * every bus of the process is a client of one in-memory broker
+ * @param driver - Bus driver
+ * @returns Message bus
+ * @throws {Error} If the driver is unknown
+ */
+export const createMessageBus = (driver = process.env.BUS_DRIVER || 'kafka'): MessageBus => {
+  switch (driver) {
+    case 'kafka':
+      return new KafkaBus();
+
+    case 'memory':
+      memoryBroker = memoryBroker ?? new MemoryBroker();
+      return new MemoryBus(memoryBroker);
+
+    default:
+      throw new Error(`Unknown BUS_DRIVER '${driver}', expected 'kafka' or 'memory'`);
+  }
+};
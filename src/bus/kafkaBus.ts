@@ -0,0 +1,302 @@
+import { Kafka, Producer, Consumer, Partitioners, KafkaMessage, IHeaders } from 'kafkajs';
+import { randomUUID } from 'crypto';
+import dotenv from 'dotenv';
+import {
+  BusMessage,
+  ConsumerHandler,
+  ConsumerOptions,
+  MessageBus,
+  OutgoingMessage,
+  Subscription,
+  TopicConfig
+} from '../models/messageBus';
+import { KafkaError } from '../utils/errorHandler';
+
+dotenv.config();
+
+/**
+ * Resolves once a consumer has joined its group and been assigned partitions
+ * @param consumer - Consumer about to be started
+ * @returns Promise resolving on the consumer's first group join
+ */
+const groupJoined = (consumer: Consumer): Promise<void> => new Promise(resolve => {
+  const removeListener = consumer.on(consumer.events.GROUP_JOIN, () => {
+    removeListener();
+    resolve();
+  });
+});
+
+/**
+ * Reads Kafka headers as strings, keeping the first value of repeated headers
+ * @param headers - Message headers
+ * @returns Header values by name
+ */
+const headerValues = (headers: IHeaders | undefined): Record<string, string> => {
+  const values: Record<string, string> = {};
+  for (const [name, value] of Object.entries(headers ?? {})) {
+    const first = Array.isArray(value) ? value[0] : value;
+    if (first !== undefined) {
+      values[name] = first.toString();
+    }
+  }
+  return values;
+};
+
+/**
+ * Converts a message read by kafkajs into a bus message
+ * @param topic - Topic of the message
+ * @param partition - Partition of the message
+ * @param message - The message
+ * @returns The bus message
+ */
+const toBusMessage = (topic: string, partition: number, message: KafkaMessage): BusMessage => ({
+  topic,
+  partition,
+  offset: message.offset,
+  key: message.key ? message.key.toString() : null,
+  value: message.value === null ? null : message.value.toString('utf-8'),
+  headers: headerValues(message.headers)
+});
+
+/**
+ * Message bus backed by the Kafka cluster configured by the `KAFKA_*` environment variables.
+ * Every subscription runs a consumer of its own; messages are sent with one shared producer.
+ * @class KafkaBus
+ */
+export class KafkaBus implements MessageBus {
+  private kafka: Kafka;
+  private producer: Producer;
+  private producerConnected?: Promise<void>;
+  private consumers: { groupId: string; consumer: Consumer }[] = [];
+
+  /**
+   * Initializes the Kafka client with configuration from environment variables
+   */
+  constructor() {
+    this.kafka = new Kafka({
+      clientId: process.env.KAFKA_CLIENT_ID || 'polling-app',
+      brokers: (process.env.KAFKA_BROKERS || 'localhost:9092').split(','),
+      retry: {
+        initialRetryTime: 100,
+        retries: 8
+      }
+    });
+
+    this.producer = this.kafka.producer({
+      allowAutoTopicCreation: false,
+      createPartitioner: Partitioners.LegacyPartitioner,
+      retry: {
+        initialRetryTime: 1000,
+        retries: 5
+      }
+    });
+  }
+
+  async ensureTopics(topics: TopicConfig[]): Promise<void> {
+    const admin = this.kafka.admin({
+      retry: {
+        initialRetryTime: 1000,
+        retries: 10
+      }
+    });
+
+    await admin.connect().then(() => {
+      console.log('Kafka admin connection successful');
+    }).catch(error => {
+      console.error('Failed to connect to Kafka admin:', error);
+    });
+
+    try {
+      const existing: string[] | undefined | null = await admin.listTopics();
+      console.log('Available Kafka topics:', existing);
+
+      for (const { topic, partitions } of topics) {
+        if (existing && existing.includes(topic)) {
+          continue;
+        }
+
+        await admin.createTopics({
+          topics: [
+            {
+              topic,
+              numPartitions: partitions
+            }
+          ]
+        }).then(() => {
+          console.log(`Created Kafka topic: ${topic}`);
+        }).catch(error => {
+          console.error(`Failed to create Kafka topic: ${topic}`, error);
+        });
+
+        await admin.fetchTopicMetadata({
+          topics: [topic]
+        }).then(metadata => {
+          console.log(`Metadata for ${topic}:`, metadata);
+        }).catch(error => {
+          console.error(`Failed to fetch metadata for ${topic}:`, error);
+        });
+      }
+    } catch (error) {
+      console.error('Failed to list Kafka topics:', error);
+    } finally {
+      await admin.disconnect().then(() => {
+        console.log('Kafka admin disconnected');
+      }).catch(error => {
+        console.error('Failed to disconnect Kafka admin:', error);
+      });
+    }
+  }
+
+  async produce(topic: string, messages: OutgoingMessage[]): Promise<void> {
+    await this.connectProducer();
+
+    try {
+      await this.producer.send({
+        topic,
+        messages: messages.map(({ key, value, headers }) => ({ key: key ?? null, value, headers }))
+      });
+    } catch (error) {
+      throw new KafkaError(`Failed to send message to Kafka topic ${topic}: ${
+        error instanceof Error ? error.message : String(error)
+      }`);
+    }
+  }
+
+  async subscribe(options: ConsumerOptions, handler: ConsumerHandler): Promise<Subscription> {
+    const consumer = this.kafka.consumer({
+      groupId: options.groupId,
+      sessionTimeout: 30000,
+      heartbeatInterval: 3000,
+      maxWaitTimeInMs: options.maxWaitMs ?? 500,
+      retry: {
+        initialRetryTime: 1000,
+        retries: 5
+      }
+    });
+    this.consumers.push({ groupId: options.groupId, consumer });
+    const joined = groupJoined(consumer);
+
+    try {
+      await consumer.connect();
+      await consumer.subscribe({ topic: options.topic, fromBeginning: options.fromBeginning });
+      console.log(`Consumer group ${options.groupId} subscribed to Kafka topic: ${options.topic}`);
+
+      if ('eachMessage' in handler) {
+        await consumer.run({
+          partitionsConsumedConcurrently: options.concurrency ?? 1,
+          eachMessage: ({ topic, partition, message }) => handler.eachMessage(toBusMessage(topic, partition, message))
+        });
+      } else {
+        await consumer.run({
+          partitionsConsumedConcurrently: options.concurrency ?? 1,
+          eachBatch: async ({ batch, heartbeat }) => {
+            await handler.eachBatch(batch.messages.map(message =>
+              toBusMessage(batch.topic, batch.partition, message)
+            ));
+            await heartbeat();
+          }
+        });
+      }
+    } catch (error) {
+      throw new KafkaError(`Failed to start consumer group ${options.groupId}: ${
+        error instanceof Error ? error.message : String(error)
+      }`);
+    }
+
+    return { joined };
+  }
+
+  async readTopic(topic: string, timeoutMs: number): Promise<BusMessage[]> {
+    const admin = this.kafka.admin();
+    await admin.connect();
+    let offsets: { partition: number; low: string; high: string }[];
+    try {
+      offsets = await admin.fetchTopicOffsets(topic);
+    } finally {
+      await admin.disconnect();
+    }
+
+    // Partitions still to be read up to their high watermark
+    const remaining = new Map(offsets
+      .filter(({ low, high }) => Number(high) > Number(low))
+      .map(({ partition, high }) => [partition, Number(high)]));
+    if (remaining.size === 0) {
+      return [];
+    }
+
+    const messages: BusMessage[] = [];
+    const reader = this.kafka.consumer({ groupId: `topic-reader-${randomUUID()}`, maxWaitTimeInMs: 100 });
+    await reader.connect();
+    try {
+      await reader.subscribe({ topic, fromBeginning: true });
+      await new Promise<void>((resolve, reject) => {
+        const timer = setTimeout(() => {
+          reject(new KafkaError(`Timed out reading Kafka topic: ${topic}`));
+        }, timeoutMs);
+
+        reader.run({
+          eachMessage: async ({ partition, message }) => {
+            const end = remaining.get(partition);
+            if (end === undefined) return;
+
+            messages.push(toBusMessage(topic, partition, message));
+            if (Number(message.offset) + 1 >= end) {
+              remaining.delete(partition);
+            }
+            if (remaining.size === 0) {
+              clearTimeout(timer);
+              resolve();
+            }
+          }
+        }).catch(error => {
+          clearTimeout(timer);
+          reject(error);
+        });
+      });
+    } finally {
+      await reader.disconnect();
+    }
+
+    return messages.sort((a, b) => a.partition - b.partition || Number(a.offset) - Number(b.offset));
+  }
+
+  /**
+   * Disconnects the consumers first, so they finish the messages they are processing while the
+   * producer they reply and dead-letter with is still connected. A client failing to disconnect
+   * does not keep the others connected.
+   */
+  async disconnect(): Promise<void> {
+    const clients: [string, { disconnect(): Promise<void> }][] = [
+      ...this.consumers.map(({ groupId, consumer }): [string, Consumer] => [`Consumer of group ${groupId}`, consumer]),
+      ['Producer', this.producer]
+    ];
+
+    for (const [name, client] of clients) {
+      try {
+        await client.disconnect();
+        console.log(`${name} disconnected`);
+      } catch (error) {
+        console.error(`Error disconnecting ${name.toLowerCase()}:`, error);
+      }
+    }
+    this.consumers = [];
+    this.producerConnected = undefined;
+  }
+
+  /**
+   * Connects the producer once; a failed connection is retried by the next send
+   */
+  private connectProducer(): Promise<void> {
+    if (!this.producerConnected) {
+      this.producerConnected = this.producer.connect().then(() => {
+        console.log('Kafka producer connection successful');
+      }).catch(error => {
+        this.producerConnected = undefined;
+        throw new KafkaError(`Failed to connect to Kafka producer: ${
+          error instanceof Error ? error.message : String(error)
+        }`);
+      });
+    }
+    return this.producerConnected;
+  }
+}
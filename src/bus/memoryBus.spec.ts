@@ -0,0 +1,180 @@
+import { BusMessage } from '../models/messageBus';
+import { MemoryBroker, MemoryBus } from '.';
+
+/**
+ * Resolves once a condition holds, polling every few milliseconds
+ */
+const eventually = async (condition: () => boolean, timeoutMs = 2000): Promise<void> => {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) {
+      throw new Error('Condition not met in time');
+    }
+    await new Promise(resolve => setTimeout(resolve, 5));
+  }
+};
+
+describe('MemoryBus', () => {
+  let broker: MemoryBroker;
+  let buses: MemoryBus[];
+
+  /**
+   * Creates a client of the broker, disconnected after the test
+   */
+  const connect = (): MemoryBus => {
+    const bus = new MemoryBus(broker);
+    buses.push(bus);
+    return bus;
+  };
+
+  beforeEach(async () => {
+    broker = new MemoryBroker();
+    buses = [];
+    await connect().ensureTopics([{ topic: 'events', partitions: 3 }]);
+  });
+
+  afterEach(async () => {
+    for (const bus of buses) {
+      await bus.disconnect();
+    }
+  });
+
+  it('keeps the messages of one key in order', async () => {
+    const bus = connect();
+    const received: string[] = [];
+    await bus.subscribe({ groupId: 'ordered', topic: 'events', fromBeginning: true, concurrency: 3 }, {
+      eachMessage: async message => {
+        // Later messages of other partitions may overtake, but not those of the same key
+        await new Promise(resolve => setTimeout(resolve, Math.random() * 5));
+        received.push(message.value as string);
+      }
+    });
+
+    const values = Array.from({ length: 20 }, (_, index) => `${index % 2 === 0 ? 'a' : 'b'}-${index}`);
+    for (const value of values) {
+      await bus.produce('events', [{ key: value[0], value }]);
+    }
+
+    await eventually(() => received.length === values.length);
+    expect(received.filter(value => value.startsWith('a'))).toEqual(values.filter(value => value.startsWith('a')));
+    expect(received.filter(value => value.startsWith('b'))).toEqual(values.filter(value => value.startsWith('b')));
+  });
+
+  it('delivers each message once per consumer group', async () => {
+    const shared: string[] = [];
+    const own: string[] = [];
+    for (let member = 0; member < 2; member++) {
+      await connect().subscribe({ groupId: 'shared', topic: 'events', fromBeginning: true }, {
+        eachMessage: async message => {
+          shared.push(message.value as string);
+        }
+      });
+    }
+    await connect().subscribe({ groupId: 'own', topic: 'events', fromBeginning: true }, {
+      eachMessage: async message => {
+        own.push(message.value as string);
+      }
+    });
+
+    const values = Array.from({ length: 12 }, (_, index) => `message-${index}`);
+    await connect().produce('events', values.map(value => ({ value })));
+
+    await eventually(() => shared.length === values.length && own.length === values.length);
+    expect([...shared].sort()).toEqual([...values].sort());
+    expect([...own].sort()).toEqual([...values].sort());
+  });
+
+  it('starts new groups at the end of the topic unless reading from the beginning', async () => {
+    const bus = connect();
+    await bus.produce('events', [{ key: 'k', value: 'old' }]);
+
+    const latest: string[] = [];
+    const all: string[] = [];
+    await bus.subscribe({ groupId: 'latest', topic: 'events', fromBeginning: false }, {
+      eachMessage: async message => {
+        latest.push(message.value as string);
+      }
+    });
+    await bus.subscribe({ groupId: 'all', topic: 'events', fromBeginning: true }, {
+      eachMessage: async message => {
+        all.push(message.value as string);
+      }
+    });
+    await bus.produce('events', [{ key: 'k', value: 'new' }]);
+
+    await eventually(() => all.length === 2 && latest.length === 1);
+    expect(latest).toEqual(['new']);
+    expect(all).toEqual(['old', 'new']);
+  });
+
+  it('delivers a failed message again before the next one of its partition', async () => {
+    const bus = connect();
+    const attempts: string[] = [];
+    await bus.subscribe({ groupId: 'flaky', topic: 'events', fromBeginning: true }, {
+      eachMessage: async message => {
+        attempts.push(message.value as string);
+        if (message.value === 'first' && attempts.length < 3) {
+          throw new Error('Transient failure');
+        }
+      }
+    });
+
+    await bus.produce('events', [{ key: 'k', value: 'first' }, { key: 'k', value: 'second' }]);
+
+    await eventually(() => attempts.includes('second'));
+    expect(attempts).toEqual(['first', 'first', 'first', 'second']);
+  });
+
+  it('hands the unfinished messages of a member that left to the rest of its group', async () => {
+    const leaving = connect();
+    const staying = connect();
+    const processed: string[] = [];
+    let failing = true;
+    const handler = (name: string) => ({
+      eachMessage: async (message: BusMessage) => {
+        if (name === 'leaving' && failing) {
+          throw new Error('Member is shutting down');
+        }
+        processed.push(`${name}:${message.value}`);
+      }
+    });
+
+    // A single partition, so the first member owns it until it leaves
+    await leaving.ensureTopics([{ topic: 'single', partitions: 1 }]);
+    await leaving.subscribe({ groupId: 'workers', topic: 'single', fromBeginning: true }, handler('leaving'));
+    await leaving.produce('single', [{ value: 'job' }]);
+    await new Promise(resolve => setTimeout(resolve, 20));
+
+    await staying.subscribe({ groupId: 'workers', topic: 'single', fromBeginning: true }, handler('staying'));
+    await leaving.disconnect();
+    failing = false;
+
+    await eventually(() => processed.length > 0);
+    expect(processed).toEqual(['staying:job']);
+  });
+
+  it('passes pending messages to batch handlers together', async () => {
+    const bus = connect();
+    await bus.ensureTopics([{ topic: 'single', partitions: 1 }]);
+    await bus.produce('single', ['a', 'b', 'c'].map(value => ({ value })));
+
+    const batches: string[][] = [];
+    await bus.subscribe({ groupId: 'batches', topic: 'single', fromBeginning: true }, {
+      eachBatch: async messages => {
+        batches.push(messages.map(message => message.value as string));
+      }
+    });
+
+    await eventually(() => batches.length > 0);
+    expect(batches).toEqual([['a', 'b', 'c']]);
+  });
+
+  it('reads every message of a topic with its headers', async () => {
+    const bus = connect();
+    await bus.produce('events', [{ key: 'k', value: 'v', headers: { 'x-error': 'boom' } }]);
+
+    const [message] = await bus.readTopic('events');
+    expect(message).toMatchObject({ topic: 'events', offset: '0', key: 'k', value: 'v', headers: { 'x-error': 'boom' } });
+    await expect(bus.produce('missing', [{ value: 'v' }])).rejects.toThrow('Topic missing does not exist');
+  });
+});
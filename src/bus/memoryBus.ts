@@ -0,0 +1,294 @@
+import { createHash } from 'crypto';
+import {
+  BusMessage,
+  ConsumerHandler,
+  ConsumerOptions,
+  MessageBus,
+  OutgoingMessage,
+  Subscription,
+  TopicConfig
+} from '../models/messageBus';
+import { KafkaError } from '../utils/errorHandler';
+
+/** Backoff before a failed message is delivered again, doubled for each further failure */
+const REDELIVERY_INITIAL_DELAY_MS = 100;
+
+/** Longest backoff between deliveries of a failing message */
+const REDELIVERY_MAX_DELAY_MS = 5000;
+
+/** Messages of a topic by partition, each partition ordered by offset */
+interface MemoryTopic {
+  partitions: BusMessage[][];
+  /** Partition receiving the next message without a key */
+  nextPartition: number;
+}
+
+/** Subscription taking part in a consumer group */
+export interface MemoryMember {
+  handler: ConsumerHandler;
+  concurrency: number;
+  /** Partitions being processed by the member */
+  active: number;
+  /** Partitions waiting for the member to finish another one */
+  waiting: (() => void)[];
+  /** Handler calls in progress */
+  deliveries: Set<Promise<void>>;
+}
+
+/** Consumer group reading one topic */
+interface MemoryGroup {
+  groupId: string;
+  topic: string;
+  /** Offset of the next message to deliver, by partition */
+  offsets: number[];
+  members: MemoryMember[];
+  /** Delivery loops running, by partition */
+  delivering: (Promise<void> | undefined)[];
+}
+
+/**
+ * Waits before a message is delivered again
+ * @param ms - Time to wait in milliseconds
+ */
+const delay = (ms: number): Promise<void> => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Process-local broker shared by the in-memory buses. Like Kafka, it appends messages to the
+ * partition picked by their key and keeps one offset per consumer group and partition, assigning
+ * the partitions of a topic round-robin to the members of each group. A partition is delivered one
+ * message or batch at a time, and the offset only moves past a message once its handler succeeds;
+ * failed messages are delivered again with backoff, to another member if their member left.
+ */
+export class MemoryBroker {
+  private topics = new Map<string, MemoryTopic>();
+  private groups = new Map<string, MemoryGroup>();
+
+  /**
+   * Creates a topic if it does not exist
+   * @param topic - Topic name
+   * @param partitions - Number of partitions
+   */
+  createTopic(topic: string, partitions: number): void {
+    if (!this.topics.has(topic)) {
+      this.topics.set(topic, { partitions: Array.from({ length: Math.max(partitions, 1) }, () => []), nextPartition: 0 });
+    }
+  }
+
+  /**
+   * Appends messages to a topic and wakes the groups reading it
+   * @param topic - Topic name
+   * @param messages - Messages to append in order
+   * @throws {KafkaError} If the topic does not exist
+   */
+  append(topic: string, messages: OutgoingMessage[]): void {
+    const log = this.getTopic(topic);
+
+    for (const { key = null, value, headers = {} } of messages) {
+      const partition = key === null
+        ? log.nextPartition++ % log.partitions.length
+        : createHash('md5').update(key).digest().readUInt32BE(0) % log.partitions.length;
+      const entries = log.partitions[partition];
+      entries.push({ topic, partition, offset: String(entries.length), key, value, headers: { ...headers } });
+    }
+
+    // Delivered after the producer has carried on, as with a broker in between
+    setImmediate(() => {
+      for (const group of this.groups.values()) {
+        if (group.topic === topic) {
+          this.wake(group);
+        }
+      }
+    });
+  }
+
+  /**
+   * Adds a member to a consumer group, creating the group at the start or the end of the topic
+   * @param options - Group, topic and starting position
+   * @param handler - Processes each message or batch
+   * @returns The new member
+   * @throws {KafkaError} If the topic does not exist
+   */
+  join(options: ConsumerOptions, handler: ConsumerHandler): MemoryMember {
+    const log = this.getTopic(options.topic);
+    const id = `${options.groupId}|${options.topic}`;
+    let group = this.groups.get(id);
+    if (!group) {
+      group = {
+        groupId: options.groupId,
+        topic: options.topic,
+        offsets: log.partitions.map(entries => options.fromBeginning ? 0 : entries.length),
+        members: [],
+        delivering: []
+      };
+      this.groups.set(id, group);
+    }
+
+    const member: MemoryMember = {
+      handler,
+      concurrency: Math.max(options.concurrency ?? 1, 1),
+      active: 0,
+      waiting: [],
+      deliveries: new Set()
+    };
+    group.members.push(member);
+    this.wake(group);
+    return member;
+  }
+
+  /**
+   * Removes a member from its group once its handler calls in progress are over; its partitions
+   * pass to the other members, starting at the first message it did not finish
+   * @param member - Member to remove
+   */
+  async leave(member: MemoryMember): Promise<void> {
+    for (const group of this.groups.values()) {
+      const index = group.members.indexOf(member);
+      if (index === -1) {
+        continue;
+      }
+      group.members.splice(index, 1);
+      await Promise.all([...member.deliveries].map(delivery => delivery.catch(() => undefined)));
+      this.wake(group);
+    }
+  }
+
+  /**
+   * Lists every message of a topic
+   * @param topic - Topic name
+   * @returns Messages ordered by partition and offset
+   * @throws {KafkaError} If the topic does not exist
+   */
+  read(topic: string): BusMessage[] {
+    const messages: BusMessage[] = [];
+    for (const entries of this.getTopic(topic).partitions) {
+      messages.push(...entries.map(message => ({ ...message, headers: { ...message.headers } })));
+    }
+    return messages;
+  }
+
+  /**
+   * Looks up a topic
+   * @param topic - Topic name
+   * @returns The topic
+   * @throws {KafkaError} If the topic does not exist
+   */
+  private getTopic(topic: string): MemoryTopic {
+    const log = this.topics.get(topic);
+    if (!log) {
+      throw new KafkaError(`Topic ${topic} does not exist`);
+    }
+    return log;
+  }
+
+  /**
+   * Starts delivering every partition of a group that has messages waiting and no delivery running
+   * @param group - Group to wake
+   */
+  private wake(group: MemoryGroup): void {
+    const log = this.getTopic(group.topic);
+    log.partitions.forEach((entries, partition) => {
+      if (group.delivering[partition] || group.offsets[partition] >= entries.length || group.members.length === 0) {
+        return;
+      }
+
+      group.delivering[partition] = this.deliver(group, partition, entries).finally(() => {
+        group.delivering[partition] = undefined;
+        // Messages appended while the loop was finishing
+        this.wake(group);
+      });
+    });
+  }
+
+  /**
+   * Delivers the messages of a partition to the member it is assigned to, in order, until the
+   * partition is drained or the group has no members left
+   * @param group - Group reading the partition
+   * @param partition - Partition number
+   * @param entries - Messages of the partition
+   */
+  private async deliver(group: MemoryGroup, partition: number, entries: BusMessage[]): Promise<void> {
+    for (let attempt = 1; ;) {
+      const offset = group.offsets[partition];
+      const member = group.members[partition % Math.max(group.members.length, 1)];
+      if (!member || offset >= entries.length) {
+        return;
+      }
+
+      while (member.active >= member.concurrency) {
+        await new Promise<void>(resolve => member.waiting.push(resolve));
+      }
+      member.active++;
+      if (!group.members.includes(member)) {
+        // Left while waiting; the partition passes to the member now assigned
+        member.active--;
+        member.waiting.shift()?.();
+        continue;
+      }
+
+      const messages = 'eachBatch' in member.handler ? entries.slice(offset) : [entries[offset]];
+      const delivery = 'eachBatch' in member.handler
+        ? member.handler.eachBatch(messages)
+        : member.handler.eachMessage(messages[0]);
+      member.deliveries.add(delivery);
+      try {
+        await delivery;
+        group.offsets[partition] = offset + messages.length;
+        attempt = 1;
+      } catch (error) {
+        console.error(
+          `Consumer group ${group.groupId} failed to process ${group.topic}/${partition}@${offset} ` +
+          `(attempt ${attempt}), delivering it again:`,
+          error
+        );
+        await delay(Math.min(REDELIVERY_INITIAL_DELAY_MS * Math.pow(2, attempt - 1), REDELIVERY_MAX_DELAY_MS));
+        attempt++;
+      } finally {
+        member.deliveries.delete(delivery);
+        member.active--;
+        member.waiting.shift()?.();
+      }
+    }
+  }
+}
+
+/**
+ * Message bus delivering messages within the process through a `MemoryBroker`, for tests and
+ * local runs without Kafka. Each bus is one client of the broker: disconnecting it only stops its
+ * own subscriptions.
+ * @class MemoryBus
+ */
+export class MemoryBus implements MessageBus {
+  private members: MemoryMember[] = [];
+
+  /**
+   * @param broker - Broker shared with the other clients, by default a new one
+   */
+  constructor(private broker: MemoryBroker = new MemoryBroker()) {}
+
+  async ensureTopics(topics: TopicConfig[]): Promise<void> {
+    for (const { topic, partitions } of topics) {
+      this.broker.createTopic(topic, partitions);
+    }
+  }
+
+  async produce(topic: string, messages: OutgoingMessage[]): Promise<void> {
+    this.broker.append(topic, messages);
+  }
+
+  async subscribe(options: ConsumerOptions, handler: ConsumerHandler): Promise<Subscription> {
+    this.members.push(this.broker.join(options, handler));
+    return { joined: Promise.resolve() };
+  }
+
+  async readTopic(topic: string): Promise<BusMessage[]> {
+    return this.broker.read(topic);
+  }
+
+  async disconnect(): Promise<void> {
+    const members = this.members;
+    this.members = [];
+    for (const member of members) {
+      await this.broker.leave(member);
+    }
+  }
+}
@@ -12,7 +12,15 @@ export enum TableNames {
   OPTIONS = 'poll_options',
   VOTES = 'votes',
   VOTE_COUNTERS = 'votes_counters',
-  OPTION_VOTE_COUNTERS = 'option_vote_counters'
+  OPTION_VOTE_COUNTERS = 'option_vote_counters',
+  BALLOT_CHOICES = 'ballot_choices',
+  VOTE_HISTORY = 'vote_history',
+  OPERATIONS = 'operations',
+  IDEMPOTENCY_KEYS = 'idempotency_keys',
+  VOTE_ROLLUPS = 'vote_rollups',
+  RATE_LIMIT_BUCKETS = 'rate_limit_buckets',
+  RATE_LIMIT_COUNTERS = 'rate_limit_counters',
+  SUSPICIOUS_ACTIVITY = 'suspicious_activity'
 }
 
 /**
@@ -81,11 +89,15 @@ export const executeQuery = async (query: string, values: any[] = [], retries =
  * Executes a callback function within a database transaction
  * Automatically handles COMMIT and ROLLBACK
  * @param callback - Function to execute within the transaction
+ * @param db - Connection pool to take the client from (default: the application pool)
  * @returns Result of the callback function
  * @throws Error if transaction fails
  */
-export const withTransaction = async <T>(callback: (client: PoolClient) => Promise<T>): Promise<T> => {
-  const client = await pool.connect();
+export const withTransaction = async <T>(
+  callback: (client: PoolClient) => Promise<T>,
+  db: Pool = pool
+): Promise<T> => {
+  const client = await db.connect();
   try {
     await client.query('BEGIN');
     const result = await callback(client);
@@ -98,58 +110,3 @@ export const withTransaction = async <T>(callback: (client: PoolClient) => Promi
     client.release();
   }
 };
-
-/**
- * Creates database tables if they don't exist
- * Sets up the schema for polls, options, votes, and vote counters
- * @throws DatabaseError if table creation fails
- */
-export const createTables = async () => {
-  const client = await pool.connect();
-  const queries = `
-    CREATE TABLE IF NOT EXISTS ${TableNames.POLLS} (
-        id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
-        question TEXT NOT NULL,
-        expired_at TIMESTAMP WITH TIME ZONE NOT NULL,
-        remarks TEXT,
-        created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
-      );
-
-      CREATE TABLE IF NOT EXISTS ${TableNames.OPTIONS} (
-        id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
-        poll_id UUID REFERENCES ${TableNames.POLLS}(id) ON DELETE CASCADE,
-        option_text TEXT NOT NULL,
-        created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
-      );
-
-      CREATE TABLE IF NOT EXISTS ${TableNames.VOTES} (
-        id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
-        poll_id UUID REFERENCES ${TableNames.POLLS}(id) ON DELETE CASCADE,
-        user_id VARCHAR(255) NOT NULL,
-        option_id UUID REFERENCES ${TableNames.OPTIONS}(id) ON DELETE CASCADE,
-        created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
-        UNIQUE(poll_id, user_id)
-      );
-
-      CREATE TABLE IF NOT EXISTS ${TableNames.VOTE_COUNTERS} (
-        poll_id UUID PRIMARY KEY REFERENCES ${TableNames.POLLS}(id) ON DELETE CASCADE,
-        vote_count INTEGER DEFAULT 0
-      );
-
-      CREATE TABLE IF NOT EXISTS ${TableNames.OPTION_VOTE_COUNTERS} (
-        option_id UUID PRIMARY KEY REFERENCES ${TableNames.OPTIONS}(id) ON DELETE CASCADE,
-        vote_count INTEGER DEFAULT 0
-      );
-  `;
-  try {
-    await client.query('BEGIN');
-    await client.query(queries);
-    await client.query('COMMIT');
-    console.log('Database tables created successfully');
-  } catch (error) {
-    await client.query('ROLLBACK');
-    throw new DatabaseError(`Failed to create tables: ${error instanceof Error ? error.message : 'Unknown error'}`);
-  } finally {
-    client.release();
-  }
-};
@@ -0,0 +1,66 @@
+import { Pool } from 'pg';
+import { pool, poolConfig, TableNames } from './database';
+import { loadMigrations, Migrator } from './migrator';
+
+/**
+ * Applies every migration to an empty schema of the local Postgres configured by the `POSTGRES_*`
+ * variables. The schema is dropped afterwards.
+ */
+describe('Migrator', () => {
+  const schema = `migrator_test_${process.pid}`;
+  const migrations = loadMigrations();
+  let db: Pool;
+
+  /**
+   * Lists the application tables present in the test schema
+   */
+  const tables = async (): Promise<string[]> => {
+    const result = await db.query(
+      'SELECT table_name FROM information_schema.tables WHERE table_schema = $1 ORDER BY table_name',
+      [schema]
+    );
+    return result.rows.map(row => row.table_name).filter(name => name !== 'schema_migrations');
+  };
+
+  beforeAll(async () => {
+    // Postgres accepts a search path naming a schema that does not exist yet
+    db = new Pool({ ...poolConfig, min: 0, max: 5, options: `-c search_path=${schema}` });
+    await db.query(`CREATE SCHEMA ${schema}`);
+  });
+
+  afterAll(async () => {
+    await db.query(`DROP SCHEMA IF EXISTS ${schema} CASCADE`);
+    await db.end();
+    await pool.end();
+  });
+
+  it('applies every migration to an empty database', async () => {
+    const applied = await new Migrator(db, migrations).up();
+
+    expect(applied.map(migration => migration.version)).toEqual(migrations.map(migration => migration.version));
+    expect(await tables()).toEqual(Object.values(TableNames).sort());
+    const statuses = await new Migrator(db, migrations).status();
+    expect(statuses.every(status => status.applied_at !== null && !status.missing)).toBe(true);
+  });
+
+  it('applies nothing once the schema is up to date', async () => {
+    expect(await new Migrator(db, migrations).up()).toEqual([]);
+  });
+
+  it('lets one of several concurrent runs apply each migration', async () => {
+    await new Migrator(db, migrations).down(migrations.length);
+
+    const runs = await Promise.all([new Migrator(db, migrations).up(), new Migrator(db, migrations).up()]);
+
+    expect(runs.map(run => run.length).sort()).toEqual([0, migrations.length]);
+    expect(await tables()).toEqual(Object.values(TableNames).sort());
+  });
+
+  it('reverts every migration back to an empty database', async () => {
+    const reverted = await new Migrator(db, migrations).down(migrations.length);
+
+    expect(reverted.map(migration => migration.version))
+      .toEqual(migrations.map(migration => migration.version).reverse());
+    expect(await tables()).toEqual([]);
+  });
+});
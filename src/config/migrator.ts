@@ -0,0 +1,218 @@
+import fs from 'fs';
+import path from 'path';
+import { Pool, PoolClient } from 'pg';
+import { pool } from './database';
+import { Migration, MigrationStatus } from '../models/migration';
+import { DatabaseError } from '../utils/errorHandler';
+
+/** Directory holding the numbered migration files */
+const MIGRATIONS_DIR = path.join(__dirname, '..', 'migrations');
+
+/** Matches migration file names such as `001_initial_schema.ts`, capturing the version and name */
+const MIGRATION_FILE_PATTERN = /^(\d+)_(\w+)\.(ts|js)$/;
+
+/** Table recording the applied migrations */
+const MIGRATIONS_TABLE = 'schema_migrations';
+
+/** Key of the advisory lock held while migrating, shared by every app instance */
+const MIGRATION_LOCK_ID = 727001;
+
+/** How long to wait for another instance to finish migrating */
+const MIGRATION_LOCK_TIMEOUT_MS = parseInt(process.env.MIGRATION_LOCK_TIMEOUT_MS || '300000', 10);
+
+/** Interval between attempts to take the migration lock */
+const LOCK_RETRY_INTERVAL_MS = 500;
+
+/**
+ * Loads the migration files of a directory. Each file is named `<version>_<name>` and exports the
+ * SQL to apply as `up` and to revert as `down`.
+ * @param directory - Directory holding the migration files
+ * @returns Migrations ordered by version
+ * @throws {Error} If a file misses its SQL or two files share a version
+ */
+export const loadMigrations = (directory = MIGRATIONS_DIR): Migration[] => {
+  const migrations = fs.readdirSync(directory)
+    .filter(file => MIGRATION_FILE_PATTERN.test(file) && !file.endsWith('.d.ts'))
+    .map(file => {
+      const [, version, name] = MIGRATION_FILE_PATTERN.exec(file) as RegExpExecArray;
+      const { up, down } = require(path.join(directory, file));
+      if (typeof up !== 'string' || typeof down !== 'string') {
+        throw new Error(`Migration ${file} must export the SQL strings up and down`);
+      }
+      return { version: parseInt(version, 10), name, up, down };
+    })
+    .sort((a, b) => a.version - b.version);
+
+  migrations.forEach((migration, index) => {
+    if (index > 0 && migrations[index - 1].version === migration.version) {
+      throw new Error(`Migrations ${migrations[index - 1].name} and ${migration.name} share version ${migration.version}`);
+    }
+  });
+  return migrations;
+};
+
+/**
+ * Applies and reverts the numbered schema migrations, recording the applied ones in
+ * `schema_migrations`. Every run holds a database-wide advisory lock, so instances starting at the
+ * same time apply each migration once. Each migration runs in its own transaction.
+ */
+export class Migrator {
+  /**
+   * @param db - Connection pool of the database to migrate
+   * @param migrations - Known migrations, by default the files of `src/migrations`
+   */
+  constructor(
+    private db: Pool = pool,
+    private migrations: Migration[] = loadMigrations()
+  ) {}
+
+  /**
+   * Applies the pending migrations in order
+   * @param target - Last version to apply, by default the latest
+   * @returns The applied migrations
+   * @throws {DatabaseError} If a migration fails; the ones before it stay applied
+   */
+  async up(target?: number): Promise<Migration[]> {
+    return this.withLock(async client => {
+      const applied = await this.appliedVersions(client);
+      const pending = this.migrations.filter(migration =>
+        !applied.has(migration.version) && (target === undefined || migration.version <= target)
+      );
+
+      for (const migration of pending) {
+        await this.run(client, migration, 'up');
+      }
+      return pending;
+    });
+  }
+
+  /**
+   * Reverts the most recently applied migrations
+   * @param steps - Number of migrations to revert
+   * @returns The reverted migrations, newest first
+   * @throws {DatabaseError} If a migration fails or its file is missing
+   */
+  async down(steps = 1): Promise<Migration[]> {
+    return this.withLock(async client => {
+      const applied = [...await this.appliedVersions(client)].sort((a, b) => b - a).slice(0, steps);
+      const reverted: Migration[] = [];
+
+      for (const version of applied) {
+        const migration = this.migrations.find(known => known.version === version);
+        if (!migration) {
+          throw new DatabaseError(`Cannot revert migration ${version}: its file is missing`);
+        }
+        await this.run(client, migration, 'down');
+        reverted.push(migration);
+      }
+      return reverted;
+    });
+  }
+
+  /**
+   * Lists the known and the applied migrations
+   * @returns Status of each migration ordered by version
+   */
+  async status(): Promise<MigrationStatus[]> {
+    return this.withLock(async client => {
+      const result = await client.query(`SELECT version, name, applied_at FROM ${MIGRATIONS_TABLE}`);
+      const applied = new Map<number, { name: string; applied_at: Date }>(
+        result.rows.map(row => [row.version, row])
+      );
+
+      const statuses: MigrationStatus[] = this.migrations.map(({ version, name }) => ({
+        version,
+        name,
+        applied_at: applied.get(version)?.applied_at ?? null,
+        missing: false
+      }));
+      for (const [version, row] of applied) {
+        if (!this.migrations.some(migration => migration.version === version)) {
+          statuses.push({ version, name: row.name, applied_at: row.applied_at, missing: true });
+        }
+      }
+      return statuses.sort((a, b) => a.version - b.version);
+    });
+  }
+
+  /**
+   * Runs a task on a dedicated connection holding the migration lock, creating the migrations
+   * table first
+   * @param task - Work to do while holding the lock
+   * @returns Result of the task
+   * @throws {DatabaseError} If the lock is not granted within the lock timeout
+   */
+  private async withLock<T>(task: (client: PoolClient) => Promise<T>): Promise<T> {
+    const client = await this.db.connect();
+    try {
+      const deadline = Date.now() + MIGRATION_LOCK_TIMEOUT_MS;
+      for (;;) {
+        const { rows } = await client.query('SELECT pg_try_advisory_lock($1) as locked', [MIGRATION_LOCK_ID]);
+        if (rows[0].locked) {
+          break;
+        }
+        if (Date.now() >= deadline) {
+          throw new DatabaseError('Timed out waiting for another instance to finish migrating');
+        }
+        await new Promise(resolve => setTimeout(resolve, LOCK_RETRY_INTERVAL_MS));
+      }
+
+      try {
+        await client.query(`
+          CREATE TABLE IF NOT EXISTS ${MIGRATIONS_TABLE} (
+            version INTEGER PRIMARY KEY,
+            name TEXT NOT NULL,
+            applied_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP
+          )
+        `);
+        return await task(client);
+      } finally {
+        await client.query('SELECT pg_advisory_unlock($1)', [MIGRATION_LOCK_ID]);
+      }
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Reads the versions of the applied migrations
+   * @param client - Connection holding the migration lock
+   * @returns Applied versions
+   */
+  private async appliedVersions(client: PoolClient): Promise<Set<number>> {
+    const result = await client.query(`SELECT version FROM ${MIGRATIONS_TABLE}`);
+    return new Set(result.rows.map(row => row.version));
+  }
+
+  /**
+   * Applies or reverts a migration and records it in one transaction. Migrations may run longer
+   * than the pool's statement timeout.
+   * @param client - Connection holding the migration lock
+   * @param migration - Migration to run
+   * @param direction - Whether to apply or revert it
+   * @throws {DatabaseError} If the migration fails
+   */
+  private async run(client: PoolClient, migration: Migration, direction: 'up' | 'down'): Promise<void> {
+    const label = `${String(migration.version).padStart(3, '0')}_${migration.name}`;
+    try {
+      await client.query('BEGIN');
+      await client.query('SET LOCAL statement_timeout = 0');
+      await client.query(migration[direction]);
+      if (direction === 'up') {
+        await client.query(
+          `INSERT INTO ${MIGRATIONS_TABLE} (version, name) VALUES ($1, $2)`,
+          [migration.version, migration.name]
+        );
+      } else {
+        await client.query(`DELETE FROM ${MIGRATIONS_TABLE} WHERE version = $1`, [migration.version]);
+      }
+      await client.query('COMMIT');
+      console.log(`Migration ${label} ${direction === 'up' ? 'applied' : 'reverted'}`);
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw new DatabaseError(
+        `Migration ${label} ${direction} failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+}
@@ -0,0 +1,49 @@
+import { TableNames } from '../config/database';
+
+/**
+ * Schema the application started with. Tables are only created if missing, so databases set up
+ * before migrations existed adopt it unchanged.
+ */
+export const up = `
+  CREATE TABLE IF NOT EXISTS ${TableNames.POLLS} (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    question TEXT NOT NULL,
+    expired_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    remarks TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+  );
+
+  CREATE TABLE IF NOT EXISTS ${TableNames.OPTIONS} (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    poll_id UUID REFERENCES ${TableNames.POLLS}(id) ON DELETE CASCADE,
+    option_text TEXT NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+  );
+
+  CREATE TABLE IF NOT EXISTS ${TableNames.VOTES} (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    poll_id UUID REFERENCES ${TableNames.POLLS}(id) ON DELETE CASCADE,
+    user_id VARCHAR(255) NOT NULL,
+    option_id UUID REFERENCES ${TableNames.OPTIONS}(id) ON DELETE CASCADE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(poll_id, user_id)
+  );
+
+  CREATE TABLE IF NOT EXISTS ${TableNames.VOTE_COUNTERS} (
+    poll_id UUID PRIMARY KEY REFERENCES ${TableNames.POLLS}(id) ON DELETE CASCADE,
+    vote_count INTEGER DEFAULT 0
+  );
+
+  CREATE TABLE IF NOT EXISTS ${TableNames.OPTION_VOTE_COUNTERS} (
+    option_id UUID PRIMARY KEY REFERENCES ${TableNames.OPTIONS}(id) ON DELETE CASCADE,
+    vote_count INTEGER DEFAULT 0
+  );
+`;
+
+export const down = `
+  DROP TABLE IF EXISTS ${TableNames.OPTION_VOTE_COUNTERS};
+  DROP TABLE IF EXISTS ${TableNames.VOTE_COUNTERS};
+  DROP TABLE IF EXISTS ${TableNames.VOTES};
+  DROP TABLE IF EXISTS ${TableNames.OPTIONS};
+  DROP TABLE IF EXISTS ${TableNames.POLLS};
+`;
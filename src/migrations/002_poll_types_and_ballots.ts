@@ -0,0 +1,29 @@
+import { TableNames } from '../config/database';
+
+/**
+ * Multi-select and ranked polls: the poll type with its selection bounds, and the ordered choices
+ * of each ballot
+ */
+export const up = `
+  ALTER TABLE ${TableNames.POLLS}
+    ADD COLUMN IF NOT EXISTS poll_type VARCHAR(16) NOT NULL DEFAULT 'single',
+    ADD COLUMN IF NOT EXISTS min_selections INTEGER NOT NULL DEFAULT 1,
+    ADD COLUMN IF NOT EXISTS max_selections INTEGER NOT NULL DEFAULT 1;
+
+  CREATE TABLE IF NOT EXISTS ${TableNames.BALLOT_CHOICES} (
+    vote_id UUID REFERENCES ${TableNames.VOTES}(id) ON DELETE CASCADE,
+    option_id UUID REFERENCES ${TableNames.OPTIONS}(id) ON DELETE CASCADE,
+    position INTEGER NOT NULL,
+    PRIMARY KEY (vote_id, position),
+    UNIQUE(vote_id, option_id)
+  );
+`;
+
+export const down = `
+  DROP TABLE IF EXISTS ${TableNames.BALLOT_CHOICES};
+
+  ALTER TABLE ${TableNames.POLLS}
+    DROP COLUMN IF EXISTS max_selections,
+    DROP COLUMN IF EXISTS min_selections,
+    DROP COLUMN IF EXISTS poll_type;
+`;
@@ -0,0 +1,27 @@
+import { TableNames } from '../config/database';
+
+/**
+ * Changing and retracting votes: the per-poll setting allowing it, and the audit trail of
+ * previous ballots
+ */
+export const up = `
+  ALTER TABLE ${TableNames.POLLS}
+    ADD COLUMN IF NOT EXISTS allow_vote_change BOOLEAN NOT NULL DEFAULT TRUE;
+
+  CREATE TABLE IF NOT EXISTS ${TableNames.VOTE_HISTORY} (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    vote_id UUID NOT NULL,
+    poll_id UUID REFERENCES ${TableNames.POLLS}(id) ON DELETE CASCADE,
+    user_id VARCHAR(255) NOT NULL,
+    action VARCHAR(16) NOT NULL,
+    previous_option_ids UUID[] NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+  );
+`;
+
+export const down = `
+  DROP TABLE IF EXISTS ${TableNames.VOTE_HISTORY};
+
+  ALTER TABLE ${TableNames.POLLS}
+    DROP COLUMN IF EXISTS allow_vote_change;
+`;
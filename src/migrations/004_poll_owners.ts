@@ -0,0 +1,18 @@
+import { TableNames } from '../config/database';
+
+/**
+ * Poll owners, and the index behind the newest-first poll listing
+ */
+export const up = `
+  ALTER TABLE ${TableNames.POLLS}
+    ADD COLUMN IF NOT EXISTS created_by VARCHAR(255);
+
+  CREATE INDEX IF NOT EXISTS polls_created_at_idx ON ${TableNames.POLLS} (created_at DESC, id DESC);
+`;
+
+export const down = `
+  DROP INDEX IF EXISTS polls_created_at_idx;
+
+  ALTER TABLE ${TableNames.POLLS}
+    DROP COLUMN IF EXISTS created_by;
+`;
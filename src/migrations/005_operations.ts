@@ -0,0 +1,33 @@
+import { TableNames } from '../config/database';
+
+/**
+ * Status records of queued commands, and the idempotency keys deduplicating their retries
+ */
+export const up = `
+  CREATE TABLE IF NOT EXISTS ${TableNames.OPERATIONS} (
+    id UUID PRIMARY KEY,
+    type VARCHAR(32) NOT NULL,
+    status VARCHAR(16) NOT NULL DEFAULT 'pending',
+    result JSONB,
+    reason TEXT,
+    client_id VARCHAR(255),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+  );
+
+  CREATE TABLE IF NOT EXISTS ${TableNames.IDEMPOTENCY_KEYS} (
+    key VARCHAR(255) PRIMARY KEY,
+    request_hash CHAR(64) NOT NULL,
+    operation_id UUID NOT NULL REFERENCES ${TableNames.OPERATIONS}(id) ON DELETE CASCADE,
+    status VARCHAR(16) NOT NULL DEFAULT 'pending',
+    result JSONB,
+    reason TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    processed_at TIMESTAMP WITH TIME ZONE
+  );
+`;
+
+export const down = `
+  DROP TABLE IF EXISTS ${TableNames.IDEMPOTENCY_KEYS};
+  DROP TABLE IF EXISTS ${TableNames.OPERATIONS};
+`;
@@ -0,0 +1,32 @@
+import { TableNames } from '../config/database';
+
+/**
+ * Counting votes over time: the index behind windowed leaderboards, and per-minute rollups of the
+ * option counters backfilled from the votes cast so far
+ */
+export const up = `
+  CREATE INDEX IF NOT EXISTS votes_created_at_idx ON ${TableNames.VOTES} (created_at);
+
+  CREATE TABLE IF NOT EXISTS ${TableNames.VOTE_ROLLUPS} (
+    poll_id UUID REFERENCES ${TableNames.POLLS}(id) ON DELETE CASCADE,
+    option_id UUID REFERENCES ${TableNames.OPTIONS}(id) ON DELETE CASCADE,
+    bucket_start TIMESTAMP WITH TIME ZONE NOT NULL,
+    vote_count INTEGER NOT NULL DEFAULT 0,
+    PRIMARY KEY (option_id, bucket_start)
+  );
+
+  CREATE INDEX IF NOT EXISTS vote_rollups_poll_idx ON ${TableNames.VOTE_ROLLUPS} (poll_id, bucket_start);
+
+  INSERT INTO ${TableNames.VOTE_ROLLUPS} (poll_id, option_id, bucket_start, vote_count)
+    SELECT v.poll_id, COALESCE(bc.option_id, v.option_id), date_trunc('minute', v.created_at), COUNT(*)
+    FROM ${TableNames.VOTES} v
+    JOIN ${TableNames.POLLS} p ON p.id = v.poll_id
+    LEFT JOIN ${TableNames.BALLOT_CHOICES} bc ON bc.vote_id = v.id AND p.poll_type = 'multiple'
+    GROUP BY 1, 2, 3
+    ON CONFLICT DO NOTHING;
+`;
+
+export const down = `
+  DROP TABLE IF EXISTS ${TableNames.VOTE_ROLLUPS};
+  DROP INDEX IF EXISTS votes_created_at_idx;
+`;
@@ -0,0 +1,42 @@
+import { TableNames } from '../config/database';
+
+/**
+ * Shared state of the rate limiter: token buckets, vote burst counters and the sources flagged for
+ * bursts. Flags are not tied to the polls table, as votes are screened before the consumer has
+ * checked that their poll exists.
+ */
+export const up = `
+  CREATE TABLE IF NOT EXISTS ${TableNames.RATE_LIMIT_BUCKETS} (
+    key TEXT PRIMARY KEY,
+    tokens DOUBLE PRECISION NOT NULL,
+    updated_ms BIGINT NOT NULL,
+    full_ms BIGINT NOT NULL
+  );
+
+  CREATE INDEX IF NOT EXISTS rate_limit_buckets_full_idx ON ${TableNames.RATE_LIMIT_BUCKETS} (full_ms);
+
+  CREATE TABLE IF NOT EXISTS ${TableNames.RATE_LIMIT_COUNTERS} (
+    key TEXT PRIMARY KEY,
+    window_start_ms BIGINT NOT NULL,
+    count INTEGER NOT NULL,
+    ends_ms BIGINT NOT NULL
+  );
+
+  CREATE INDEX IF NOT EXISTS rate_limit_counters_ends_idx ON ${TableNames.RATE_LIMIT_COUNTERS} (ends_ms);
+
+  CREATE TABLE IF NOT EXISTS ${TableNames.SUSPICIOUS_ACTIVITY} (
+    poll_id UUID NOT NULL,
+    source_type VARCHAR(16) NOT NULL,
+    source VARCHAR(64) NOT NULL,
+    peak_votes INTEGER NOT NULL,
+    first_flagged_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    last_flagged_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    PRIMARY KEY (poll_id, source_type, source)
+  );
+`;
+
+export const down = `
+  DROP TABLE IF EXISTS ${TableNames.SUSPICIOUS_ACTIVITY};
+  DROP TABLE IF EXISTS ${TableNames.RATE_LIMIT_COUNTERS};
+  DROP TABLE IF EXISTS ${TableNames.RATE_LIMIT_BUCKETS};
+`;
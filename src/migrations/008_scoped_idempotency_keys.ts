@@ -0,0 +1,23 @@
+import { TableNames } from '../config/database';
+
+/**
+ * Scopes idempotency keys to the caller that sent them, so different callers may use the same key.
+ * Keys recorded before carry an empty scope.
+ */
+export const up = `
+  ALTER TABLE ${TableNames.IDEMPOTENCY_KEYS} ADD COLUMN IF NOT EXISTS scope VARCHAR(255) NOT NULL DEFAULT '';
+  ALTER TABLE ${TableNames.IDEMPOTENCY_KEYS} DROP CONSTRAINT IF EXISTS ${TableNames.IDEMPOTENCY_KEYS}_pkey;
+  ALTER TABLE ${TableNames.IDEMPOTENCY_KEYS} ADD PRIMARY KEY (scope, key);
+  CREATE INDEX IF NOT EXISTS idempotency_keys_operation_idx ON ${TableNames.IDEMPOTENCY_KEYS} (operation_id);
+`;
+
+/** Keys shared by several callers keep the entry of the first scope */
+export const down = `
+  DROP INDEX IF EXISTS idempotency_keys_operation_idx;
+  DELETE FROM ${TableNames.IDEMPOTENCY_KEYS} a
+    USING ${TableNames.IDEMPOTENCY_KEYS} b
+    WHERE a.key = b.key AND a.scope > b.scope;
+  ALTER TABLE ${TableNames.IDEMPOTENCY_KEYS} DROP CONSTRAINT IF EXISTS ${TableNames.IDEMPOTENCY_KEYS}_pkey;
+  ALTER TABLE ${TableNames.IDEMPOTENCY_KEYS} DROP COLUMN IF EXISTS scope;
+  ALTER TABLE ${TableNames.IDEMPOTENCY_KEYS} ADD PRIMARY KEY (key);
+`;
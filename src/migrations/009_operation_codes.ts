@@ -0,0 +1,15 @@
+import { TableNames } from '../config/database';
+
+/**
+ * Stores the stable error code of rejected commands next to their reason, so outcomes read back
+ * from the database map to the same problem type as the consumer's reply
+ */
+export const up = `
+  ALTER TABLE ${TableNames.OPERATIONS} ADD COLUMN IF NOT EXISTS code VARCHAR(64);
+  ALTER TABLE ${TableNames.IDEMPOTENCY_KEYS} ADD COLUMN IF NOT EXISTS code VARCHAR(64);
+`;
+
+export const down = `
+  ALTER TABLE ${TableNames.IDEMPOTENCY_KEYS} DROP COLUMN IF EXISTS code;
+  ALTER TABLE ${TableNames.OPERATIONS} DROP COLUMN IF EXISTS code;
+`;
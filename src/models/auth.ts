@@ -0,0 +1,19 @@
+/** Kind of caller behind an authenticated request */
+export type PrincipalKind = 'user' | 'service';
+
+/** Authenticated caller of a request */
+export interface AuthPrincipal {
+  kind: PrincipalKind;
+  /** User ID from the token subject, or the name of the calling service */
+  subject: string;
+}
+
+/** Claims of a bearer token the API accepts */
+export interface TokenClaims {
+  sub: string;
+  /** Expiration time in seconds since the epoch */
+  exp?: number;
+  /** Time before which the token is not valid, in seconds since the epoch */
+  nbf?: number;
+  [claim: string]: unknown;
+}
@@ -0,0 +1,15 @@
+/** Represents a message that could not be processed and was moved to the dead-letter topic */
+export interface DeadLetter {
+  /** Position of the entry on the dead-letter topic */
+  partition: number;
+  offset: string;
+  key: string | null;
+  /** Original message value, which may not be valid JSON */
+  value: string;
+  error: string;
+  attempts: number;
+  original_topic: string;
+  original_partition: number;
+  original_offset: string;
+  failed_at: string;
+}
@@ -0,0 +1,51 @@
+import { CreatePollDTO, UpdatePollDTO } from './poll';
+import { CreateVoteDTO, RetractVoteDTO } from './vote';
+import { OperationType } from './operation';
+
+/** Type of an event on the updates topic, one per command */
+export type EventType = OperationType;
+
+/** Envelope wrapping every event on the updates topic */
+export interface EventEnvelope<T extends EventType, P> {
+  type: T;
+  /** Schema version of the payload */
+  version: number;
+  /** Unique event ID, also the ID of the operation tracking the command */
+  id: string;
+  /** ISO timestamp of when the command was accepted */
+  occurred_at: string;
+  /** Client-supplied idempotency key of the originating request, if any */
+  idempotency_key?: string;
+  payload: P;
+}
+
+/** Payload of a poll creation event, with the expiration date serialized */
+export type PollCreatePayload = Omit<CreatePollDTO, 'expired_at'> & { expired_at: string };
+
+/** Payload of events that only reference a poll */
+export interface PollReferencePayload {
+  poll_id: string;
+  /** User the change is made on behalf of, who must own the poll; unset for service callers */
+  requested_by?: string;
+}
+
+/** Payload of a poll update event, with the expiration date serialized */
+export type PollUpdatePayload = Omit<UpdatePollDTO, 'expired_at'> & PollReferencePayload & { expired_at?: string };
+
+export type PollCreateEvent = EventEnvelope<'poll.create', PollCreatePayload>;
+export type PollUpdateEvent = EventEnvelope<'poll.update', PollUpdatePayload>;
+export type PollCloseEvent = EventEnvelope<'poll.close', PollReferencePayload>;
+export type PollDeleteEvent = EventEnvelope<'poll.delete', PollReferencePayload>;
+export type VoteCastEvent = EventEnvelope<'vote.cast', CreateVoteDTO>;
+export type VoteChangeEvent = EventEnvelope<'vote.change', CreateVoteDTO>;
+export type VoteRetractEvent = EventEnvelope<'vote.retract', RetractVoteDTO>;
+
+/** Any event on the updates topic, discriminated by `type` */
+export type PollingEvent =
+  | PollCreateEvent
+  | PollUpdateEvent
+  | PollCloseEvent
+  | PollDeleteEvent
+  | VoteCastEvent
+  | VoteChangeEvent
+  | VoteRetractEvent;
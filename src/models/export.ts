@@ -0,0 +1,49 @@
+/** File formats results can be exported in */
+export type ExportFormat = 'csv' | 'jsonl';
+
+/** Selects the polls to export and whose ballots to include */
+export interface ExportQuery {
+  /** Export a single poll */
+  poll_id?: string;
+  /** Only polls created at or after this time */
+  from?: Date;
+  /** Only polls created before this time */
+  to?: Date;
+  /** Include the ballots of every poll, of the polls a user owns, or of none */
+  ballots: 'all' | 'none' | { owner: string };
+}
+
+/** Metadata and ballot total of an exported poll */
+export interface ExportedPoll {
+  record_type: 'poll';
+  poll_id: string;
+  question: string;
+  poll_type: string;
+  created_by: string | null;
+  created_at: string;
+  expired_at: string;
+  total_votes: number;
+}
+
+/** Vote total of an exported option */
+export interface ExportedOption {
+  record_type: 'option';
+  poll_id: string;
+  option_id: string;
+  option_text: string;
+  vote_count: number;
+}
+
+/** Single ballot of an exported poll */
+export interface ExportedBallot {
+  record_type: 'ballot';
+  poll_id: string;
+  vote_id: string;
+  user_id: string;
+  /** Chosen options, in ranking order for ranked polls */
+  option_ids: string[];
+  voted_at: string;
+}
+
+/** Record of an export; each poll is followed by its options and then its ballots */
+export type ExportRecord = ExportedPoll | ExportedOption | ExportedBallot;
@@ -1,5 +1,5 @@
 import { Router, Request, Response } from 'express';
-import { KafkaService, WebSocketService } from '../services';
+import { LeaderboardService } from '../services';
 import { asyncHandler } from '../utils/errorHandler';
 
 export class Poll {
@@ -27,12 +27,11 @@ export class Poll {
 }
 
 /**
- * Creates and configures the leaderboard router
- * @param kafkaService - Service for handling Kafka messaging operations
- * @param wss - Service for managing WebSocket connections
+ * Creates and configures the leaderboard router.
+ * Live updates are pushed over WebSocket by the leaderboard consumer started with the app.
  * @returns Express Router configured with leaderboard endpoints
  */
-export const leaderboardRouter = (kafkaService: KafkaService, wss: WebSocketService): Router => {
+export const leaderboardRouter = (): Router => {
   const router = Router();
 
   // Health check endpoint
@@ -47,7 +46,8 @@ export const leaderboardRouter = (kafkaService: KafkaService, wss: WebSocketServ
    * @returns {Promise<Object>} Leaderboard data including poll options and vote counts
    */
   router.get('/', asyncHandler(async (_: Request, res: Response) => {
-    const result = await kafkaService.leaderboardConsumerActivity(wss);
+    const leaderboardService = new LeaderboardService();
+    const result = await leaderboardService.getLeaderboard();
     res.json(result);
   }));
 
@@ -0,0 +1,93 @@
+/** Topic to create if it does not exist */
+export interface TopicConfig {
+  topic: string;
+  partitions: number;
+}
+
+/** Message to publish on a topic */
+export interface OutgoingMessage {
+  /** Partitioning key; messages with the same key land on the same partition and stay in order */
+  key?: string | null;
+  value: string | null;
+  headers?: Record<string, string>;
+}
+
+/** Message read from a topic */
+export interface BusMessage {
+  topic: string;
+  partition: number;
+  offset: string;
+  key: string | null;
+  value: string | null;
+  headers: Record<string, string>;
+}
+
+/** Consumer group membership of a subscription */
+export interface ConsumerOptions {
+  /** Consumer group; every message is delivered to one member of each group subscribed to the topic */
+  groupId: string;
+  topic: string;
+  /** Whether a group without committed offsets starts at the oldest message instead of the newest */
+  fromBeginning: boolean;
+  /** Number of partitions processed in parallel (default: 1) */
+  concurrency?: number;
+  /** Longest time a fetch may wait for new messages, in milliseconds */
+  maxWaitMs?: number;
+}
+
+/**
+ * Processes the messages of a subscription. Each partition is handled in order; a handler that
+ * throws gets the same message, or the same batch, delivered again.
+ */
+export type ConsumerHandler =
+  | { eachMessage: (message: BusMessage) => Promise<void> }
+  | { eachBatch: (messages: BusMessage[]) => Promise<void> };
+
+/** Running subscription of a consumer group */
+export interface Subscription {
+  /** Resolves once the consumer has joined its group and been assigned partitions */
+  joined: Promise<void>;
+}
+
+/**
+ * Publish-subscribe transport of commands, replies and broadcasts between app instances
+ */
+export interface MessageBus {
+  /**
+   * Creates the topics that do not exist yet
+   * @param topics - Topics with their number of partitions
+   */
+  ensureTopics(topics: TopicConfig[]): Promise<void>;
+
+  /**
+   * Publishes messages on a topic in a single request
+   * @param topic - Topic to publish on
+   * @param messages - Messages in the order they are appended to their partitions
+   * @throws {KafkaError} If the topic does not exist or the messages cannot be sent
+   */
+  produce(topic: string, messages: OutgoingMessage[]): Promise<void>;
+
+  /**
+   * Joins a consumer group and starts delivering the messages of a topic
+   * @param options - Group, topic and starting position
+   * @param handler - Processes each message or batch
+   * @returns The subscription, whose `joined` resolves once it receives messages
+   * @throws {KafkaError} If the consumer cannot connect or subscribe
+   */
+  subscribe(options: ConsumerOptions, handler: ConsumerHandler): Promise<Subscription>;
+
+  /**
+   * Reads every message currently on a topic without joining a lasting consumer group
+   * @param topic - Topic to read
+   * @param timeoutMs - Maximum time to spend reading
+   * @returns Messages ordered by partition and offset
+   * @throws {KafkaError} If the topic cannot be read in time
+   */
+  readTopic(topic: string, timeoutMs: number): Promise<BusMessage[]>;
+
+  /**
+   * Stops the subscriptions, letting them finish the messages they are processing, then closes the
+   * producer. Failures are only logged.
+   */
+  disconnect(): Promise<void>;
+}
@@ -0,0 +1,18 @@
+/** Numbered schema change with the SQL to apply and to revert it */
+export interface Migration {
+  /** Number from the file name, which orders the migrations */
+  version: number;
+  name: string;
+  up: string;
+  down: string;
+}
+
+/** Whether a migration has been applied to the database */
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  /** When the migration was applied, null if it is pending */
+  applied_at: Date | null;
+  /** Whether the migration is recorded as applied but its file is missing */
+  missing: boolean;
+}
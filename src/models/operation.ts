@@ -0,0 +1,51 @@
+/** Processing state of a queued command */
+export type OperationState = 'pending' | 'applied' | 'rejected';
+
+/** Kind of command an operation tracks */
+export type OperationType =
+  | 'poll.create'
+  | 'poll.update'
+  | 'poll.close'
+  | 'poll.delete'
+  | 'vote.cast'
+  | 'vote.change'
+  | 'vote.retract';
+
+/** Represents a queued command and its processing outcome */
+export interface Operation {
+  id: string;
+  type: OperationType;
+  status: OperationState;
+  result: unknown | null;
+  /** Why the command was rejected */
+  reason: string | null;
+  /** Stable error code of a rejected command, as in error responses */
+  code: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/** Per-request options of a queued command */
+export interface CommandOptions {
+  /** WebSocket client to notify when the command is processed */
+  clientId?: string;
+  /** Client-supplied key under which retries of the same request are deduplicated */
+  idempotencyKey?: string;
+  /** Caller the idempotency key belongs to, such as `user:alice`; keys of different callers never collide */
+  idempotencyScope?: string;
+  /** User a poll change is made on behalf of, checked against the poll owner; unset for services */
+  requestedBy?: string;
+}
+
+/** Outcome of a queued command, published by the consumer on the reply topic */
+export interface OperationReply {
+  correlation_id: string;
+  status: Exclude<OperationState, 'pending'>;
+  result?: unknown;
+  reason?: string;
+  /** Stable error code of a rejected command, as in error responses */
+  code?: string;
+  /** WebSocket client that queued the command, if any */
+  client_id?: string | null;
+  operation?: Operation;
+}
@@ -1,18 +1,59 @@
+/** Supported poll voting methods */
+export type PollType = 'single' | 'multiple' | 'ranked';
+
+/** Kind of change a poll message applies */
+export type PollAction = 'create' | 'update' | 'close' | 'delete';
+
 /** Data transfer object for creating a new poll */
 export interface CreatePollDTO {
   question: string;
   options: string[]
   expired_at: Date;
+  poll_type?: PollType;
+  min_selections?: number;
+  max_selections?: number;
+  /** Whether voters may change or retract their vote before expiry, defaults to true */
+  allow_vote_change?: boolean;
+  created_by?: string;
+}
+
+/** Data transfer object for editing a poll that has no votes yet */
+export interface UpdatePollDTO {
+  question?: string;
+  remarks?: string | null;
+  /** New expiration date, which may only move later */
+  expired_at?: Date;
+}
+
+/** Filters and pagination for listing polls */
+export interface PollListQuery {
+  status?: 'active' | 'expired';
+  created_by?: string;
+  /** Opaque cursor returned as `next_cursor` by the previous page */
+  cursor?: string;
+  limit?: number;
 }
 
 /** Represents a poll entity */
 export interface Poll {
   id: string;
   question: string;
+  poll_type: PollType;
+  min_selections: number;
+  max_selections: number;
+  allow_vote_change: boolean;
+  remarks: string | null;
+  created_by: string | null;
   expired_at: Date;
   created_at: Date;
 }
 
+/** Represents one page of polls, newest first */
+export interface PollPage {
+  data: Poll[];
+  next_cursor: string | null;
+}
+
 /** Represents a poll option entity */
 export interface Option {
   id: string;
@@ -21,18 +62,76 @@ export interface Option {
   created_at: Date;
 }
 
-/** Represents the results of a poll including vote counts */
-export interface PollResult {
+/** Represents the vote count of a single option */
+export interface OptionResult {
+  option_id: string;
+  option_text: string;
+  vote_count: number;
+}
+
+/** Represents a single elimination round of an instant-runoff count */
+export interface InstantRunoffRound {
+  round: number;
+  tallies: OptionResult[];
+  eliminated: string[];
+  exhausted_ballots: number;
+}
+
+/** Fields shared by the results of every poll type */
+interface BasePollResult {
   id: string;
   question: string;
+  /** Number of ballots cast, kept equal to total_ballots for existing clients */
   total_votes: number;
+  total_ballots: number;
+  /** Number of options chosen across all ballots */
+  total_selections: number;
+  min_selections: number;
+  max_selections: number;
+  created_at: Date;
+  expired_at: Date;
+}
+
+/** Represents the results of a single-choice or multi-select poll including vote counts */
+export interface CountedPollResult extends BasePollResult {
+  poll_type: 'single' | 'multiple';
+  options: OptionResult[];
+}
+
+/** Represents the round-by-round instant-runoff results of a ranked poll */
+export interface RankedPollResult extends BasePollResult {
+  poll_type: 'ranked';
   options: {
     option_id: string;
     option_text: string;
-    vote_count: number;
   }[];
-  created_at: Date;
-  expired_at: Date;
+  rounds: InstantRunoffRound[];
+  winner_option_id: string | null;
+}
+
+/** Represents the results of a poll */
+export type PollResult = CountedPollResult | RankedPollResult;
+
+/** Width of the buckets of a vote time series */
+export type TimeseriesBucket = 'minute' | 'hour' | 'day';
+
+/** Represents the votes of a single option over time */
+export interface OptionSeries {
+  option_id: string;
+  option_text: string;
+  /** Votes cast in each bucket */
+  counts: number[];
+  /** Votes cast up to the end of each bucket, including those before the first bucket */
+  cumulative: number[];
+}
+
+/** Represents how the votes of a poll evolved, bucketed by the time they were cast */
+export interface PollTimeseries {
+  poll_id: string;
+  bucket: TimeseriesBucket;
+  /** Start of each bucket in UTC, oldest first and without gaps */
+  buckets: string[];
+  options: OptionSeries[];
 }
 
 /** Represents an option in the leaderboard */
@@ -49,3 +148,35 @@ export interface LeaderboardResult {
   data: LeaderboardOption[];
   timestamp: string;
 }
+
+/** What a leaderboard ranks */
+export type LeaderboardScope = 'options' | 'polls';
+
+/** Period of votes a leaderboard counts */
+export type LeaderboardWindow = 'hour' | 'day' | 'all';
+
+/** How a leaderboard is ordered: by votes, or by votes per hour */
+export type LeaderboardSort = 'votes' | 'trending';
+
+/** Selects a leaderboard view */
+export interface LeaderboardQuery {
+  limit: number;
+  scope: LeaderboardScope;
+  window: LeaderboardWindow;
+  sort: LeaderboardSort;
+}
+
+/** Represents a poll in the leaderboard */
+export interface LeaderboardPoll {
+  poll_id: string;
+  poll_question: string;
+  vote_count: number;
+}
+
+/** Represents the current state of a leaderboard view */
+export interface LeaderboardViewResult {
+  view: LeaderboardQuery;
+  /** Options or polls, each with its votes per hour over the window */
+  data: ((LeaderboardOption | LeaderboardPoll) & { velocity: number })[];
+  timestamp: string;
+}
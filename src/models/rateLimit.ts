@@ -0,0 +1,102 @@
+/** Requests limited by the rate limiter */
+export type RateLimitedAction = 'vote' | 'create_poll' | 'import_polls';
+
+/** What a request is counted against: the client address, the acting user or the poll voted on */
+export type RateLimitScope = 'ip' | 'user' | 'poll';
+
+/** Token bucket holding up to `capacity` requests, refilled continuously at `refillPerSecond` */
+export interface TokenBucketRule {
+  capacity: number;
+  refillPerSecond: number;
+}
+
+/** Outcome of taking tokens from a bucket */
+export interface BucketOutcome {
+  allowed: boolean;
+  /** Tokens left in the bucket */
+  remaining: number;
+  /** Milliseconds until enough tokens are available, 0 if the request was allowed */
+  retryAfterMs: number;
+}
+
+/** Buckets of each action by scope; scopes without a rule are not limited */
+export type RateLimitRules = Record<RateLimitedAction, Partial<Record<RateLimitScope, TokenBucketRule>>>;
+
+/** Subjects a request is counted against; scopes without a subject are skipped */
+export type RateLimitSubjects = Partial<Record<RateLimitScope, string>>;
+
+/** Where a burst of votes came from: one client address, or the subnet around it */
+export type ActivitySourceType = 'ip' | 'subnet';
+
+/** Vote burst thresholds of the anomaly detection */
+export interface AnomalyRules {
+  /** Length of the window votes are counted in, in milliseconds */
+  windowMs: number;
+  /** Votes on one poll from one address within a window that get the address flagged */
+  ipThreshold: number;
+  /** Votes on one poll from one subnet within a window that get the subnet flagged */
+  subnetThreshold: number;
+}
+
+/** Source flagged for a burst of votes on a poll */
+export interface SuspiciousActivity {
+  poll_id: string;
+  source_type: ActivitySourceType;
+  /** Client address, or subnet in CIDR notation */
+  source: string;
+  /** Most votes the source cast within one window */
+  peak_votes: number;
+  first_flagged_at: Date;
+  last_flagged_at: Date;
+}
+
+/** Suspicious activity report of a poll, for its owner */
+export interface SuspiciousActivityReport {
+  poll_id: string;
+  window_seconds: number;
+  ip_threshold: number;
+  subnet_threshold: number;
+  flagged: SuspiciousActivity[];
+}
+
+/**
+ * Keeps the token buckets, burst counters and flagged sources of the rate limiter. Every method
+ * is atomic, so instances sharing a store share their limits.
+ */
+export interface RateLimitStore {
+  /**
+   * Refills a bucket for the time passed and takes tokens from it if it holds enough
+   * @param key - Bucket key
+   * @param rule - Capacity and refill rate of the bucket
+   * @param cost - Tokens to take
+   * @param now - Current time in milliseconds since the epoch
+   * @returns Whether the tokens were taken, and if not, when to retry
+   */
+  take(key: string, rule: TokenBucketRule, cost: number, now: number): Promise<BucketOutcome>;
+
+  /**
+   * Counts an event in the fixed window containing `now`
+   * @param key - Counter key
+   * @param windowMs - Length of the window in milliseconds
+   * @param now - Current time in milliseconds since the epoch
+   * @returns Events counted in the window so far, this one included
+   */
+  increment(key: string, windowMs: number, now: number): Promise<number>;
+
+  /**
+   * Records a vote burst, keeping the first time its source was flagged and the largest burst
+   * @param pollId - Poll voted on
+   * @param sourceType - Whether the source is an address or a subnet
+   * @param source - Address or subnet
+   * @param votes - Votes from the source in the current window
+   * @param now - Current time in milliseconds since the epoch
+   */
+  flag(pollId: string, sourceType: ActivitySourceType, source: string, votes: number, now: number): Promise<void>;
+
+  /**
+   * Lists the sources flagged on a poll
+   * @param pollId - Poll ID
+   * @returns Flagged sources, most recently flagged first
+   */
+  listFlags(pollId: string): Promise<SuspiciousActivity[]>;
+}
@@ -0,0 +1,201 @@
+import { Operation, OperationState, OperationType } from './operation';
+import {
+  LeaderboardOption,
+  LeaderboardPoll,
+  LeaderboardQuery,
+  OptionResult,
+  Poll,
+  PollType
+} from './poll';
+import { VoteHistoryEntry } from './vote';
+
+/** Poll fields the vote rules depend on */
+export interface VotablePoll {
+  poll_type: PollType;
+  min_selections: number;
+  max_selections: number;
+  allow_vote_change: boolean;
+  expired_at: Date;
+}
+
+/** Validated poll to store, with its option texts in order */
+export interface NewPoll {
+  question: string;
+  poll_type: PollType;
+  min_selections: number;
+  max_selections: number;
+  allow_vote_change: boolean;
+  created_by: string | null;
+  expired_at: Date;
+  options: string[];
+}
+
+/** Editable fields of a stored poll */
+export type PollChanges = Partial<Pick<Poll, 'question' | 'remarks' | 'expired_at'>>;
+
+/** Filters of a page of polls, newest first */
+export interface PollFilter {
+  status?: 'active' | 'expired';
+  created_by?: string;
+  /** Position of the last poll of the previous page */
+  after?: { created_at: Date; id: string };
+  limit: number;
+}
+
+/** Votes of an option within a time series bucket */
+export interface RollupTotal {
+  option_id: string;
+  /** Start of the bucket in milliseconds since the epoch */
+  bucket_ms: number;
+  vote_count: number;
+}
+
+/** Stored vote of a user with its ballot choices */
+export interface StoredBallot {
+  id: string;
+  /** First choice of the ballot */
+  option_id: string;
+  /** Every choice of a multi-select or ranked ballot in order, empty for single-choice polls */
+  choices: string[];
+}
+
+/** Entry of a leaderboard view with its votes per hour over the window */
+export type LeaderboardEntry = (LeaderboardOption | LeaderboardPoll) & { velocity: number };
+
+/** Client-supplied idempotency key of a request, scoped to the caller that sent it */
+export interface IdempotencyKey {
+  scope: string;
+  key: string;
+  /** Fingerprint of the request first sent with the key */
+  requestHash: string;
+}
+
+/** Result of an applied command, or reason and error code of a rejected one */
+export interface OperationOutcome {
+  result?: unknown;
+  reason?: string;
+  code?: string;
+}
+
+/**
+ * Storage of polls, their options and results. Every method runs in its own transaction unless
+ * called on the repository handed to `transaction`.
+ */
+export interface PollRepository {
+  /**
+   * Runs work in one transaction; its changes are discarded if it throws. Transactions started on
+   * the repository handed to the work join the surrounding one.
+   */
+  transaction<T>(work: (polls: PollRepository) => Promise<T>): Promise<T>;
+  /** Loads a poll, locking it until the end of the transaction if `forUpdate` is set */
+  findPoll(pollId: string, forUpdate?: boolean): Promise<Poll | null>;
+  findPollByQuestion(question: string): Promise<Poll | null>;
+  listPolls(filter: PollFilter): Promise<Poll[]>;
+  /** Stores a poll with its options and zeroed vote counters */
+  insertPoll(poll: NewPoll): Promise<{ id: string; optionIds: string[] }>;
+  updatePoll(pollId: string, changes: PollChanges): Promise<Poll>;
+  /** Deletes a poll with its options, votes and counters */
+  deletePoll(pollId: string): Promise<void>;
+  /** Number of ballots cast in a poll */
+  getVoteCount(pollId: string): Promise<number>;
+  /** Options of a poll in creation order, with their vote counters */
+  listOptions(pollId: string): Promise<OptionResult[]>;
+  /** Choices of every ballot of a poll in preference order */
+  listRankings(pollId: string): Promise<string[][]>;
+  /**
+   * Sums the vote rollups of a poll into buckets; rollups before `first` are summed into the
+   * bucket just before it
+   */
+  sumRollups(pollId: string, bucketMs: number, first: number): Promise<RollupTotal[]>;
+}
+
+/**
+ * Storage of votes, their ballot choices, counters and history. Every method runs in its own
+ * transaction unless called on the repository handed to `transaction`.
+ */
+export interface VoteRepository {
+  /**
+   * Runs work in one transaction; its changes are discarded if it throws. Transactions started on
+   * the repository handed to the work join the surrounding one.
+   */
+  transaction<T>(work: (votes: VoteRepository) => Promise<T>): Promise<T>;
+  findVotablePoll(pollId: string): Promise<VotablePoll | null>;
+  /** Counts how many of the given options belong to a poll */
+  countPollOptions(pollId: string, optionIds: string[]): Promise<number>;
+  /** Loads a user's vote, locking it until the end of the transaction if `forUpdate` is set */
+  findBallot(pollId: string, userId: string, forUpdate?: boolean): Promise<StoredBallot | null>;
+  /**
+   * Stores a vote cast now and returns its ID
+   * @throws {ConflictError} If the user already voted on the poll
+   */
+  insertVote(pollId: string, userId: string, optionId: string): Promise<string>;
+  setVoteOption(voteId: string, optionId: string): Promise<void>;
+  /** Stores the choices of a multi-select or ranked ballot in order */
+  storeChoices(voteId: string, choices: string[]): Promise<void>;
+  deleteChoices(voteId: string): Promise<void>;
+  /** Deletes a vote with its ballot choices */
+  deleteVote(voteId: string): Promise<void>;
+  adjustPollVoteCount(pollId: string, delta: number): Promise<void>;
+  /**
+   * Adds `delta` to the counters of options and to their rollups in the minute the vote was
+   * first cast
+   */
+  adjustOptionVoteCounts(voteId: string, optionIds: string[], delta: number): Promise<void>;
+  recordHistory(entry: Omit<VoteHistoryEntry, 'id' | 'created_at'>): Promise<void>;
+  /** Options of open polls with the most votes */
+  getTopOptions(limit: number): Promise<LeaderboardOption[]>;
+  /** Options of the open polls among the given ones, with their vote counters */
+  getOptionCounts(pollIds: string[]): Promise<LeaderboardOption[]>;
+  /**
+   * Ranks the options or polls of open polls by the ballots cast within the window, or by their
+   * votes per hour since the window or the poll started, whichever is later
+   */
+  getLeaderboardView(query: LeaderboardQuery): Promise<LeaderboardEntry[]>;
+}
+
+/**
+ * Storage of operations and the idempotency keys of their requests. Every method runs in its own
+ * transaction unless called on the repository handed to `transaction`.
+ */
+export interface OperationRepository {
+  /**
+   * Runs work in one transaction; its changes are discarded if it throws. Transactions started on
+   * the repository handed to the work join the surrounding one.
+   */
+  transaction<T>(work: (operations: OperationRepository) => Promise<T>): Promise<T>;
+  /**
+   * Loads the fingerprint and operation of an idempotency key, after waiting for transactions
+   * using the same key to finish; the key stays locked until the end of the transaction
+   */
+  findIdempotencyKey(scope: string, key: string): Promise<{ requestHash: string; operationId: string } | null>;
+  /** Stores a pending operation */
+  insertOperation(operationId: string, type: OperationType, clientId: string | null): Promise<void>;
+  /** Stores the idempotency key of a pending operation */
+  insertIdempotencyKey(idempotency: IdempotencyKey, operationId: string): Promise<void>;
+  /**
+   * Stores the outcome of a pending operation, returning it with the client to notify, or null if
+   * it does not exist or already has an outcome, which is never overwritten
+   */
+  updateOperation(
+    operationId: string,
+    status: Exclude<OperationState, 'pending'>,
+    outcome: OperationOutcome
+  ): Promise<{ operation: Operation; clientId: string | null } | null>;
+  /**
+   * Sets a rejected operation back to pending, so its command can be processed again
+   * @returns Whether the operation was rejected
+   */
+  reopenOperation(operationId: string): Promise<boolean>;
+  /** Stores the outcome of an operation on its idempotency key, if it has one */
+  updateIdempotencyKey(operationId: string, status: Exclude<OperationState, 'pending'>, outcome: OperationOutcome): Promise<void>;
+  /** Deletes the idempotency key of an operation, so the key can be used again */
+  deleteIdempotencyKey(operationId: string): Promise<void>;
+  findOperation(operationId: string): Promise<Operation | null>;
+}
+
+/** Repositories sharing one store */
+export interface Repositories {
+  polls: PollRepository;
+  votes: VoteRepository;
+  operations: OperationRepository;
+}
@@ -0,0 +1,99 @@
+import { Schema } from '../utils/schema';
+import { CreatePollDTO, UpdatePollDTO } from './poll';
+import { CreateVoteDTO, RetractVoteDTO } from './vote';
+
+/** Longest poll question and option text accepted */
+const MAX_QUESTION_LENGTH = 500;
+const MAX_OPTION_LENGTH = 200;
+
+/** Most options a poll may have */
+const MAX_OPTIONS = 50;
+
+/** Longest user ID accepted, the width of the user ID columns */
+const MAX_USER_ID_LENGTH = 255;
+
+/** Poll ID taken from a route parameter */
+export const pollIdSchema: Schema<{ id: string }> = {
+  fields: {
+    id: { type: 'uuid', required: true }
+  }
+};
+
+/** Body of `POST /polls`, each row of an import and the payload of `poll.create` events */
+export const createPollSchema: Schema<CreatePollDTO> = {
+  fields: {
+    question: { type: 'string', required: true, maxLength: MAX_QUESTION_LENGTH },
+    options: {
+      type: 'array',
+      required: true,
+      minLength: 2,
+      maxLength: MAX_OPTIONS,
+      items: { type: 'string', maxLength: MAX_OPTION_LENGTH },
+      unique: true
+    },
+    expired_at: { type: 'date', required: true, future: true },
+    poll_type: { type: 'string', oneOf: ['single', 'multiple', 'ranked'] },
+    min_selections: { type: 'integer', min: 1 },
+    max_selections: { type: 'integer', min: 1 },
+    allow_vote_change: { type: 'boolean' },
+    created_by: { type: 'string', maxLength: MAX_USER_ID_LENGTH }
+  },
+  checks: [
+    ({ options, min_selections, max_selections }) => {
+      for (const [field, value] of Object.entries({ min_selections, max_selections })) {
+        if (value !== undefined && value > options.length) {
+          return { field, message: `${field} must be an integer between 1 and the number of options` };
+        }
+      }
+      return null;
+    },
+    ({ min_selections, max_selections }) =>
+      min_selections !== undefined && max_selections !== undefined && min_selections > max_selections
+        ? { field: 'min_selections', message: 'min_selections cannot be greater than max_selections' }
+        : null,
+    ({ poll_type, min_selections, max_selections }) =>
+      (poll_type ?? 'single') === 'single' && ((min_selections ?? 1) > 1 || (max_selections ?? 1) > 1)
+        ? { field: 'poll_type', message: "Selecting more than one option requires poll_type 'multiple' or 'ranked'" }
+        : null
+  ]
+};
+
+/** Body of `PATCH /polls/:id` and the changes carried by `poll.update` events */
+export const updatePollSchema: Schema<UpdatePollDTO> = {
+  fields: {
+    question: { type: 'string', maxLength: MAX_QUESTION_LENGTH },
+    remarks: { type: 'string', nullable: true, minLength: 0 },
+    expired_at: { type: 'date', future: true }
+  },
+  checks: [
+    ({ question, remarks, expired_at }) =>
+      question === undefined && remarks === undefined && expired_at === undefined
+        ? { field: 'question', message: 'At least one of question, remarks or expired_at is required' }
+        : null
+  ]
+};
+
+/** Ballot of `POST` and `PUT /polls/:id/vote` and the payload of `vote.cast` and `vote.change` events */
+export const createVoteSchema: Schema<CreateVoteDTO> = {
+  fields: {
+    poll_id: { type: 'uuid', required: true },
+    user_id: { type: 'string', required: true, maxLength: MAX_USER_ID_LENGTH },
+    option_id: { type: 'uuid' },
+    option_ids: { type: 'array', minLength: 1, maxLength: MAX_OPTIONS, items: { type: 'uuid' }, unique: true },
+    ranking: { type: 'array', minLength: 1, maxLength: MAX_OPTIONS, items: { type: 'uuid' }, unique: true }
+  },
+  checks: [
+    ({ option_id, option_ids, ranking }) =>
+      option_id === undefined && option_ids === undefined && ranking === undefined
+        ? { field: 'option_id', message: 'One of option_id, option_ids or ranking is required' }
+        : null
+  ]
+};
+
+/** Vote of `DELETE /polls/:id/vote` and the payload of `vote.retract` events */
+export const retractVoteSchema: Schema<RetractVoteDTO> = {
+  fields: {
+    poll_id: { type: 'uuid', required: true },
+    user_id: { type: 'string', required: true, maxLength: MAX_USER_ID_LENGTH }
+  }
+};
@@ -1,8 +1,21 @@
+/** Kind of change a vote message applies to a user's ballot */
+export type VoteAction = 'cast' | 'change' | 'retract';
+
 /** Data transfer object for creating a new vote */
 export interface CreateVoteDTO {
   poll_id: string;
   user_id: string;
-  option_id: string;
+  option_id?: string;
+  /** Selected option IDs (multi-select polls) */
+  option_ids?: string[];
+  /** Ordered option IDs, most preferred first (ranked polls only) */
+  ranking?: string[];
+}
+
+/** Data transfer object for retracting a vote */
+export interface RetractVoteDTO {
+  poll_id: string;
+  user_id: string;
 }
 
 /** Represents a vote entity */
@@ -12,4 +25,22 @@ export interface Vote {
   user_id: string;
   option_id: string;
   created_at: Date;
-}
\ No newline at end of file
+}
+
+/** Represents one option chosen on a multi-select or ranked ballot */
+export interface BallotChoice {
+  vote_id: string;
+  option_id: string;
+  position: number;
+}
+
+/** Represents an audit entry of a ballot before it was changed or retracted */
+export interface VoteHistoryEntry {
+  id: string;
+  vote_id: string;
+  poll_id: string;
+  user_id: string;
+  action: 'changed' | 'retracted';
+  previous_option_ids: string[];
+  created_at: Date;
+}
@@ -0,0 +1,31 @@
+import { LeaderboardQuery, LeaderboardResult } from './poll';
+
+/**
+ * Message a WebSocket client sends to manage its subscriptions, either to the results of a poll
+ * or to a leaderboard view
+ */
+export type SubscriptionMessage =
+  | { type: 'subscribe' | 'unsubscribe'; poll_id: string }
+  | { type: 'subscribe' | 'unsubscribe'; leaderboard: LeaderboardQuery };
+
+/** Message a reconnecting WebSocket client sends to catch up on the updates it missed */
+export interface ResumeMessage {
+  type: 'resume';
+  /** Sequence number of the last update the client received */
+  last_seq: number;
+  /** Epoch of that sequence number; sequence numbers of other epochs, such as another instance's, are unrelated */
+  epoch?: string;
+}
+
+/** Any message a WebSocket client may send */
+export type ClientMessage = SubscriptionMessage | ResumeMessage;
+
+/**
+ * Update relayed to every app instance over the broadcast topic, so each one can deliver it to its
+ * own WebSocket clients. Poll and leaderboard changes carry no results; instances with subscribers
+ * to the poll or to leaderboard views load them.
+ */
+export type FanOutMessage =
+  | { type: 'LEADERBOARD_UPDATE'; data: LeaderboardResult }
+  | { type: 'POLL_CHANGED'; poll_id: string }
+  | { type: 'LEADERBOARD_CHANGED' };
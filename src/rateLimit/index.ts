@@ -0,0 +1,30 @@
+import { RateLimitStore } from '../models/rateLimit';
+import { MemoryRateLimitStore } from './memoryRateLimitStore';
+import { PostgresRateLimitStore } from './postgresRateLimitStore';
+
+export { MemoryRateLimitStore } from './memoryRateLimitStore';
+export { PostgresRateLimitStore } from './postgresRateLimitStore';
+
+/** Store shared by every in-memory rate limiter of the process */
+let memoryStore: MemoryRateLimitStore | undefined;
+
+/**
+ * Creates the rate limit store selected by `RATE_LIMIT_STORE`: `memory` (default), whose limits
+ * are per process, or `postgres`, whose limits are shared by every instance using the database
+ * @param driver - Store driver
+ * @returns Rate limit store
+ * @throws {Error} If the driver is unknown
+ */
+export const createRateLimitStore = (driver = process.env.RATE_LIMIT_STORE || 'memory'): RateLimitStore => {
+  switch (driver) {
+    case 'memory':
+      memoryStore = memoryStore ?? new MemoryRateLimitStore();
+      return memoryStore;
+
+    case 'postgres':
+      return new PostgresRateLimitStore();
+
+    default:
+      throw new Error(`Unknown RATE_LIMIT_STORE '${driver}', expected 'memory' or 'postgres'`);
+  }
+};
@@ -0,0 +1,125 @@
+import { ActivitySourceType, BucketOutcome, RateLimitStore, SuspiciousActivity, TokenBucketRule } from '../models/rateLimit';
+
+/** Time between sweeps of the buckets and counters that no longer matter */
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+/** Token bucket as of its last take */
+interface MemoryBucket {
+  tokens: number;
+  updatedAt: number;
+  /** When the bucket is full again, after which it can be forgotten */
+  fullAt: number;
+}
+
+/** Events counted in the current window of a counter */
+interface MemoryCounter {
+  windowStart: number;
+  count: number;
+  /** When the window ends, after which the counter can be forgotten */
+  endsAt: number;
+}
+
+/**
+ * Process-local rate limit store for single instances, tests and local runs. Full buckets and
+ * ended windows are swept once a minute; flagged sources are kept until the process exits.
+ * @class MemoryRateLimitStore
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private buckets = new Map<string, MemoryBucket>();
+  private counters = new Map<string, MemoryCounter>();
+  /** Flagged sources by poll ID, then by source type and source */
+  private flags = new Map<string, Map<string, SuspiciousActivity>>();
+  private nextSweep = 0;
+
+  async take(key: string, rule: TokenBucketRule, cost: number, now: number): Promise<BucketOutcome> {
+    this.sweep(now);
+
+    const bucket = this.buckets.get(key);
+    const elapsed = bucket ? Math.max(now - bucket.updatedAt, 0) : 0;
+    const available = bucket
+      ? Math.min(rule.capacity, bucket.tokens + elapsed / 1000 * rule.refillPerSecond)
+      : rule.capacity;
+    const allowed = available >= cost;
+    const tokens = allowed ? available - cost : available;
+
+    this.buckets.set(key, {
+      tokens,
+      updatedAt: now,
+      fullAt: now + (rule.capacity - tokens) / rule.refillPerSecond * 1000
+    });
+
+    return {
+      allowed,
+      remaining: tokens,
+      retryAfterMs: allowed ? 0 : (cost - available) / rule.refillPerSecond * 1000
+    };
+  }
+
+  async increment(key: string, windowMs: number, now: number): Promise<number> {
+    this.sweep(now);
+
+    const windowStart = now - now % windowMs;
+    const counter = this.counters.get(key);
+    if (counter && counter.windowStart === windowStart) {
+      counter.count++;
+      return counter.count;
+    }
+
+    this.counters.set(key, { windowStart, count: 1, endsAt: windowStart + windowMs });
+    return 1;
+  }
+
+  async flag(pollId: string, sourceType: ActivitySourceType, source: string, votes: number, now: number): Promise<void> {
+    let flags = this.flags.get(pollId);
+    if (!flags) {
+      flags = new Map();
+      this.flags.set(pollId, flags);
+    }
+
+    const key = `${sourceType}|${source}`;
+    const flagged = flags.get(key);
+    if (flagged) {
+      flagged.peak_votes = Math.max(flagged.peak_votes, votes);
+      flagged.last_flagged_at = new Date(now);
+      return;
+    }
+
+    flags.set(key, {
+      poll_id: pollId,
+      source_type: sourceType,
+      source,
+      peak_votes: votes,
+      first_flagged_at: new Date(now),
+      last_flagged_at: new Date(now)
+    });
+  }
+
+  async listFlags(pollId: string): Promise<SuspiciousActivity[]> {
+    return [...(this.flags.get(pollId)?.values() ?? [])]
+      .map(flagged => ({ ...flagged }))
+      .sort((a, b) => b.last_flagged_at.getTime() - a.last_flagged_at.getTime());
+  }
+
+  /**
+   * Forgets the buckets that have refilled and the counters whose window has ended, at most once
+   * per sweep interval
+   * @param now - Current time in milliseconds since the epoch
+   */
+  private sweep(now: number): void {
+    if (now < this.nextSweep) {
+      return;
+    }
+    this.nextSweep = now + SWEEP_INTERVAL_MS;
+
+    for (const [key, bucket] of this.buckets) {
+      if (bucket.fullAt <= now) {
+        this.buckets.delete(key);
+      }
+    }
+    for (const [key, counter] of this.counters) {
+      if (counter.endsAt <= now) {
+        this.counters.delete(key);
+      }
+    }
+  }
+}
@@ -0,0 +1,119 @@
+import { Pool } from 'pg';
+import { TableNames, pool } from '../config/database';
+import { ActivitySourceType, BucketOutcome, RateLimitStore, SuspiciousActivity, TokenBucketRule } from '../models/rateLimit';
+
+/** Time between sweeps of the buckets and counters that no longer matter */
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Refills a bucket, locked against concurrent takes, and takes the tokens if there are enough.
+ * Parameters: key, capacity, refill per second, cost and the current time in milliseconds.
+ */
+const TAKE_SQL = `
+  WITH available AS (
+    SELECT key, LEAST($2::float8, tokens + GREATEST($5::bigint - updated_ms, 0) / 1000.0 * $3::float8) AS tokens
+      FROM ${TableNames.RATE_LIMIT_BUCKETS} WHERE key = $1 FOR UPDATE
+  ), taken AS (
+    SELECT key, tokens AS available, CASE WHEN tokens >= $4::float8 THEN tokens - $4::float8 ELSE tokens END AS tokens
+      FROM available
+  )
+  UPDATE ${TableNames.RATE_LIMIT_BUCKETS} b SET
+    tokens = t.tokens,
+    updated_ms = $5::bigint,
+    full_ms = $5::bigint + CEIL(($2::float8 - t.tokens) / $3::float8 * 1000)
+  FROM taken t
+  WHERE b.key = t.key
+  RETURNING b.tokens, t.available`;
+
+/** Creates a full bucket unless it exists. Parameters: key, capacity and the current time in milliseconds. */
+const CREATE_SQL = `
+  INSERT INTO ${TableNames.RATE_LIMIT_BUCKETS} (key, tokens, updated_ms, full_ms)
+    VALUES ($1, $2::float8, $3::bigint, $3::bigint)
+    ON CONFLICT (key) DO NOTHING`;
+
+/**
+ * Rate limit store in Postgres, shared by every instance using the database
+ * @class PostgresRateLimitStore
+ */
+export class PostgresRateLimitStore implements RateLimitStore {
+  private nextSweep = 0;
+
+  /**
+   * @param db - Connection pool of the database
+   */
+  constructor(private db: Pool = pool) {}
+
+  async take(key: string, rule: TokenBucketRule, cost: number, now: number): Promise<BucketOutcome> {
+    this.sweep(now);
+
+    let result = await this.db.query(TAKE_SQL, [key, rule.capacity, rule.refillPerSecond, cost, now]);
+    // Buckets missing because they were never used or swept as full start out full
+    while (result.rows.length === 0) {
+      await this.db.query(CREATE_SQL, [key, rule.capacity, now]);
+      result = await this.db.query(TAKE_SQL, [key, rule.capacity, rule.refillPerSecond, cost, now]);
+    }
+    const available = Number(result.rows[0].available);
+    const allowed = available >= cost;
+
+    return {
+      allowed,
+      remaining: Number(result.rows[0].tokens),
+      retryAfterMs: allowed ? 0 : (cost - available) / rule.refillPerSecond * 1000
+    };
+  }
+
+  async increment(key: string, windowMs: number, now: number): Promise<number> {
+    const windowStart = now - now % windowMs;
+    const result = await this.db.query(
+      `INSERT INTO ${TableNames.RATE_LIMIT_COUNTERS} AS c (key, window_start_ms, count, ends_ms)
+        VALUES ($1, $2, 1, $3)
+        ON CONFLICT (key) DO UPDATE SET
+          count = CASE WHEN c.window_start_ms = EXCLUDED.window_start_ms THEN c.count + 1 ELSE 1 END,
+          window_start_ms = EXCLUDED.window_start_ms,
+          ends_ms = EXCLUDED.ends_ms
+        RETURNING count`,
+      [key, windowStart, windowStart + windowMs]
+    );
+    return result.rows[0].count;
+  }
+
+  async flag(pollId: string, sourceType: ActivitySourceType, source: string, votes: number, now: number): Promise<void> {
+    await this.db.query(
+      `INSERT INTO ${TableNames.SUSPICIOUS_ACTIVITY} AS s
+          (poll_id, source_type, source, peak_votes, first_flagged_at, last_flagged_at)
+        VALUES ($1, $2, $3, $4, $5, $5)
+        ON CONFLICT (poll_id, source_type, source) DO UPDATE SET
+          peak_votes = GREATEST(s.peak_votes, EXCLUDED.peak_votes),
+          last_flagged_at = EXCLUDED.last_flagged_at`,
+      [pollId, sourceType, source, votes, new Date(now)]
+    );
+  }
+
+  async listFlags(pollId: string): Promise<SuspiciousActivity[]> {
+    const result = await this.db.query(
+      `SELECT poll_id, source_type, source, peak_votes, first_flagged_at, last_flagged_at
+        FROM ${TableNames.SUSPICIOUS_ACTIVITY}
+        WHERE poll_id = $1
+        ORDER BY last_flagged_at DESC, source_type, source`,
+      [pollId]
+    );
+    return result.rows;
+  }
+
+  /**
+   * Deletes the buckets that have refilled and the counters whose window has ended, at most once
+   * per sweep interval. Runs alongside the request; a failed sweep is retried at the next interval.
+   * @param now - Current time in milliseconds since the epoch
+   */
+  private sweep(now: number): void {
+    if (now < this.nextSweep) {
+      return;
+    }
+    this.nextSweep = now + SWEEP_INTERVAL_MS;
+
+    Promise.all([
+      this.db.query(`DELETE FROM ${TableNames.RATE_LIMIT_BUCKETS} WHERE full_ms <= $1`, [now]),
+      this.db.query(`DELETE FROM ${TableNames.RATE_LIMIT_COUNTERS} WHERE ends_ms <= $1`, [now])
+    ]).catch(error => console.error('Failed to sweep rate limit state:', error));
+  }
+}
@@ -0,0 +1,178 @@
+import { randomUUID } from 'crypto';
+import { Pool } from 'pg';
+import { pool, poolConfig } from '../config/database';
+import { Migrator } from '../config/migrator';
+import { RateLimitStore } from '../models/rateLimit';
+import { RateLimitService } from '../services/rateLimitService';
+import { RateLimitError, ValidationError } from '../utils/errorHandler';
+import { subnetOf } from '../utils/rateLimit';
+import { MemoryRateLimitStore, PostgresRateLimitStore } from '.';
+
+/** Creates the store under test and cleans up after it */
+interface Driver {
+  setup(): Promise<RateLimitStore>;
+  teardown(): Promise<void>;
+}
+
+const memoryDriver: Driver = {
+  setup: async () => new MemoryRateLimitStore(),
+  teardown: async () => undefined
+};
+
+/**
+ * Migrates a throwaway schema of the local Postgres configured by the `POSTGRES_*` variables
+ */
+const postgresDriver = (): Driver => {
+  const schema = `rate_limit_test_${process.pid}`;
+  const db = new Pool({ ...poolConfig, min: 0, max: 10, options: `-c search_path=${schema}` });
+
+  return {
+    setup: async () => {
+      await db.query(`CREATE SCHEMA ${schema}`);
+      await new Migrator(db).up();
+      return new PostgresRateLimitStore(db);
+    },
+    teardown: async () => {
+      await db.query(`DROP SCHEMA IF EXISTS ${schema} CASCADE`);
+      await db.end();
+      await pool.end();
+    }
+  };
+};
+
+/**
+ * Runs the rate limiter against each store, which must behave alike
+ */
+describe.each([
+  ['memory', memoryDriver],
+  ['postgres', postgresDriver()]
+])('%s rate limit store', (_name, driver) => {
+  let store: RateLimitStore;
+  let now: number;
+  let rateLimitService: RateLimitService;
+
+  beforeAll(async () => {
+    store = await driver.setup();
+  });
+
+  afterAll(() => driver.teardown());
+
+  beforeEach(() => {
+    now = Date.now();
+    rateLimitService = new RateLimitService(
+      store,
+      {
+        vote: {
+          ip: { capacity: 3, refillPerSecond: 1 },
+          user: { capacity: 2, refillPerSecond: 2 / 60 },
+          poll: { capacity: 5, refillPerSecond: 5 }
+        },
+        create_poll: {},
+        import_polls: {}
+      },
+      { windowMs: 60 * 1000, ipThreshold: 3, subnetThreshold: 4 },
+      () => now
+    );
+  });
+
+  /**
+   * Consumes a vote, resolving to the seconds to wait if it was rate limited
+   */
+  const vote = (subjects: { ip?: string; user?: string; poll?: string }): Promise<number | undefined> =>
+    rateLimitService.consume('vote', subjects).then(
+      () => undefined,
+      error => {
+        if (!(error instanceof RateLimitError)) {
+          throw error;
+        }
+        return error.retryAfter;
+      }
+    );
+
+  it('rejects requests once a bucket is empty until it refills', async () => {
+    const ip = `ip-${randomUUID()}`;
+
+    for (let request = 0; request < 3; request++) {
+      expect(await vote({ ip })).toBeUndefined();
+    }
+    expect(await vote({ ip })).toBe(1);
+
+    now += 1000;
+    expect(await vote({ ip })).toBeUndefined();
+    expect(await vote({ ip })).toBe(1);
+  });
+
+  it('keeps a bucket per subject and tells how long to wait', async () => {
+    const [alice, bob] = [`alice-${randomUUID()}`, `bob-${randomUUID()}`];
+
+    expect(await vote({ user: alice })).toBeUndefined();
+    expect(await vote({ user: alice })).toBeUndefined();
+    expect(await vote({ user: alice })).toBe(30);
+    expect(await vote({ user: bob })).toBeUndefined();
+
+    // The poll bucket is shared by every voter
+    const poll = randomUUID();
+    const voters = Array.from({ length: 6 }, () => vote({ poll, user: `voter-${randomUUID()}` }));
+    expect((await Promise.all(voters)).filter(retryAfter => retryAfter !== undefined)).toHaveLength(1);
+  });
+
+  it('takes a token per action of batched requests', async () => {
+    const ip = `ip-${randomUUID()}`;
+
+    await expect(rateLimitService.consume('vote', { ip }, 2)).resolves.toBeUndefined();
+    await expect(rateLimitService.consume('vote', { ip }, 2)).rejects.toMatchObject({ retryAfter: 1 });
+    expect(await vote({ ip })).toBeUndefined();
+
+    // A batch larger than a bucket could never be taken, and takes nothing from the others
+    const batchIp = `ip-${randomUUID()}`;
+    const batch = rateLimitService.consume('vote', { ip: batchIp, user: `user-${randomUUID()}` }, 3);
+    await expect(batch).rejects.toThrow(ValidationError);
+    await expect(batch).rejects.toThrow('at most 2 are allowed at once');
+    await expect(rateLimitService.consume('vote', { ip: batchIp }, 3)).resolves.toBeUndefined();
+  });
+
+  it('takes each token once under concurrent requests', async () => {
+    const key = `concurrent-${randomUUID()}`;
+    const outcomes = await Promise.all(
+      Array.from({ length: 10 }, () => store.take(key, { capacity: 4, refillPerSecond: 0.001 }, 1, now))
+    );
+
+    expect(outcomes.filter(outcome => outcome.allowed)).toHaveLength(4);
+  });
+
+  it('flags the addresses and subnets of vote bursts on a poll', async () => {
+    const poll = randomUUID();
+
+    await rateLimitService.recordVote(poll, '203.0.113.7');
+    await rateLimitService.recordVote(poll, '203.0.113.7');
+    expect(await rateLimitService.recordVote(poll, '203.0.113.7')).toEqual(['ip']);
+    expect(await rateLimitService.recordVote(poll, '203.0.113.8')).toEqual(['subnet']);
+    await rateLimitService.recordVote(randomUUID(), '203.0.113.7');
+
+    const report = await rateLimitService.getSuspiciousActivity(poll);
+    expect(report).toMatchObject({ poll_id: poll, window_seconds: 60, ip_threshold: 3, subnet_threshold: 4 });
+    expect(report.flagged.map(({ source_type, source, peak_votes }) => ({ source_type, source, peak_votes }))).toEqual(
+      expect.arrayContaining([
+        { source_type: 'ip', source: '203.0.113.7', peak_votes: 3 },
+        { source_type: 'subnet', source: '203.0.113.0/24', peak_votes: 4 }
+      ])
+    );
+    expect(report.flagged).toHaveLength(2);
+
+    // Counting starts over in the next window
+    now += 60 * 1000;
+    expect(await rateLimitService.recordVote(poll, '203.0.113.9')).toEqual([]);
+  });
+});
+
+describe('subnetOf', () => {
+  it.each([
+    ['198.51.100.23', '198.51.100.0/24'],
+    ['2001:db8:85a3:1:2:3:4:5', '2001:db8:85a3:1::/64'],
+    ['2001:db8::1', '2001:db8:0:0::/64'],
+    ['::1', '0:0:0:0::/64'],
+    ['unknown', 'unknown']
+  ])('puts %s in %s', (address, subnet) => {
+    expect(subnetOf(address)).toBe(subnet);
+  });
+});
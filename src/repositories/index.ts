@@ -0,0 +1,55 @@
+import { Repositories } from '../models/repository';
+import { MemoryOperationRepository } from './memoryOperationRepository';
+import { MemoryPollRepository } from './memoryPollRepository';
+import { MemoryStore } from './memoryStore';
+import { MemoryVoteRepository } from './memoryVoteRepository';
+import { PostgresOperationRepository } from './postgresOperationRepository';
+import { PostgresPollRepository } from './postgresPollRepository';
+import { PostgresVoteRepository } from './postgresVoteRepository';
+
+export { MemoryOperationRepository } from './memoryOperationRepository';
+export { MemoryPollRepository } from './memoryPollRepository';
+export { MemoryStore } from './memoryStore';
+export { MemoryVoteRepository } from './memoryVoteRepository';
+export { PostgresOperationRepository } from './postgresOperationRepository';
+export { PostgresPollRepository } from './postgresPollRepository';
+export { PostgresVoteRepository } from './postgresVoteRepository';
+
+/** Store shared by every in-memory repository of the process */
+let memoryStore: MemoryStore | undefined;
+
+/**
+ * Creates repositories sharing one store
+ * @param store - In-memory store, by default a new one
+ * @returns Poll, vote and operation repositories backed by the store
+ */
+export const createMemoryRepositories = (store = new MemoryStore()): Repositories => ({
+  polls: new MemoryPollRepository(store),
+  votes: new MemoryVoteRepository(store),
+  operations: new MemoryOperationRepository(store)
+});
+
+/**
+ * Creates the repositories selected by `STORE_DRIVER`: `postgres` (default) or `memory`, in which
+ * case every call shares one in-memory store
+ * @param driver - Store driver
+ * @returns Poll, vote and operation repositories
+ * @throws {Error} If the driver is unknown
+ */
+export const createRepositories = (driver = process.env.STORE_DRIVER || 'postgres'): Repositories => {
+  switch (driver) {
+    case 'postgres':
+      return {
+        polls: new PostgresPollRepository(),
+        votes: new PostgresVoteRepository(),
+        operations: new PostgresOperationRepository()
+      };
+
+    case 'memory':
+      memoryStore = memoryStore ?? new MemoryStore();
+      return createMemoryRepositories(memoryStore);
+
+    default:
+      throw new Error(`Unknown STORE_DRIVER '${driver}', expected 'postgres' or 'memory'`);
+  }
+};
@@ -0,0 +1,157 @@
+import { Operation, OperationState, OperationType } from '../models/operation';
+import { IdempotencyKey, OperationOutcome, OperationRepository } from '../models/repository';
+import { MemoryIdempotencyKey, MemoryOperation, MemoryRepository, MemoryState } from './memoryStore';
+
+/**
+ * Keys an idempotency key by its scope and key
+ */
+const idempotencyKeyOf = (scope: string, key: string): string => `${scope}\n${key}`;
+
+/**
+ * Stores a result the way a JSONB column does, so callers read back what Postgres would return
+ * @param result - Result of an applied command
+ * @returns Copy of the result as parsed JSON, or null if there is none
+ */
+const toJson = (result: unknown): unknown | null =>
+  result === undefined ? null : JSON.parse(JSON.stringify(result));
+
+/**
+ * Copies an operation without the client to notify
+ */
+const toOperation = ({ client_id, ...operation }: MemoryOperation): Operation => operation;
+
+/**
+ * Finds the idempotency key of an operation
+ * @param state - State to read
+ * @param operationId - ID of the operation
+ * @returns The key, or undefined if the operation has none
+ */
+const keyOfOperation = (state: MemoryState, operationId: string): MemoryIdempotencyKey | undefined =>
+  [...state.idempotencyKeys.values()].find(candidate => candidate.operation_id === operationId);
+
+/**
+ * Operation repository backed by a `MemoryStore`
+ * @class MemoryOperationRepository
+ */
+export class MemoryOperationRepository extends MemoryRepository implements OperationRepository {
+  protected bind(state: MemoryState): this {
+    return new MemoryOperationRepository(this.store, state) as this;
+  }
+
+  async findIdempotencyKey(scope: string, key: string): Promise<{ requestHash: string; operationId: string } | null> {
+    return this.run(state => {
+      const stored = state.idempotencyKeys.get(idempotencyKeyOf(scope, key));
+      return stored ? { requestHash: stored.request_hash, operationId: stored.operation_id } : null;
+    });
+  }
+
+  async insertOperation(operationId: string, type: OperationType, clientId: string | null): Promise<void> {
+    return this.run(state => {
+      const now = new Date();
+      state.operations.set(operationId, {
+        id: operationId,
+        type,
+        status: 'pending',
+        result: null,
+        reason: null,
+        code: null,
+        client_id: clientId,
+        created_at: now,
+        updated_at: now
+      });
+    });
+  }
+
+  async insertIdempotencyKey(idempotency: IdempotencyKey, operationId: string): Promise<void> {
+    return this.run(state => {
+      state.idempotencyKeys.set(idempotencyKeyOf(idempotency.scope, idempotency.key), {
+        scope: idempotency.scope,
+        key: idempotency.key,
+        request_hash: idempotency.requestHash,
+        operation_id: operationId,
+        status: 'pending',
+        result: null,
+        reason: null,
+        code: null
+      });
+    });
+  }
+
+  async updateOperation(
+    operationId: string,
+    status: Exclude<OperationState, 'pending'>,
+    outcome: OperationOutcome
+  ): Promise<{ operation: Operation; clientId: string | null } | null> {
+    return this.run(state => {
+      const operation = state.operations.get(operationId);
+      if (!operation || operation.status !== 'pending') {
+        return null;
+      }
+
+      const updated = {
+        ...operation,
+        status,
+        result: toJson(outcome.result),
+        reason: outcome.reason ?? null,
+        code: outcome.code ?? null,
+        updated_at: new Date()
+      };
+      state.operations.set(operationId, updated);
+      return { operation: toOperation(updated), clientId: updated.client_id };
+    });
+  }
+
+  async reopenOperation(operationId: string): Promise<boolean> {
+    return this.run(state => {
+      const operation = state.operations.get(operationId);
+      if (!operation || operation.status !== 'rejected') {
+        return false;
+      }
+
+      state.operations.set(operationId, {
+        ...operation,
+        status: 'pending',
+        result: null,
+        reason: null,
+        code: null,
+        updated_at: new Date()
+      });
+      return true;
+    });
+  }
+
+  async updateIdempotencyKey(
+    operationId: string,
+    status: Exclude<OperationState, 'pending'>,
+    outcome: OperationOutcome
+  ): Promise<void> {
+    return this.run(state => {
+      const stored = keyOfOperation(state, operationId);
+      if (stored) {
+        state.idempotencyKeys.set(idempotencyKeyOf(stored.scope, stored.key), {
+          ...stored,
+          status,
+          result: toJson(outcome.result),
+          reason: outcome.reason ?? null,
+          code: outcome.code ?? null
+        });
+      }
+    });
+  }
+
+  async deleteIdempotencyKey(operationId: string): Promise<void> {
+    return this.run(state => {
+      const stored = keyOfOperation(state, operationId);
+      if (stored) {
+        state.idempotencyKeys.delete(idempotencyKeyOf(stored.scope, stored.key));
+      }
+    });
+  }
+
+  async findOperation(operationId: string): Promise<Operation | null> {
+    return this.run(state => {
+      const operation = state.operations.get(operationId);
+      return operation ? toOperation(operation) : null;
+    });
+  }
+}
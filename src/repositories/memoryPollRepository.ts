@@ -0,0 +1,154 @@
+import { randomUUID } from 'crypto';
+import { Option, OptionResult, Poll } from '../models/poll';
+import { NewPoll, PollChanges, PollFilter, PollRepository, RollupTotal } from '../models/repository';
+import { MemoryRepository, MemoryState } from './memoryStore';
+
+/**
+ * Orders polls newest first, like the listing index
+ */
+const newestFirst = (a: Poll, b: Poll): number =>
+  b.created_at.getTime() - a.created_at.getTime() || (b.id < a.id ? -1 : b.id > a.id ? 1 : 0);
+
+/**
+ * Orders options by creation, like the Postgres repository
+ */
+const byCreation = (a: Option, b: Option): number =>
+  a.created_at.getTime() - b.created_at.getTime() || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0);
+
+/**
+ * Lists the options of a poll in creation order
+ * @param state - State to read
+ * @param pollId - ID of the poll
+ * @returns Options of the poll
+ */
+const pollOptions = (state: MemoryState, pollId: string): Option[] =>
+  [...state.options.values()].filter(option => option.poll_id === pollId).sort(byCreation);
+
+/**
+ * Poll repository backed by a `MemoryStore`
+ * @class MemoryPollRepository
+ */
+export class MemoryPollRepository extends MemoryRepository implements PollRepository {
+  protected bind(state: MemoryState): this {
+    return new MemoryPollRepository(this.store, state) as this;
+  }
+
+  async findPoll(pollId: string): Promise<Poll | null> {
+    return this.run(state => {
+      const poll = state.polls.get(pollId);
+      return poll ? { ...poll } : null;
+    });
+  }
+
+  async findPollByQuestion(question: string): Promise<Poll | null> {
+    return this.run(state => {
+      const poll = [...state.polls.values()].find(candidate => candidate.question === question);
+      return poll ? { ...poll } : null;
+    });
+  }
+
+  async listPolls(filter: PollFilter): Promise<Poll[]> {
+    return this.run(state => {
+      const now = Date.now();
+      const { after } = filter;
+      return [...state.polls.values()]
+        .filter(poll =>
+          (filter.status !== 'active' || poll.expired_at.getTime() > now) &&
+          (filter.status !== 'expired' || poll.expired_at.getTime() <= now) &&
+          (!filter.created_by || poll.created_by === filter.created_by) &&
+          (!after || newestFirst(poll, { ...poll, created_at: after.created_at, id: after.id }) > 0)
+        )
+        .sort(newestFirst)
+        .slice(0, filter.limit)
+        .map(poll => ({ ...poll }));
+    });
+  }
+
+  async insertPoll(poll: NewPoll): Promise<{ id: string; optionIds: string[] }> {
+    return this.run(state => {
+      const id = randomUUID();
+      const createdAt = new Date();
+      const { options, ...columns } = poll;
+      state.polls.set(id, { id, ...columns, remarks: null, created_at: createdAt });
+      state.voteCounters.set(id, 0);
+
+      const optionIds = options.map(optionText => {
+        const optionId = randomUUID();
+        state.options.set(optionId, { id: optionId, poll_id: id, option_text: optionText, created_at: createdAt });
+        state.optionVoteCounters.set(optionId, 0);
+        return optionId;
+      });
+
+      return { id, optionIds };
+    });
+  }
+
+  async updatePoll(pollId: string, changes: PollChanges): Promise<Poll> {
+    return this.run(state => {
+      const poll = state.polls.get(pollId) as Poll;
+      for (const [column, value] of Object.entries(changes)) {
+        if (value !== undefined) {
+          Object.assign(poll, { [column]: value });
+        }
+      }
+      return { ...poll };
+    });
+  }
+
+  async deletePoll(pollId: string): Promise<void> {
+    return this.run(state => {
+      state.polls.delete(pollId);
+      state.voteCounters.delete(pollId);
+      for (const option of pollOptions(state, pollId)) {
+        state.options.delete(option.id);
+        state.optionVoteCounters.delete(option.id);
+      }
+      for (const vote of [...state.votes.values()].filter(candidate => candidate.poll_id === pollId)) {
+        state.votes.delete(vote.id);
+        state.ballotChoices.delete(vote.id);
+      }
+      for (const [key, rollup] of state.voteRollups) {
+        if (rollup.poll_id === pollId) {
+          state.voteRollups.delete(key);
+        }
+      }
+      state.voteHistory = state.voteHistory.filter(entry => entry.poll_id !== pollId);
+    });
+  }
+
+  async getVoteCount(pollId: string): Promise<number> {
+    return this.run(state => state.voteCounters.get(pollId) ?? 0);
+  }
+
+  async listOptions(pollId: string): Promise<OptionResult[]> {
+    return this.run(state => pollOptions(state, pollId).map(option => ({
+      option_id: option.id,
+      option_text: option.option_text,
+      vote_count: state.optionVoteCounters.get(option.id) ?? 0
+    })));
+  }
+
+  async listRankings(pollId: string): Promise<string[][]> {
+    return this.run(state => [...state.votes.values()]
+      .filter(vote => vote.poll_id === pollId)
+      .map(vote => [...state.ballotChoices.get(vote.id) ?? []])
+      .filter(ranking => ranking.length > 0));
+  }
+
+  async sumRollups(pollId: string, bucketMs: number, first: number): Promise<RollupTotal[]> {
+    return this.run(state => {
+      const totals = new Map<string, RollupTotal>();
+      for (const rollup of state.voteRollups.values()) {
+        if (rollup.poll_id !== pollId) {
+          continue;
+        }
+        const bucket = Math.max(Math.floor(rollup.bucket_start / bucketMs) * bucketMs, first - bucketMs);
+        const key = `${rollup.option_id}|${bucket}`;
+        const total = totals.get(key) ?? { option_id: rollup.option_id, bucket_ms: bucket, vote_count: 0 };
+        total.vote_count += rollup.vote_count;
+        totals.set(key, total);
+      }
+      return [...totals.values()];
+    });
+  }
+}
@@ -0,0 +1,158 @@
+import { Operation, OperationState } from '../models/operation';
+import { Option, Poll } from '../models/poll';
+import { Vote, VoteHistoryEntry } from '../models/vote';
+
+/** Votes of an option cast within one minute */
+export interface MemoryRollup {
+  poll_id: string;
+  option_id: string;
+  /** Start of the minute in milliseconds since the epoch */
+  bucket_start: number;
+  vote_count: number;
+}
+
+/** Operation with the WebSocket client to notify of its outcome */
+export interface MemoryOperation extends Operation {
+  client_id: string | null;
+}
+
+/** Idempotency key with the outcome of its operation once processed */
+export interface MemoryIdempotencyKey {
+  scope: string;
+  key: string;
+  request_hash: string;
+  operation_id: string;
+  status: OperationState;
+  result: unknown | null;
+  reason: string | null;
+  code: string | null;
+}
+
+/** Rows of the in-memory store, mirroring the Postgres tables */
+export interface MemoryState {
+  polls: Map<string, Poll>;
+  options: Map<string, Option>;
+  votes: Map<string, Vote>;
+  /** Choices of multi-select and ranked ballots in order, by vote ID */
+  ballotChoices: Map<string, string[]>;
+  /** Ballots cast by poll ID */
+  voteCounters: Map<string, number>;
+  /** Votes counted by option ID */
+  optionVoteCounters: Map<string, number>;
+  /** Rollups by option ID and minute */
+  voteRollups: Map<string, MemoryRollup>;
+  voteHistory: VoteHistoryEntry[];
+  operations: Map<string, MemoryOperation>;
+  /** Idempotency keys by scope and key */
+  idempotencyKeys: Map<string, MemoryIdempotencyKey>;
+}
+
+/**
+ * Copies every row of a state, so a transaction can change its copy without touching the original
+ * @param state - State to copy
+ * @returns Independent copy
+ */
+const copyState = (state: MemoryState): MemoryState => {
+  const copyRows = <T>(rows: Map<string, T>): Map<string, T> =>
+    new Map([...rows].map(([key, row]) => [key, { ...row }]));
+
+  return {
+    polls: copyRows(state.polls),
+    options: copyRows(state.options),
+    votes: copyRows(state.votes),
+    ballotChoices: new Map([...state.ballotChoices].map(([voteId, choices]) => [voteId, [...choices]])),
+    voteCounters: new Map(state.voteCounters),
+    optionVoteCounters: new Map(state.optionVoteCounters),
+    voteRollups: copyRows(state.voteRollups),
+    voteHistory: [...state.voteHistory],
+    operations: copyRows(state.operations),
+    idempotencyKeys: copyRows(state.idempotencyKeys)
+  };
+};
+
+/**
+ * Process-local store of polls, votes and operations for tests and local runs. Transactions run one at a
+ * time, each against a copy of the state that replaces it on commit and is dropped on rollback.
+ * Transactions are therefore serializable and row locks are implied.
+ */
+export class MemoryStore {
+  private state: MemoryState = {
+    polls: new Map(),
+    options: new Map(),
+    votes: new Map(),
+    ballotChoices: new Map(),
+    voteCounters: new Map(),
+    optionVoteCounters: new Map(),
+    voteRollups: new Map(),
+    voteHistory: [],
+    operations: new Map(),
+    idempotencyKeys: new Map()
+  };
+
+  /** Transactions queued after the running one */
+  private queue: Promise<unknown> = Promise.resolve();
+
+  /**
+   * Runs work in a transaction of its own, or in the surrounding one if a state is given
+   * @param current - State of the surrounding transaction, if any
+   * @param work - Work reading and changing the state of the transaction
+   * @returns Result of the work
+   * @throws Error of the work, after dropping its changes
+   */
+  transaction<T>(current: MemoryState | undefined, work: (state: MemoryState) => Promise<T>): Promise<T> {
+    if (current) {
+      return work(current);
+    }
+
+    const run = this.queue.then(async () => {
+      const draft = copyState(this.state);
+      const result = await work(draft);
+      this.state = draft;
+      return result;
+    });
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+}
+
+/**
+ * Base of the in-memory repositories. An unbound repository runs every operation in a transaction
+ * of its own; the repository handed to `transaction` is bound to that transaction's state. Work
+ * inside a transaction must use the bound repository, as transactions started on an unbound one
+ * wait for the running transaction to finish.
+ */
+export abstract class MemoryRepository {
+  /**
+   * @param store - Store shared with the other repositories
+   * @param state - State of the surrounding transaction, if any
+   */
+  constructor(
+    protected store: MemoryStore,
+    protected state?: MemoryState
+  ) {}
+
+  /**
+   * Creates a repository of the same kind bound to the state of a transaction
+   * @param state - State of the transaction
+   */
+  protected abstract bind(state: MemoryState): this;
+
+  /**
+   * Runs work in one transaction, or in the surrounding one if the repository is bound
+   * @param work - Work receiving the bound repository
+   * @returns Result of the work
+   * @throws Error of the work, after dropping its changes
+   */
+  transaction<T>(work: (repository: this) => Promise<T>): Promise<T> {
+    return this.store.transaction(this.state, state => work(this.bind(state)));
+  }
+
+  /**
+   * Runs an operation in the surrounding transaction, or in a transaction of its own
+   * @param operation - Operation reading and changing the state
+   * @returns Result of the operation
+   */
+  protected run<T>(operation: (state: MemoryState) => T): Promise<T> {
+    return this.store.transaction(this.state, async state => operation(state));
+  }
+}
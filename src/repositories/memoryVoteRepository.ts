@@ -0,0 +1,218 @@
+import { randomUUID } from 'crypto';
+import { LeaderboardOption, LeaderboardQuery, Poll } from '../models/poll';
+import { LeaderboardEntry, StoredBallot, VotablePoll, VoteRepository } from '../models/repository';
+import { VoteHistoryEntry } from '../models/vote';
+import { ConflictError } from '../utils/errorHandler';
+import { TRENDING_MIN_HOURS, WINDOW_HOURS } from '../utils/leaderboardView';
+import { MemoryRepository, MemoryState } from './memoryStore';
+
+/** Length of an hour and of a rollup bucket in milliseconds */
+const HOUR_MS = 60 * 60 * 1000;
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Lists the options of open polls with their vote counters as leaderboard entries
+ * @param state - State to read
+ * @param include - Selects the polls to include
+ * @returns Leaderboard entries
+ */
+const openPollOptions = (state: MemoryState, include: (poll: Poll) => boolean): LeaderboardOption[] => {
+  const now = Date.now();
+  const entries: LeaderboardOption[] = [];
+  for (const option of state.options.values()) {
+    const poll = state.polls.get(option.poll_id);
+    if (poll && poll.expired_at.getTime() > now && include(poll)) {
+      entries.push({
+        poll_id: poll.id,
+        poll_question: poll.question,
+        option_id: option.id,
+        option_text: option.option_text,
+        vote_count: state.optionVoteCounters.get(option.id) ?? 0
+      });
+    }
+  }
+  return entries;
+};
+
+/**
+ * Vote repository backed by a `MemoryStore`
+ * @class MemoryVoteRepository
+ */
+export class MemoryVoteRepository extends MemoryRepository implements VoteRepository {
+  protected bind(state: MemoryState): this {
+    return new MemoryVoteRepository(this.store, state) as this;
+  }
+
+  async findVotablePoll(pollId: string): Promise<VotablePoll | null> {
+    return this.run(state => {
+      const poll = state.polls.get(pollId);
+      if (!poll) {
+        return null;
+      }
+      const { expired_at, poll_type, min_selections, max_selections, allow_vote_change } = poll;
+      return { expired_at, poll_type, min_selections, max_selections, allow_vote_change };
+    });
+  }
+
+  async countPollOptions(pollId: string, optionIds: string[]): Promise<number> {
+    return this.run(state =>
+      [...new Set(optionIds)].filter(optionId => state.options.get(optionId)?.poll_id === pollId).length
+    );
+  }
+
+  async findBallot(pollId: string, userId: string): Promise<StoredBallot | null> {
+    return this.run(state => {
+      const vote = [...state.votes.values()].find(candidate =>
+        candidate.poll_id === pollId && candidate.user_id === userId
+      );
+      return vote
+        ? { id: vote.id, option_id: vote.option_id, choices: [...state.ballotChoices.get(vote.id) ?? []] }
+        : null;
+    });
+  }
+
+  async insertVote(pollId: string, userId: string, optionId: string): Promise<string> {
+    return this.run(state => {
+      for (const vote of state.votes.values()) {
+        if (vote.poll_id === pollId && vote.user_id === userId) {
+          throw new ConflictError('User has already voted on this poll');
+        }
+      }
+      const id = randomUUID();
+      state.votes.set(id, { id, poll_id: pollId, user_id: userId, option_id: optionId, created_at: new Date() });
+      return id;
+    });
+  }
+
+  async setVoteOption(voteId: string, optionId: string): Promise<void> {
+    return this.run(state => {
+      const vote = state.votes.get(voteId);
+      if (vote) {
+        vote.option_id = optionId;
+      }
+    });
+  }
+
+  async storeChoices(voteId: string, choices: string[]): Promise<void> {
+    return this.run(state => {
+      state.ballotChoices.set(voteId, [...state.ballotChoices.get(voteId) ?? [], ...choices]);
+    });
+  }
+
+  async deleteChoices(voteId: string): Promise<void> {
+    return this.run(state => {
+      state.ballotChoices.delete(voteId);
+    });
+  }
+
+  async deleteVote(voteId: string): Promise<void> {
+    return this.run(state => {
+      state.votes.delete(voteId);
+      state.ballotChoices.delete(voteId);
+    });
+  }
+
+  async adjustPollVoteCount(pollId: string, delta: number): Promise<void> {
+    return this.run(state => {
+      const count = state.voteCounters.get(pollId);
+      if (count !== undefined) {
+        state.voteCounters.set(pollId, count + delta);
+      }
+    });
+  }
+
+  async adjustOptionVoteCounts(voteId: string, optionIds: string[], delta: number): Promise<void> {
+    return this.run(state => {
+      for (const optionId of optionIds) {
+        const count = state.optionVoteCounters.get(optionId);
+        if (count !== undefined) {
+          state.optionVoteCounters.set(optionId, count + delta);
+        }
+      }
+
+      const vote = state.votes.get(voteId);
+      if (!vote) {
+        return;
+      }
+      const bucketStart = Math.floor(vote.created_at.getTime() / MINUTE_MS) * MINUTE_MS;
+      for (const optionId of optionIds) {
+        const key = `${optionId}|${bucketStart}`;
+        const rollup = state.voteRollups.get(key)
+          ?? { poll_id: vote.poll_id, option_id: optionId, bucket_start: bucketStart, vote_count: 0 };
+        rollup.vote_count += delta;
+        state.voteRollups.set(key, rollup);
+      }
+    });
+  }
+
+  async recordHistory(entry: Omit<VoteHistoryEntry, 'id' | 'created_at'>): Promise<void> {
+    return this.run(state => {
+      state.voteHistory.push({
+        id: randomUUID(),
+        ...entry,
+        previous_option_ids: [...entry.previous_option_ids],
+        created_at: new Date()
+      });
+    });
+  }
+
+  async getTopOptions(limit: number): Promise<LeaderboardOption[]> {
+    return this.run(state => openPollOptions(state, () => true)
+      .sort((a, b) => b.vote_count - a.vote_count)
+      .slice(0, limit));
+  }
+
+  async getOptionCounts(pollIds: string[]): Promise<LeaderboardOption[]> {
+    return this.run(state => openPollOptions(state, poll => pollIds.includes(poll.id)));
+  }
+
+  async getLeaderboardView(query: LeaderboardQuery): Promise<LeaderboardEntry[]> {
+    return this.run(state => {
+      const now = Date.now();
+      const windowHours = WINDOW_HOURS[query.window];
+      const velocity = (count: number, poll: Poll) => {
+        const pollHours = (now - poll.created_at.getTime()) / HOUR_MS;
+        const hours = windowHours === null ? pollHours : Math.min(pollHours, windowHours);
+        return count / Math.max(hours, TRENDING_MIN_HOURS);
+      };
+
+      // Ballots of open polls in the window, counted by poll or by counted option ID
+      const counts = new Map<string, number>();
+      for (const vote of state.votes.values()) {
+        const poll = state.polls.get(vote.poll_id);
+        if (
+          !poll || poll.expired_at.getTime() <= now ||
+          (windowHours !== null && vote.created_at.getTime() < now - windowHours * HOUR_MS)
+        ) {
+          continue;
+        }
+        const choices = poll.poll_type === 'multiple' ? state.ballotChoices.get(vote.id) ?? [] : [];
+        const keys = query.scope === 'polls' ? [poll.id] : choices.length > 0 ? choices : [vote.option_id];
+        for (const key of keys) {
+          counts.set(key, (counts.get(key) ?? 0) + 1);
+        }
+      }
+
+      const entries: (LeaderboardEntry & { id: string })[] = [];
+      for (const [id, count] of counts) {
+        const option = query.scope === 'polls' ? undefined : state.options.get(id);
+        const poll = state.polls.get(option ? option.poll_id : id);
+        if (!poll || (query.scope === 'options' && !option)) {
+          continue;
+        }
+        const entry = { poll_id: poll.id, poll_question: poll.question, vote_count: count };
+        entries.push({
+          id,
+          ...(option ? { ...entry, option_id: option.id, option_text: option.option_text } : entry),
+          velocity: velocity(count, poll)
+        });
+      }
+
+      const metric = (entry: LeaderboardEntry) => query.sort === 'trending' ? entry.velocity : entry.vote_count;
+      return entries
+        .sort((a, b) => metric(b) - metric(a) || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0))
+        .slice(0, query.limit)
+        .map(({ id, ...entry }) => entry);
+    });
+  }
+}
@@ -0,0 +1,118 @@
+import { PoolClient } from 'pg';
+import { TableNames } from '../config/database';
+import { Operation, OperationState, OperationType } from '../models/operation';
+import { IdempotencyKey, OperationOutcome, OperationRepository } from '../models/repository';
+import { PostgresRepository } from './postgresRepository';
+
+/** Columns returned for operation entities */
+const OPERATION_COLUMNS = 'id, type, status, result, reason, code, created_at, updated_at';
+
+/**
+ * Lists the status, result, reason and code of an outcome as query values after the operation ID
+ * @param operationId - ID of the operation
+ * @param status - Whether the command was applied or rejected
+ * @param outcome - Result of an applied command, or reason and error code of a rejected one
+ * @returns Query values
+ */
+const outcomeValues = (
+  operationId: string,
+  status: Exclude<OperationState, 'pending'>,
+  outcome: OperationOutcome
+): unknown[] => [
+  operationId,
+  status,
+  outcome.result === undefined ? null : JSON.stringify(outcome.result),
+  outcome.reason ?? null,
+  outcome.code ?? null
+];
+
+/**
+ * Operation repository backed by the Postgres tables
+ * @class PostgresOperationRepository
+ */
+export class PostgresOperationRepository extends PostgresRepository implements OperationRepository {
+  protected bind(client: PoolClient): this {
+    return new PostgresOperationRepository(this.db, client) as this;
+  }
+
+  async findIdempotencyKey(scope: string, key: string): Promise<{ requestHash: string; operationId: string } | null> {
+    await this.query('SELECT pg_advisory_xact_lock(hashtext($1))', [`${scope}\n${key}`]);
+
+    const result = await this.query<{ request_hash: string; operation_id: string }>(
+      `SELECT request_hash, operation_id FROM ${TableNames.IDEMPOTENCY_KEYS} WHERE scope = $1 AND key = $2`,
+      [scope, key]
+    );
+    return result.rows.length > 0
+      ? { requestHash: result.rows[0].request_hash, operationId: result.rows[0].operation_id }
+      : null;
+  }
+
+  async insertOperation(operationId: string, type: OperationType, clientId: string | null): Promise<void> {
+    await this.query(
+      `INSERT INTO ${TableNames.OPERATIONS} (id, type, client_id) VALUES ($1, $2, $3)`,
+      [operationId, type, clientId]
+    );
+  }
+
+  async insertIdempotencyKey(idempotency: IdempotencyKey, operationId: string): Promise<void> {
+    await this.query(
+      `INSERT INTO ${TableNames.IDEMPOTENCY_KEYS} (scope, key, request_hash, operation_id) VALUES ($1, $2, $3, $4)`,
+      [idempotency.scope, idempotency.key, idempotency.requestHash, operationId]
+    );
+  }
+
+  async updateOperation(
+    operationId: string,
+    status: Exclude<OperationState, 'pending'>,
+    outcome: OperationOutcome
+  ): Promise<{ operation: Operation; clientId: string | null } | null> {
+    const result = await this.query<Operation & { client_id: string | null }>(
+      `UPDATE ${TableNames.OPERATIONS}
+        SET status = $2, result = $3, reason = $4, code = $5, updated_at = NOW()
+        WHERE id = $1 AND status = 'pending'
+        RETURNING ${OPERATION_COLUMNS}, client_id`,
+      outcomeValues(operationId, status, outcome)
+    );
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    const { client_id, ...operation } = result.rows[0];
+    return { operation, clientId: client_id };
+  }
+
+  async reopenOperation(operationId: string): Promise<boolean> {
+    const result = await this.query(
+      `UPDATE ${TableNames.OPERATIONS}
+        SET status = 'pending', result = NULL, reason = NULL, code = NULL, updated_at = NOW()
+        WHERE id = $1 AND status = 'rejected'`,
+      [operationId]
+    );
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async updateIdempotencyKey(
+    operationId: string,
+    status: Exclude<OperationState, 'pending'>,
+    outcome: OperationOutcome
+  ): Promise<void> {
+    await this.query(
+      `UPDATE ${TableNames.IDEMPOTENCY_KEYS}
+        SET status = $2, result = $3, reason = $4, code = $5, processed_at = NOW()
+        WHERE operation_id = $1`,
+      outcomeValues(operationId, status, outcome)
+    );
+  }
+
+  async deleteIdempotencyKey(operationId: string): Promise<void> {
+    await this.query(`DELETE FROM ${TableNames.IDEMPOTENCY_KEYS} WHERE operation_id = $1`, [operationId]);
+  }
+
+  async findOperation(operationId: string): Promise<Operation | null> {
+    const result = await this.query<Operation>(
+      `SELECT ${OPERATION_COLUMNS} FROM ${TableNames.OPERATIONS} WHERE id = $1`,
+      [operationId]
+    );
+    return result.rows[0] ?? null;
+  }
+}
@@ -0,0 +1,185 @@
+import { PoolClient } from 'pg';
+import { TableNames } from '../config/database';
+import { OptionResult, Poll } from '../models/poll';
+import { NewPoll, PollChanges, PollFilter, PollRepository, RollupTotal } from '../models/repository';
+import { PostgresRepository } from './postgresRepository';
+
+/** Columns selected when listing or returning poll entities */
+const POLL_COLUMNS = `id, question, poll_type, min_selections, max_selections, allow_vote_change,
+  remarks, created_by, expired_at, created_at`;
+
+/**
+ * Poll repository backed by the Postgres tables
+ * @class PostgresPollRepository
+ */
+export class PostgresPollRepository extends PostgresRepository implements PollRepository {
+  protected bind(client: PoolClient): this {
+    return new PostgresPollRepository(this.db, client) as this;
+  }
+
+  async findPoll(pollId: string, forUpdate = false): Promise<Poll | null> {
+    const result = await this.query(
+      `SELECT ${POLL_COLUMNS} FROM ${TableNames.POLLS} WHERE id = $1 ${forUpdate ? 'FOR UPDATE' : ''}`,
+      [pollId]
+    );
+    return result.rows[0] ?? null;
+  }
+
+  async findPollByQuestion(question: string): Promise<Poll | null> {
+    const result = await this.query(
+      `SELECT ${POLL_COLUMNS} FROM ${TableNames.POLLS} WHERE question = $1 LIMIT 1`,
+      [question]
+    );
+    return result.rows[0] ?? null;
+  }
+
+  async listPolls(filter: PollFilter): Promise<Poll[]> {
+    const conditions: string[] = [];
+    const values: unknown[] = [];
+
+    if (filter.status === 'active') {
+      conditions.push('expired_at > NOW()');
+    } else if (filter.status === 'expired') {
+      conditions.push('expired_at <= NOW()');
+    }
+
+    if (filter.created_by) {
+      values.push(filter.created_by);
+      conditions.push(`created_by = $${values.length}`);
+    }
+
+    if (filter.after) {
+      values.push(filter.after.created_at, filter.after.id);
+      conditions.push(`(created_at, id) < ($${values.length - 1}, $${values.length})`);
+    }
+
+    values.push(filter.limit);
+    const result = await this.query(
+      `SELECT ${POLL_COLUMNS} FROM ${TableNames.POLLS}
+        ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+        ORDER BY created_at DESC, id DESC
+        LIMIT $${values.length}`,
+      values
+    );
+    return result.rows;
+  }
+
+  async insertPoll(poll: NewPoll): Promise<{ id: string; optionIds: string[] }> {
+    return this.transaction(async polls => {
+      const pollResult = await polls.query(
+        `INSERT INTO ${TableNames.POLLS}
+          (question, poll_type, min_selections, max_selections, allow_vote_change, created_by, expired_at)
+          VALUES ($1, $2, $3, $4, $5, $6, $7)
+          RETURNING id;`,
+        [
+          poll.question,
+          poll.poll_type,
+          poll.min_selections,
+          poll.max_selections,
+          poll.allow_vote_change,
+          poll.created_by,
+          poll.expired_at
+        ]
+      );
+      const pollId = pollResult.rows[0].id;
+
+      const optionIds: string[] = [];
+      for (const optionText of poll.options) {
+        const optionResult = await polls.query(
+          `INSERT INTO ${TableNames.OPTIONS} (poll_id, option_text)
+            VALUES ($1, $2)
+            RETURNING id;`,
+          [pollId, optionText]
+        );
+        optionIds.push(optionResult.rows[0].id);
+      }
+
+      await polls.query(
+        `INSERT INTO ${TableNames.VOTE_COUNTERS} (poll_id) VALUES ($1)`,
+        [pollId]
+      );
+      await polls.query(
+        `INSERT INTO ${TableNames.OPTION_VOTE_COUNTERS} (option_id) SELECT id FROM ${TableNames.OPTIONS} WHERE poll_id = $1`,
+        [pollId]
+      );
+
+      return { id: pollId, optionIds };
+    });
+  }
+
+  async updatePoll(pollId: string, changes: PollChanges): Promise<Poll> {
+    const columns = (Object.keys(changes) as (keyof PollChanges)[])
+      .filter(column => changes[column] !== undefined);
+    const result = await this.query(
+      columns.length > 0
+        ? `UPDATE ${TableNames.POLLS}
+            SET ${columns.map((column, index) => `${column} = $${index + 2}`).join(', ')}
+            WHERE id = $1
+            RETURNING ${POLL_COLUMNS}`
+        : `SELECT ${POLL_COLUMNS} FROM ${TableNames.POLLS} WHERE id = $1`,
+      [pollId, ...columns.map(column => changes[column])]
+    );
+    return result.rows[0];
+  }
+
+  async deletePoll(pollId: string): Promise<void> {
+    await this.query(`DELETE FROM ${TableNames.POLLS} WHERE id = $1`, [pollId]);
+  }
+
+  async getVoteCount(pollId: string): Promise<number> {
+    const result = await this.query(
+      `SELECT vote_count FROM ${TableNames.VOTE_COUNTERS} WHERE poll_id = $1`,
+      [pollId]
+    );
+    return result.rows.length > 0 ? parseInt(result.rows[0].vote_count) : 0;
+  }
+
+  async listOptions(pollId: string): Promise<OptionResult[]> {
+    const result = await this.query(
+      `SELECT o.id as option_id, o.option_text, COALESCE(ovc.vote_count, 0) as vote_count
+        FROM ${TableNames.OPTIONS} o
+        LEFT JOIN ${TableNames.OPTION_VOTE_COUNTERS} ovc ON o.id = ovc.option_id
+        WHERE o.poll_id = $1
+        ORDER BY o.created_at, o.id`,
+      [pollId]
+    );
+    return result.rows.map(row => ({
+      option_id: row.option_id,
+      option_text: row.option_text,
+      vote_count: parseInt(row.vote_count)
+    }));
+  }
+
+  async listRankings(pollId: string): Promise<string[][]> {
+    const result = await this.query(
+      `SELECT array_agg(bc.option_id ORDER BY bc.position) as ranking
+        FROM ${TableNames.VOTES} v
+        JOIN ${TableNames.BALLOT_CHOICES} bc ON v.id = bc.vote_id
+        WHERE v.poll_id = $1
+        GROUP BY v.id`,
+      [pollId]
+    );
+    return result.rows.map(row => row.ranking);
+  }
+
+  async sumRollups(pollId: string, bucketMs: number, first: number): Promise<RollupTotal[]> {
+    const result = await this.query(
+      `SELECT
+          option_id,
+          GREATEST(
+            FLOOR(EXTRACT(EPOCH FROM bucket_start) * 1000 / $2::numeric) * $2::numeric,
+            $3::numeric - $2::numeric
+          ) as bucket_ms,
+          SUM(vote_count) as vote_count
+        FROM ${TableNames.VOTE_ROLLUPS}
+        WHERE poll_id = $1
+        GROUP BY 1, 2`,
+      [pollId, bucketMs, first]
+    );
+    return result.rows.map(row => ({
+      option_id: row.option_id,
+      bucket_ms: Number(row.bucket_ms),
+      vote_count: Number(row.vote_count)
+    }));
+  }
+}
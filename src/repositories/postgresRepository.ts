@@ -0,0 +1,48 @@
+import { Pool, PoolClient, QueryResult, QueryResultRow } from 'pg';
+import { pool, withTransaction } from '../config/database';
+
+/**
+ * Base of the Postgres repositories. An unbound repository runs every query in a transaction of
+ * its own; the repository handed to `transaction` is bound to that transaction's client and runs
+ * every query in it.
+ */
+export abstract class PostgresRepository {
+  /**
+   * @param db - Connection pool of the database
+   * @param client - Client of the surrounding transaction, if any
+   */
+  constructor(
+    protected db: Pool = pool,
+    protected client?: PoolClient
+  ) {}
+
+  /**
+   * Creates a repository of the same kind bound to the client of a transaction
+   * @param client - Client of the transaction
+   */
+  protected abstract bind(client: PoolClient): this;
+
+  /**
+   * Runs work in one transaction, or in the surrounding one if the repository is bound
+   * @param work - Work receiving the bound repository
+   * @returns Result of the work
+   * @throws Error of the work, after rolling the transaction back
+   */
+  transaction<T>(work: (repository: this) => Promise<T>): Promise<T> {
+    return this.client
+      ? work(this)
+      : withTransaction(client => work(this.bind(client)), this.db);
+  }
+
+  /**
+   * Runs a query in the surrounding transaction, or in a transaction of its own
+   * @param sql - SQL query string
+   * @param values - Values of the query parameters
+   * @returns Query result, with rows of type `R`
+   */
+  protected query<R extends QueryResultRow = any>(sql: string, values: unknown[] = []): Promise<QueryResult<R>> {
+    return this.client
+      ? this.client.query<R>(sql, values)
+      : this.transaction(repository => repository.query<R>(sql, values));
+  }
+}
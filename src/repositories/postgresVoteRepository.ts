@@ -0,0 +1,255 @@
+import { PoolClient } from 'pg';
+import { TableNames } from '../config/database';
+import { LeaderboardOption, LeaderboardQuery } from '../models/poll';
+import { LeaderboardEntry, StoredBallot, VotablePoll, VoteRepository } from '../models/repository';
+import { VoteHistoryEntry } from '../models/vote';
+import { ConflictError } from '../utils/errorHandler';
+import { TRENDING_MIN_HOURS, WINDOW_HOURS } from '../utils/leaderboardView';
+import { PostgresRepository } from './postgresRepository';
+
+/** Postgres error code of unique constraint violations */
+const UNIQUE_VIOLATION = '23505';
+
+/** Selects the options of polls with their vote counters as leaderboard entries */
+const LEADERBOARD_OPTION_COLUMNS = `
+  p.id as poll_id,
+  p.question as poll_question,
+  o.id as option_id,
+  o.option_text,
+  COALESCE(ovc.vote_count, 0) as vote_count`;
+
+/** Row of a poll with its vote count; counts are bigints, which the driver returns as strings */
+interface PollCountRow {
+  poll_id: string;
+  poll_question: string;
+  vote_count: string;
+}
+
+/** Row of a poll option with its vote count, as selected by `LEADERBOARD_OPTION_COLUMNS` */
+interface LeaderboardOptionRow extends PollCountRow {
+  option_id: string;
+  option_text: string;
+}
+
+/** Votes per hour of a leaderboard view row */
+interface VelocityRow {
+  velocity: number;
+}
+
+/**
+ * Converts a leaderboard query row into a leaderboard entry
+ * @param row - Row with poll, option and vote count columns
+ * @returns Leaderboard entry
+ */
+const toLeaderboardOption = (row: LeaderboardOptionRow): LeaderboardOption => ({
+  poll_id: row.poll_id,
+  poll_question: row.poll_question,
+  option_id: row.option_id,
+  option_text: row.option_text,
+  vote_count: parseInt(row.vote_count)
+});
+
+/**
+ * Vote repository backed by the Postgres tables
+ * @class PostgresVoteRepository
+ */
+export class PostgresVoteRepository extends PostgresRepository implements VoteRepository {
+  protected bind(client: PoolClient): this {
+    return new PostgresVoteRepository(this.db, client) as this;
+  }
+
+  async findVotablePoll(pollId: string): Promise<VotablePoll | null> {
+    const result = await this.query(
+      `SELECT expired_at, poll_type, min_selections, max_selections, allow_vote_change
+        FROM ${TableNames.POLLS} WHERE id = $1`,
+      [pollId]
+    );
+    return result.rows[0] ?? null;
+  }
+
+  async countPollOptions(pollId: string, optionIds: string[]): Promise<number> {
+    const result = await this.query(
+      `SELECT COUNT(*) as count FROM ${TableNames.OPTIONS} WHERE poll_id = $1 AND id = ANY($2::uuid[])`,
+      [pollId, optionIds]
+    );
+    return parseInt(result.rows[0].count);
+  }
+
+  async findBallot(pollId: string, userId: string, forUpdate = false): Promise<StoredBallot | null> {
+    return this.transaction(async votes => {
+      const voteResult = await votes.query(
+        `SELECT id, option_id FROM ${TableNames.VOTES}
+          WHERE poll_id = $1 AND user_id = $2 ${forUpdate ? 'FOR UPDATE' : ''}`,
+        [pollId, userId]
+      );
+      if (voteResult.rows.length === 0) {
+        return null;
+      }
+
+      const { id, option_id } = voteResult.rows[0];
+      const choiceResult = await votes.query(
+        `SELECT option_id FROM ${TableNames.BALLOT_CHOICES} WHERE vote_id = $1 ORDER BY position`,
+        [id]
+      );
+      return { id, option_id, choices: choiceResult.rows.map(row => row.option_id) };
+    });
+  }
+
+  async insertVote(pollId: string, userId: string, optionId: string): Promise<string> {
+    try {
+      const result = await this.query(
+        `INSERT INTO ${TableNames.VOTES} (poll_id, option_id, user_id) VALUES ($1, $2, $3) RETURNING id`,
+        [pollId, optionId, userId]
+      );
+      return result.rows[0].id;
+    } catch (error) {
+      // A concurrent vote of the same user committed after this transaction checked for it
+      if ((error as { code?: unknown }).code === UNIQUE_VIOLATION) {
+        throw new ConflictError('User has already voted on this poll');
+      }
+      throw error;
+    }
+  }
+
+  async setVoteOption(voteId: string, optionId: string): Promise<void> {
+    await this.query(
+      `UPDATE ${TableNames.VOTES} SET option_id = $1 WHERE id = $2`,
+      [optionId, voteId]
+    );
+  }
+
+  async storeChoices(voteId: string, choices: string[]): Promise<void> {
+    await this.query(
+      `INSERT INTO ${TableNames.BALLOT_CHOICES} (vote_id, option_id, position)
+        SELECT $1, option_id, position FROM unnest($2::uuid[]) WITH ORDINALITY AS r(option_id, position)`,
+      [voteId, choices]
+    );
+  }
+
+  async deleteChoices(voteId: string): Promise<void> {
+    await this.query(`DELETE FROM ${TableNames.BALLOT_CHOICES} WHERE vote_id = $1`, [voteId]);
+  }
+
+  async deleteVote(voteId: string): Promise<void> {
+    await this.query(`DELETE FROM ${TableNames.VOTES} WHERE id = $1`, [voteId]);
+  }
+
+  async adjustPollVoteCount(pollId: string, delta: number): Promise<void> {
+    await this.query(
+      `UPDATE ${TableNames.VOTE_COUNTERS} SET vote_count = vote_count + $2 WHERE poll_id = $1`,
+      [pollId, delta]
+    );
+  }
+
+  async adjustOptionVoteCounts(voteId: string, optionIds: string[], delta: number): Promise<void> {
+    await this.transaction(async votes => {
+      await votes.query(
+        `UPDATE ${TableNames.OPTION_VOTE_COUNTERS} SET vote_count = vote_count + $1 WHERE option_id = ANY($2::uuid[])`,
+        [delta, optionIds]
+      );
+      await votes.query(
+        `INSERT INTO ${TableNames.VOTE_ROLLUPS} (poll_id, option_id, bucket_start, vote_count)
+          SELECT v.poll_id, c.option_id, date_trunc('minute', v.created_at), $3
+          FROM ${TableNames.VOTES} v CROSS JOIN unnest($2::uuid[]) AS c(option_id)
+          WHERE v.id = $1
+          ON CONFLICT (option_id, bucket_start)
+          DO UPDATE SET vote_count = ${TableNames.VOTE_ROLLUPS}.vote_count + EXCLUDED.vote_count`,
+        [voteId, optionIds, delta]
+      );
+    });
+  }
+
+  async recordHistory(entry: Omit<VoteHistoryEntry, 'id' | 'created_at'>): Promise<void> {
+    await this.query(
+      `INSERT INTO ${TableNames.VOTE_HISTORY} (vote_id, poll_id, user_id, action, previous_option_ids)
+        VALUES ($1, $2, $3, $4, $5::uuid[])`,
+      [entry.vote_id, entry.poll_id, entry.user_id, entry.action, entry.previous_option_ids]
+    );
+  }
+
+  async getTopOptions(limit: number): Promise<LeaderboardOption[]> {
+    const result = await this.query<LeaderboardOptionRow>(
+      `SELECT ${LEADERBOARD_OPTION_COLUMNS}
+        FROM ${TableNames.POLLS} p
+        JOIN ${TableNames.OPTIONS} o ON p.id = o.poll_id
+        LEFT JOIN ${TableNames.OPTION_VOTE_COUNTERS} ovc ON o.id = ovc.option_id
+        WHERE p.expired_at > NOW()
+        ORDER BY ovc.vote_count DESC NULLS LAST
+        LIMIT $1`,
+      [limit]
+    );
+    return result.rows.map(toLeaderboardOption);
+  }
+
+  async getOptionCounts(pollIds: string[]): Promise<LeaderboardOption[]> {
+    const result = await this.query<LeaderboardOptionRow>(
+      `SELECT ${LEADERBOARD_OPTION_COLUMNS}
+        FROM ${TableNames.POLLS} p
+        JOIN ${TableNames.OPTIONS} o ON p.id = o.poll_id
+        LEFT JOIN ${TableNames.OPTION_VOTE_COUNTERS} ovc ON o.id = ovc.option_id
+        WHERE p.id = ANY($1::uuid[]) AND p.expired_at > NOW()`,
+      [pollIds]
+    );
+    return result.rows.map(toLeaderboardOption);
+  }
+
+  async getLeaderboardView(query: LeaderboardQuery): Promise<LeaderboardEntry[]> {
+    const windowHours = WINDOW_HOURS[query.window];
+    const pollHours = 'EXTRACT(EPOCH FROM NOW() - p.created_at) / 3600';
+    const hours = windowHours === null ? pollHours : `LEAST(${pollHours}, ${windowHours})`;
+    const velocity = (count: string) => `${count}::float / GREATEST(${hours}, ${TRENDING_MIN_HOURS})`;
+    const orderBy = query.sort === 'trending' ? 'velocity' : 'vote_count';
+
+    // Ballots of open polls in the window, one row per counted option
+    const counted = `
+      SELECT v.id AS vote_id, v.poll_id, COALESCE(bc.option_id, v.option_id) AS option_id
+      FROM ${TableNames.VOTES} v
+      JOIN ${TableNames.POLLS} p ON p.id = v.poll_id
+      LEFT JOIN ${TableNames.BALLOT_CHOICES} bc ON bc.vote_id = v.id AND p.poll_type = 'multiple'
+      WHERE p.expired_at > NOW()
+        ${windowHours === null ? '' : `AND v.created_at >= NOW() - make_interval(hours => ${windowHours})`}
+    `;
+
+    if (query.scope === 'polls') {
+      const result = await this.query<PollCountRow & VelocityRow>(
+        `WITH counted AS (${counted})
+          SELECT
+            p.id as poll_id,
+            p.question as poll_question,
+            COUNT(DISTINCT c.vote_id) as vote_count,
+            ${velocity('COUNT(DISTINCT c.vote_id)')} as velocity
+          FROM ${TableNames.POLLS} p
+          JOIN counted c ON c.poll_id = p.id
+          GROUP BY p.id
+          ORDER BY ${orderBy} DESC, p.id
+          LIMIT $1`,
+        [query.limit]
+      );
+      return result.rows.map(row => ({
+        poll_id: row.poll_id,
+        poll_question: row.poll_question,
+        vote_count: parseInt(row.vote_count),
+        velocity: Number(row.velocity)
+      }));
+    }
+
+    const result = await this.query<LeaderboardOptionRow & VelocityRow>(
+      `WITH counted AS (${counted})
+        SELECT
+          p.id as poll_id,
+          p.question as poll_question,
+          o.id as option_id,
+          o.option_text,
+          COUNT(c.vote_id) as vote_count,
+          ${velocity('COUNT(c.vote_id)')} as velocity
+        FROM ${TableNames.OPTIONS} o
+        JOIN ${TableNames.POLLS} p ON p.id = o.poll_id
+        JOIN counted c ON c.option_id = o.id
+        GROUP BY p.id, o.id
+        ORDER BY ${orderBy} DESC, o.id
+        LIMIT $1`,
+      [query.limit]
+    );
+    return result.rows.map(row => ({ ...toLeaderboardOption(row), velocity: Number(row.velocity) }));
+  }
+}
@@ -0,0 +1,363 @@
+import { Pool } from 'pg';
+import { pool, poolConfig } from '../config/database';
+import { Migrator } from '../config/migrator';
+import { CountedPollResult, CreatePollDTO, RankedPollResult } from '../models/poll';
+import { NewPoll, Repositories } from '../models/repository';
+import { LeaderboardService } from '../services/leaderboardService';
+import { OperationService } from '../services/operationService';
+import { PollService } from '../services/pollService';
+import { VoteService } from '../services/voteService';
+import {
+  ConflictError,
+  IdempotencyConflictError,
+  InvalidOptionError,
+  NotFoundError,
+  PollExpiredError
+} from '../utils/errorHandler';
+import {
+  createMemoryRepositories,
+  PostgresOperationRepository,
+  PostgresPollRepository,
+  PostgresVoteRepository
+} from '.';
+
+/** Creates the repositories under test and cleans up after them */
+interface Driver {
+  setup(): Promise<Repositories>;
+  teardown(): Promise<void>;
+}
+
+const memoryDriver: Driver = {
+  setup: async () => createMemoryRepositories(),
+  teardown: async () => undefined
+};
+
+/**
+ * Migrates a throwaway schema of the local Postgres configured by the `POSTGRES_*` variables
+ */
+const postgresDriver = (): Driver => {
+  const schema = `repositories_test_${process.pid}`;
+  // Postgres accepts a search path naming a schema that does not exist yet
+  const db = new Pool({ ...poolConfig, min: 0, max: 5, options: `-c search_path=${schema}` });
+
+  return {
+    setup: async () => {
+      await db.query(`CREATE SCHEMA ${schema}`);
+      await new Migrator(db).up();
+      return {
+        polls: new PostgresPollRepository(db),
+        votes: new PostgresVoteRepository(db),
+        operations: new PostgresOperationRepository(db)
+      };
+    },
+    teardown: async () => {
+      await db.query(`DROP SCHEMA IF EXISTS ${schema} CASCADE`);
+      await db.end();
+      await pool.end();
+    }
+  };
+};
+
+/**
+ * Runs the business rules of the services against each repository implementation, which must
+ * behave alike
+ */
+describe.each([
+  ['memory', memoryDriver],
+  ['postgres', postgresDriver()]
+])('%s repositories', (_name, driver) => {
+  let repositories: Repositories;
+  let pollService: PollService;
+  let voteService: VoteService;
+  let leaderboardService: LeaderboardService;
+  let operationService: OperationService;
+  let sequence = 0;
+
+  /**
+   * Creates an open poll with a question no other test uses
+   */
+  const createPoll = (data: Partial<CreatePollDTO> = {}) => pollService.createPoll({
+    question: `Question ${++sequence}`,
+    options: ['Red', 'Green', 'Blue'],
+    expired_at: new Date(Date.now() + 60 * 60 * 1000),
+    ...data
+  });
+
+  /**
+   * Settles every attempt, telling which ones were applied
+   */
+  const settle = (attempts: Promise<unknown>[]): Promise<boolean[]> =>
+    Promise.all(attempts.map(attempt => attempt.then(() => true, () => false)));
+
+  beforeAll(async () => {
+    repositories = await driver.setup();
+    pollService = new PollService(repositories.polls);
+    voteService = new VoteService(repositories.votes);
+    leaderboardService = new LeaderboardService(repositories.votes);
+    operationService = new OperationService(repositories.operations);
+  });
+
+  afterAll(() => driver.teardown());
+
+  it('creates polls with zeroed counters', async () => {
+    const { id, optionIds } = await createPoll();
+
+    const results = await pollService.getPollResults(id) as CountedPollResult;
+    expect(results.total_votes).toBe(0);
+    expect(results.options.map(option => option.option_id).sort()).toEqual([...optionIds].sort());
+    expect(results.options.every(option => option.vote_count === 0)).toBe(true);
+  });
+
+  it('rejects a second poll with the same question', async () => {
+    await createPoll({ question: 'Duplicated question' });
+
+    await expect(createPoll({ question: 'Duplicated question' })).rejects.toThrow('Poll already exists');
+  });
+
+  it('counts a vote once and rejects a second vote of the same user', async () => {
+    const { id, optionIds } = await createPoll();
+    await voteService.recordVote({ poll_id: id, user_id: 'alice', option_id: optionIds[0] });
+
+    await expect(voteService.recordVote({ poll_id: id, user_id: 'alice', option_id: optionIds[1] }))
+      .rejects.toThrow('User has already voted on this poll');
+
+    const results = await pollService.getPollResults(id) as CountedPollResult;
+    expect(results.total_votes).toBe(1);
+    expect(results.options.find(option => option.option_id === optionIds[0])?.vote_count).toBe(1);
+    expect(results.options.find(option => option.option_id === optionIds[1])?.vote_count).toBe(0);
+  });
+
+  it('applies one of several concurrent votes of the same user', async () => {
+    const { id, optionIds } = await createPoll();
+
+    const applied = await settle(optionIds.map(optionId =>
+      voteService.recordVote({ poll_id: id, user_id: 'bob', option_id: optionId })
+    ));
+
+    expect(applied.filter(Boolean)).toHaveLength(1);
+    expect((await pollService.getPollResults(id)).total_votes).toBe(1);
+  });
+
+  it('rejects options of another poll', async () => {
+    const poll = await createPoll();
+    const other = await createPoll();
+
+    await expect(voteService.recordVote({ poll_id: poll.id, user_id: 'carol', option_id: other.optionIds[0] }))
+      .rejects.toThrow('Invalid option for the poll');
+    expect((await pollService.getPollResults(poll.id)).total_votes).toBe(0);
+  });
+
+  it('rejects votes and edits once a poll has expired', async () => {
+    const { id, optionIds } = await createPoll();
+    await pollService.closePoll(id);
+
+    await expect(voteService.recordVote({ poll_id: id, user_id: 'dave', option_id: optionIds[0] }))
+      .rejects.toThrow('Poll has expired');
+    await expect(pollService.updatePoll(id, { question: 'Too late' })).rejects.toThrow('Poll has expired');
+  });
+
+  it('raises typed errors the API maps to status codes', async () => {
+    const { id, optionIds } = await createPoll();
+    await voteService.recordVote({ poll_id: id, user_id: 'ivan', option_id: optionIds[0] });
+
+    await expect(voteService.recordVote({ poll_id: id, user_id: 'ivan', option_id: optionIds[1] }))
+      .rejects.toBeInstanceOf(ConflictError);
+    await expect(voteService.recordVote({ poll_id: id, user_id: 'judy', option_id: '00000000-0000-0000-0000-000000000000' }))
+      .rejects.toBeInstanceOf(InvalidOptionError);
+    await expect(voteService.recordVote({ poll_id: '00000000-0000-0000-0000-000000000000', user_id: 'judy', option_id: optionIds[0] }))
+      .rejects.toBeInstanceOf(NotFoundError);
+    await expect(pollService.getPollResults('00000000-0000-0000-0000-000000000000')).rejects.toBeInstanceOf(NotFoundError);
+
+    await pollService.closePoll(id);
+    await expect(voteService.retractVote({ poll_id: id, user_id: 'ivan' })).rejects.toBeInstanceOf(PollExpiredError);
+  });
+
+  it('only lets the owner edit a poll, and only before votes are cast', async () => {
+    const { id, optionIds } = await createPoll({ created_by: 'owner' });
+
+    await expect(pollService.updatePoll(id, { remarks: 'Mine now' }, 'intruder'))
+      .rejects.toThrow('Only the poll owner can change this poll');
+    expect((await pollService.updatePoll(id, { remarks: 'Updated' }, 'owner')).remarks).toBe('Updated');
+
+    await voteService.recordVote({ poll_id: id, user_id: 'erin', option_id: optionIds[0] });
+    await expect(pollService.updatePoll(id, { remarks: 'Again' }, 'owner'))
+      .rejects.toThrow('Poll cannot be edited after votes have been cast');
+  });
+
+  it('moves the counts of changed votes and removes retracted ones', async () => {
+    const { id, optionIds } = await createPoll();
+    await voteService.recordVote({ poll_id: id, user_id: 'frank', option_id: optionIds[0] });
+
+    await voteService.changeVote({ poll_id: id, user_id: 'frank', option_id: optionIds[2] });
+    let results = await pollService.getPollResults(id) as CountedPollResult;
+    expect(results.options.find(option => option.option_id === optionIds[0])?.vote_count).toBe(0);
+    expect(results.options.find(option => option.option_id === optionIds[2])?.vote_count).toBe(1);
+
+    await voteService.retractVote({ poll_id: id, user_id: 'frank' });
+    results = await pollService.getPollResults(id) as CountedPollResult;
+    expect(results.total_votes).toBe(0);
+    expect(results.total_selections).toBe(0);
+    await expect(voteService.retractVote({ poll_id: id, user_id: 'frank' }))
+      .rejects.toThrow('User has not voted on this poll');
+  });
+
+  it('counts every choice of multi-select ballots', async () => {
+    const { id, optionIds } = await createPoll({ poll_type: 'multiple', max_selections: 2 });
+    await voteService.recordVote({ poll_id: id, user_id: 'grace', option_ids: optionIds.slice(0, 2) });
+
+    await expect(voteService.recordVote({ poll_id: id, user_id: 'heidi', option_ids: optionIds }))
+      .rejects.toThrow('Ballot must choose between 1 and 2 options');
+
+    const results = await pollService.getPollResults(id) as CountedPollResult;
+    expect(results.total_ballots).toBe(1);
+    expect(results.total_selections).toBe(2);
+  });
+
+  it('tallies ranked ballots by instant runoff', async () => {
+    const { id, optionIds: [red, green, blue] } = await createPoll({ poll_type: 'ranked', max_selections: 3 });
+    const rankings = [[red, green], [red, blue], [green, red], [green, blue], [blue, green]];
+    for (const [index, ranking] of rankings.entries()) {
+      await voteService.recordVote({ poll_id: id, user_id: `voter-${index}`, ranking });
+    }
+
+    // Blue is eliminated first and its ballot moves to green
+    const results = await pollService.getPollResults(id) as RankedPollResult;
+    expect(results.total_ballots).toBe(5);
+    expect(results.total_selections).toBe(10);
+    expect(results.winner_option_id).toBe(green);
+  });
+
+  it('discards every change of a failed transaction', async () => {
+    const poll: NewPoll = {
+      question: `Question ${++sequence}`,
+      poll_type: 'single',
+      min_selections: 1,
+      max_selections: 1,
+      allow_vote_change: true,
+      created_by: null,
+      expired_at: new Date(Date.now() + 60 * 60 * 1000),
+      options: ['Yes', 'No']
+    };
+    let pollId = '';
+
+    await expect(repositories.polls.transaction(async polls => {
+      pollId = (await polls.insertPoll(poll)).id;
+      expect(await polls.findPoll(pollId)).not.toBeNull();
+      throw new Error('Abort');
+    })).rejects.toThrow('Abort');
+
+    expect(await repositories.polls.findPoll(pollId)).toBeNull();
+    expect(await repositories.polls.findPollByQuestion(poll.question)).toBeNull();
+  });
+
+  it('pages polls newest first', async () => {
+    const created: string[] = [];
+    for (let index = 0; index < 3; index++) {
+      created.push((await createPoll({ created_by: 'pager' })).id);
+    }
+
+    const first = await pollService.fetchPolls({ created_by: 'pager', limit: 2 });
+    const second = await pollService.fetchPolls({ created_by: 'pager', limit: 2, cursor: first.next_cursor as string });
+
+    expect(first.data).toHaveLength(2);
+    expect(second.next_cursor).toBeNull();
+    expect([...first.data, ...second.data].map(poll => poll.id).sort()).toEqual(created.sort());
+    expect(new Date(first.data[0].created_at).getTime())
+      .toBeGreaterThanOrEqual(new Date(second.data[0].created_at).getTime());
+  });
+
+  it('deletes polls together with their votes', async () => {
+    const { id, optionIds } = await createPoll({ created_by: 'owner' });
+    await voteService.recordVote({ poll_id: id, user_id: 'niaj', option_id: optionIds[0] });
+
+    await pollService.deletePoll(id, 'owner');
+
+    expect(await pollService.getPollOwner(id)).toBeNull();
+    await expect(pollService.getPollResults(id)).rejects.toThrow('Poll does not exist');
+    expect(await leaderboardService.getOptionCounts([id])).toEqual([]);
+  });
+
+  it('buckets votes into a time series', async () => {
+    const { id, optionIds } = await createPoll();
+    await voteService.recordVote({ poll_id: id, user_id: 'olivia', option_id: optionIds[0] });
+    await voteService.recordVote({ poll_id: id, user_id: 'peggy', option_id: optionIds[1] });
+    await voteService.changeVote({ poll_id: id, user_id: 'peggy', option_id: optionIds[0] });
+
+    const series = await pollService.getPollTimeseries(id, 'hour');
+    const cumulative = (optionId: string) =>
+      series.options.find(option => option.option_id === optionId)?.cumulative.slice(-1)[0];
+    expect(cumulative(optionIds[0])).toBe(2);
+    expect(cumulative(optionIds[1])).toBe(0);
+  });
+
+  it('ranks the options and polls of open polls on the leaderboard', async () => {
+    const { id, optionIds } = await createPoll();
+    await voteService.recordVote({ poll_id: id, user_id: 'rupert', option_id: optionIds[1] });
+    await voteService.recordVote({ poll_id: id, user_id: 'sybil', option_id: optionIds[1] });
+
+    const counts = await leaderboardService.getOptionCounts([id]);
+    expect(counts.find(option => option.option_id === optionIds[1])?.vote_count).toBe(2);
+
+    const options = await leaderboardService.getLeaderboardView({ limit: 100, scope: 'options', window: 'hour', sort: 'votes' });
+    expect(options.data.find(entry => 'option_id' in entry && entry.option_id === optionIds[1])?.vote_count).toBe(2);
+
+    const polls = await leaderboardService.getLeaderboardView({ limit: 100, scope: 'polls', window: 'all', sort: 'trending' });
+    const entry = polls.data.find(candidate => candidate.poll_id === id);
+    expect(entry?.vote_count).toBe(2);
+    expect(entry?.velocity).toBeCloseTo(2 / 0.25);
+  });
+
+  it('replays the operation of a repeated idempotency key within its scope', async () => {
+    const key = `key-${++sequence}`;
+    const idempotency = { scope: 'user:alice', key, requestHash: 'a'.repeat(64) };
+
+    const attempts = await Promise.all([1, 2].map(() => operationService.createOperation('vote.cast', undefined, idempotency)));
+    expect(attempts.map(attempt => attempt.replayed).sort()).toEqual([false, true]);
+    expect(attempts[0].id).toBe(attempts[1].id);
+
+    await expect(operationService.createOperation('vote.cast', undefined, { ...idempotency, requestHash: 'b'.repeat(64) }))
+      .rejects.toThrow(IdempotencyConflictError);
+    const other = await operationService.createOperation('vote.cast', undefined, { ...idempotency, scope: 'user:bob' });
+    expect(other.replayed).toBe(false);
+    expect(other.id).not.toBe(attempts[0].id);
+  });
+
+  it('stores the outcome of pending operations only', async () => {
+    const { id } = await operationService.createOperation('poll.create', 'client-1', {
+      scope: 'service:importer',
+      key: `key-${++sequence}`,
+      requestHash: 'c'.repeat(64)
+    });
+    expect(await operationService.getOperation(id)).toMatchObject({ id, type: 'poll.create', status: 'pending', result: null });
+
+    const completed = await operationService.completeOperation(id, 'applied', { result: { id: 'poll-1' } });
+    expect(completed).toMatchObject({ clientId: 'client-1', operation: { status: 'applied', result: { id: 'poll-1' } } });
+
+    // A redelivered command failing the second time does not overwrite the first outcome
+    expect(await operationService.completeOperation(id, 'rejected', { reason: 'Poll already exists' })).toBeNull();
+    expect(await operationService.getOperation(id)).toMatchObject({ status: 'applied', result: { id: 'poll-1' }, reason: null });
+    expect(await operationService.completeOperation('00000000-0000-0000-0000-000000000000', 'applied', {})).toBeNull();
+  });
+
+  it('releases the idempotency key of an abandoned operation', async () => {
+    const idempotency = { scope: 'user:carol', key: `key-${++sequence}`, requestHash: 'd'.repeat(64) };
+    const { id } = await operationService.createOperation('vote.cast', undefined, idempotency);
+
+    await operationService.abandonOperation(id, 'Command could not be queued');
+    expect(await operationService.getOperation(id)).toMatchObject({ status: 'rejected', reason: 'Command could not be queued' });
+    expect(await operationService.createOperation('vote.cast', undefined, idempotency)).toMatchObject({ replayed: false });
+  });
+
+  it('reopens rejected operations only', async () => {
+    const applied = await operationService.createOperation('vote.cast');
+    await operationService.completeOperation(applied.id, 'applied', { result: {} });
+    const rejected = await operationService.createOperation('vote.cast');
+    await operationService.completeOperation(rejected.id, 'rejected', { reason: 'Connection lost', code: 'internal_error' }, true);
+    expect(await operationService.getOperation(rejected.id)).toMatchObject({ status: 'rejected', code: 'internal_error' });
+
+    expect(await operationService.reopenOperation(applied.id)).toBe(false);
+    expect(await operationService.reopenOperation(rejected.id)).toBe(true);
+    expect(await operationService.getOperation(rejected.id)).toMatchObject({ status: 'pending', reason: null, code: null });
+    expect(await operationService.getOperation(applied.id)).toMatchObject({ status: 'applied' });
+  });
+});
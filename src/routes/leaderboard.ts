@@ -1,14 +1,14 @@
 import { Router, Request, Response } from 'express';
-import { KafkaService, WebSocketService } from '../services';
+import { LeaderboardService } from '../services';
 import { asyncHandler } from '../utils/errorHandler';
+import { parseLeaderboardQuery } from '../utils/leaderboardView';
 
 /**
- * Creates and configures the leaderboard router
- * @param kafkaService - Service for handling Kafka messaging operations
- * @param wss - Service for managing WebSocket connections
+ * Creates and configures the leaderboard router.
+ * Live updates are pushed over WebSocket by the leaderboard consumer started with the app.
  * @returns Express Router configured with leaderboard endpoints
  */
-export const leaderboardRouter = (kafkaService: KafkaService, wss: WebSocketService): Router => {
+export const leaderboardRouter = (): Router => {
   const router = Router();
 
   // Health check endpoint
@@ -18,12 +18,19 @@ export const leaderboardRouter = (kafkaService: KafkaService, wss: WebSocketServ
 
   /**
    * GET /leaderboard
-   * Retrieves current leaderboard data and broadcasts updates via WebSocket
+   * Retrieves a leaderboard view, by default the top 10 options of all time
    * @route GET /
-   * @returns {Promise<Object>} Leaderboard data including poll options and vote counts
+   * @param {number} [req.query.limit=10] - Number of entries, at most 100
+   * @param {string} [req.query.scope=options] - Rank `options` or whole `polls`
+   * @param {string} [req.query.window=all] - Count the votes of the last `hour`, `day` or `all` time
+   * @param {string} [req.query.sort=votes] - Order by `votes`, or by vote velocity with `trending`
+   * @returns {Promise<Object>} The view with its entries, vote counts and velocities
+   * @throws {ValidationError} If a query parameter is invalid
    */
-  router.get('/', asyncHandler(async (_: Request, res: Response) => {
-    const result = await kafkaService.leaderboardConsumerActivity(wss);
+  router.get('/', asyncHandler(async (req: Request, res: Response) => {
+    const query = parseLeaderboardQuery(req.query);
+    const leaderboardService = new LeaderboardService();
+    const result = await leaderboardService.getLeaderboardView(query);
     res.json(result);
   }));
 
@@ -0,0 +1,33 @@
+import { Router, Request, Response } from 'express';
+import { NotFoundError, asyncHandler } from '../utils/errorHandler';
+import { OperationService } from '../services';
+import { UUID_PATTERN } from '../utils/schema';
+
+/**
+ * Creates and configures the operation status router
+ * @returns Express Router configured with operation endpoints
+ */
+export const operationRouter = (): Router => {
+  const router = Router();
+
+  /**
+   * Retrieves the status of a queued command
+   * @route GET /operations/:id
+   * @param {string} req.params.id - Operation ID returned when the command was accepted
+   * @throws {NotFoundError} If the operation does not exist
+   * @returns {Promise<Object>} Operation status with the result, or rejection reason and error code, once processed
+   */
+  router.get('/:id', asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const operationService = new OperationService();
+    const operation = UUID_PATTERN.test(id) ? await operationService.getOperation(id) : null;
+
+    if (!operation) {
+      throw new NotFoundError('Operation does not exist');
+    }
+
+    res.json(operation);
+  }));
+
+  return router;
+};
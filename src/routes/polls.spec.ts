@@ -0,0 +1,75 @@
+import express from 'express';
+import { AddressInfo } from 'net';
+import { Server, request as httpRequest } from 'http';
+import { MemoryBroker, MemoryBus } from '../bus';
+import { MemoryRateLimitStore } from '../rateLimit';
+import { KafkaService } from '../services/kafkaService';
+import { RateLimitService } from '../services/rateLimitService';
+import { authenticate } from '../utils/auth';
+import { errorHandler } from '../utils/errorHandler';
+import { pollRouter } from './polls';
+
+process.env.STORE_DRIVER = 'memory';
+
+/**
+ * Imports polls through the router on the in-memory bus and store, with the default rate limits
+ */
+describe('POST /polls/import', () => {
+  let kafkaService: KafkaService;
+  let server: Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    kafkaService = new KafkaService(undefined, new MemoryBus(new MemoryBroker()));
+    await kafkaService.start();
+
+    const app = express();
+    app.use(express.json());
+    app.use(authenticate([{ authenticate: () => ({ kind: 'user', subject: 'importer' }) }]));
+    app.use('/polls', pollRouter(kafkaService, new RateLimitService(new MemoryRateLimitStore())));
+    app.use(errorHandler);
+
+    server = app.listen(0);
+    await new Promise(resolve => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+    await kafkaService.disconnect();
+  });
+
+  /**
+   * Sends a request and reads the whole response as JSON
+   */
+  const request = (method: string, path: string, body?: unknown) =>
+    new Promise<{ status?: number; body: Record<string, unknown> }>((resolve, reject) => {
+      const req = httpRequest(`${baseUrl}${path}`, { method, headers: { 'Content-Type': 'application/json' } }, res => {
+        let data = '';
+        res.setEncoding('utf8');
+        res.on('data', chunk => data += chunk);
+        res.on('end', () => resolve({ status: res.statusCode, body: JSON.parse(data) }));
+        res.on('error', reject);
+      });
+      req.on('error', reject);
+      req.end(body === undefined ? undefined : JSON.stringify(body));
+    });
+
+  it('queues imports larger than the poll creation limits', async () => {
+    const expiredAt = new Date(Date.now() + 60 * 60 * 1000).toISOString();
+    const rows = Array.from({ length: 50 }, (_, index) => ({
+      question: `Imported question ${index}`,
+      options: ['Yes', 'No'],
+      expired_at: expiredAt
+    }));
+
+    const response = await request('POST', '/polls/import', rows);
+
+    expect(response.status).toBe(202);
+    expect(response.body).toMatchObject({ dry_run: false, queued: 50, invalid: 0 });
+
+    // Imports take nothing from the buckets of single poll creations
+    const created = await request('POST', '/polls', { ...rows[0], question: 'Created question' });
+    expect(created.status).toBe(201);
+  });
+});
@@ -1,17 +1,183 @@
-import { Router, Request, Response } from 'express';
-import { ValidationError, asyncHandler } from '../utils/errorHandler';
-import { KafkaService, PollService } from '../services';
-import { CreatePollDTO } from '../models/poll';
-import { CreateVoteDTO } from '../models/vote';
+import { Router, Request, Response, text } from 'express';
+import { ForbiddenError, NotFoundError, ValidationError, asyncHandler, errorFromCode } from '../utils/errorHandler';
+import { ExportService, KafkaService, PollService, RateLimitService } from '../services';
+import { CreatePollDTO, PollListQuery } from '../models/poll';
+import { ExportFormat, ExportQuery } from '../models/export';
+import { createPollSchema, createVoteSchema, pollIdSchema, retractVoteSchema, updatePollSchema } from '../models/schemas';
+import { CommandOptions } from '../models/operation';
+import { AuthPrincipal } from '../models/auth';
+import { MAX_IDEMPOTENCY_KEY_LENGTH } from '../utils/idempotency';
+import { actingUserId, assertPollOwner, getPrincipal } from '../utils/auth';
+import { clientAddress } from '../utils/rateLimit';
+import { EXPORT_CONTENT_TYPES, exportHeader, formatExportRecord, writeChunk } from '../utils/export';
+import { DEFAULT_OPTION_DELIMITER, MAX_IMPORT_ROWS, csvToPollRequests } from '../utils/pollImport';
+import { FieldError, validate } from '../utils/schema';
+
+/** Time to wait for the consumer's outcome before answering 202 Accepted */
+const REPLY_TIMEOUT_MS = parseInt(process.env.POLL_REPLY_TIMEOUT_MS || '5000', 10);
+
+/**
+ * Answers 202 Accepted for a queued command, pointing at its operation status resource
+ * @param res - Express response
+ * @param operationId - Operation ID of the queued command
+ */
+const sendAccepted = (res: Response, operationId: string): void => {
+  const statusUrl = `/operations/${operationId}`;
+  res.status(202).location(statusUrl).json({
+    operation_id: operationId,
+    status: 'pending',
+    status_url: statusUrl
+  });
+};
+
+/**
+ * Checks that the caller of a request may change a poll. Unknown polls are left for the consumer to reject.
+ * @param req - Authenticated request
+ * @param pollId - Poll ID from the route
+ * @throws {UnauthorizedError} If the request is anonymous
+ * @throws {ForbiddenError} If the caller is a user other than the poll owner
+ */
+const ensurePollOwner = async (req: Request, pollId: string): Promise<void> => {
+  const principal = getPrincipal(req);
+  const poll = await new PollService().getPollOwner(pollId);
+  if (poll) {
+    assertPollOwner(principal, poll.created_by);
+  }
+};
+
+/**
+ * Resolves the user a vote request is cast for
+ * @param req - Authenticated request
+ * @returns The authenticated user, or the user a service votes on behalf of
+ * @throws {UnauthorizedError} If the request is anonymous
+ * @throws {ForbiddenError} If a user tries to vote as somebody else
+ * @throws {ValidationError} If a service does not name the user
+ */
+const voterId = (req: Request): string => {
+  const userId = actingUserId(getPrincipal(req), req.body.user_id);
+  if (!userId) {
+    throw new ValidationError('user_id is required for service calls');
+  }
+  return userId;
+};
+
+/**
+ * Reads the client to notify and, for idempotent routes, the `Idempotency-Key` header of a command request
+ * @param req - Express request
+ * @param idempotent - Whether the route accepts an idempotency key
+ * @returns Options for the queued command
+ * @throws {ValidationError} If the idempotency key is empty or too long
+ */
+const commandOptions = (req: Request, idempotent = false): CommandOptions => {
+  const options: CommandOptions = {
+    clientId: req.get('X-Client-Id'),
+    requestedBy: req.principal?.kind === 'user' ? req.principal.subject : undefined
+  };
+  const idempotencyKey = idempotent ? req.get('Idempotency-Key') : undefined;
+
+  if (idempotencyKey !== undefined) {
+    if (idempotencyKey.trim().length === 0 || idempotencyKey.length > MAX_IDEMPOTENCY_KEY_LENGTH) {
+      throw new ValidationError(`Idempotency-Key must be between 1 and ${MAX_IDEMPOTENCY_KEY_LENGTH} characters`);
+    }
+    options.idempotencyKey = idempotencyKey;
+    options.idempotencyScope = req.principal ? `${req.principal.kind}:${req.principal.subject}` : '';
+  }
+
+  return options;
+};
+
+/**
+ * Validates the body of a poll creation request, for `POST /polls` and each row of an import
+ * @param body - Poll creation request body
+ * @param principal - Authenticated caller
+ * @returns Poll to create
+ * @throws {ValidationError} If request data is invalid
+ * @throws {ForbiddenError} If a user tries to create a poll for somebody else
+ */
+const parsePollRequest = (body: unknown, principal: AuthPrincipal): CreatePollDTO => {
+  const { created_by, ...pollData } = validate(createPollSchema, body);
+  return {
+    ...pollData,
+    poll_type: pollData.poll_type ?? 'single',
+    created_by: actingUserId(principal, created_by)
+  };
+};
+
+/**
+ * Reads the format of an export request
+ * @param format - `format` query parameter
+ * @returns Export format, CSV by default
+ * @throws {ValidationError} If the format is not supported
+ */
+const exportFormat = (format: unknown): ExportFormat => {
+  if (format === undefined || format === 'csv' || format === 'jsonl') {
+    return format ?? 'csv';
+  }
+  throw new ValidationError("format must be either 'csv' or 'jsonl'");
+};
+
+/**
+ * Decides whose ballots an export includes: services see every poll's, users those of their own
+ * polls and anonymous callers none
+ * @param req - Express request
+ * @returns Ballot selection of the export
+ */
+const exportBallots = (req: Request): ExportQuery['ballots'] => {
+  if (!req.principal) {
+    return 'none';
+  }
+  return req.principal.kind === 'service' ? 'all' : { owner: req.principal.subject };
+};
+
+/**
+ * Streams an export as a file download. Failures before the first record are answered as usual;
+ * later ones abort the connection, as the response is already underway.
+ * @param res - Express response
+ * @param format - Export format
+ * @param filename - Download file name without extension
+ * @param query - Polls to export and whose ballots to include
+ */
+const streamExport = async (res: Response, format: ExportFormat, filename: string, query: ExportQuery): Promise<void> => {
+  res.status(200).type(EXPORT_CONTENT_TYPES[format]).attachment(`${filename}.${format}`);
+
+  // The header goes out with the first record, so failures before it still get an error response
+  let header = exportHeader(format);
+  try {
+    await new ExportService().exportPolls(query, record => {
+      const chunk = header + formatExportRecord(format, record);
+      header = '';
+      return writeChunk(res, chunk);
+    });
+    res.end(header);
+  } catch (error) {
+    if (!res.headersSent) {
+      res.removeHeader('Content-Disposition');
+      throw error;
+    }
+    console.error(`Export ${filename} aborted:`, error);
+    res.destroy();
+  }
+};
 
 /**
  * Creates and configures the poll router
  * @param kafkaService - Service for handling Kafka messaging operations
+ * @param rateLimitService - Service limiting how fast clients vote and create polls
  * @returns Express Router configured with poll endpoints
  */
-export const pollRouter = (kafkaService: KafkaService): Router => {
+export const pollRouter = (kafkaService: KafkaService, rateLimitService = new RateLimitService()): Router => {
   const router = Router();
 
+  // Poll IDs are UUIDs; anything else is rejected before it reaches the database
+  router.param('id', (req, _res, next, id) => {
+    try {
+      validate(pollIdSchema, { id });
+      next();
+    } catch (error) {
+      next(error);
+    }
+  });
+
   /**
    * Health check endpoint
    * @route GET /health
@@ -28,50 +194,188 @@ export const pollRouter = (kafkaService: KafkaService): Router => {
    * @param {string} req.body.question - Poll question
    * @param {string[]} req.body.options - Array of poll options
    * @param {string} req.body.expired_at - Poll expiration date
-   * @throws {ValidationError} If request data is invalid
-   * @returns {Promise<Object>} Created poll data
+   * @param {string} [req.body.poll_type] - Poll type, 'single' (default), 'multiple' or 'ranked'
+   * @param {number} [req.body.min_selections] - Minimum number of options a ballot must choose
+   * @param {number} [req.body.max_selections] - Maximum number of options a ballot may choose
+   * @param {boolean} [req.body.allow_vote_change] - Whether voters may change or retract votes (default: true)
+   * @param {string} [req.body.created_by] - ID of the user a service creates the poll for; users always create their own
+   * @param {string} [req.headers.idempotency-key] - Key under which retries of this request are deduplicated
+   * @throws {ValidationError} If request data is invalid or the consumer rejected the poll
+   * @throws {ConflictError} If a poll with the same question already exists
+   * @throws {UnauthorizedError} If the request is not authenticated
+   * @throws {ForbiddenError} If a user tries to create a poll for somebody else
+   * @throws {IdempotencyConflictError} If the idempotency key was used for a different request
+   * @throws {RateLimitError} If the client address or user has created too many polls lately
+   * @returns {Promise<Object>} Created poll ID and option IDs, or the operation to poll
+   * if the consumer has not answered within the reply timeout
    */
   router.post('/', asyncHandler(async (req: Request, res: Response) => {
-    const { question, options, expired_at } = req.body;
+    const principal = getPrincipal(req);
+    const pollData = parsePollRequest(req.body, principal);
+    await rateLimitService.consume('create_poll', { ip: clientAddress(req), user: pollData.created_by });
 
-    // Validate required fields
-    if (!question || !options || !expired_at) {
-      throw new ValidationError('Missing required fields: question, options, expired_at');
+    const operationId = await kafkaService.pollProducerActivity(pollData, commandOptions(req, true));
+    const reply = await kafkaService.waitForReply(operationId, REPLY_TIMEOUT_MS);
+
+    if (!reply) {
+      sendAccepted(res, operationId);
+      return;
     }
 
-    // Validate question
-    if (typeof question !== 'string' || question.trim().length === 0) {
-      throw new ValidationError('Question must be a non-empty string');
+    if (reply.status === 'rejected') {
+      throw errorFromCode(reply.code, reply.reason || 'Poll creation was rejected');
     }
 
-    // Validate options
-    if (!Array.isArray(options) || options.length < 2) {
-      throw new ValidationError('Options must be an array with at least 2 items');
+    res.status(201).json(reply.result);
+  }));
+
+  /**
+   * Lists polls newest first
+   * @route GET /polls
+   * @param {string} [req.query.status] - Only 'active' or only 'expired' polls
+   * @param {string} [req.query.created_by] - Only polls created by this user
+   * @param {string} [req.query.cursor] - `next_cursor` of the previous page
+   * @param {number} [req.query.limit] - Page size (default: 20, max: 100)
+   * @throws {ValidationError} If a filter or the page size is invalid
+   * @returns {Promise<Object>} Page of polls and the cursor of the next page
+   */
+  router.get('/', asyncHandler(async (req: Request, res: Response) => {
+    const { status, created_by, cursor, limit } = req.query;
+
+    if (status !== undefined && status !== 'active' && status !== 'expired') {
+      throw new ValidationError("status must be either 'active' or 'expired'");
     }
 
-    if (!options.every(opt => typeof opt === 'string' && opt.trim().length > 0)) {
-      throw new ValidationError('All options must be non-empty strings');
+    const pageSize = limit !== undefined ? Number(limit) : undefined;
+    if (pageSize !== undefined && (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > 100)) {
+      throw new ValidationError('limit must be an integer between 1 and 100');
     }
 
-    // Validate and parse expired_at
-    let expiredAtDate: Date;
-    try {
-      expiredAtDate = new Date(expired_at);
-      if (isNaN(expiredAtDate.getTime())) {
-        throw new Error('Invalid date');
+    const query: PollListQuery = {
+      status,
+      created_by: typeof created_by === 'string' ? created_by : undefined,
+      cursor: typeof cursor === 'string' ? cursor : undefined,
+      limit: pageSize
+    };
+
+    const pollService = new PollService();
+    const result = await pollService.fetchPolls(query);
+    res.json(result);
+  }));
+
+  /**
+   * Creates many polls at once from a JSON array of poll creation bodies or from CSV. Every row is
+   * validated like `POST /polls`; valid rows are queued as one batch and invalid ones reported.
+   * @route POST /polls/import
+   * @param {Object[]|string} req.body - JSON array, or CSV (`Content-Type: text/csv`) with a header
+   * naming the columns question, options, expired_at and optionally poll_type, min_selections,
+   * max_selections, allow_vote_change and created_by
+   * @param {string} [req.query.delimiter] - Separator of the options in the CSV options column (default: '|')
+   * @param {string} [req.query.dry_run] - 'true' to only validate the rows
+   * @throws {ValidationError} If the body is not a JSON array or valid CSV, or has more rows than
+   * the import limits allow at once
+   * @throws {UnauthorizedError} If the request is not authenticated
+   * @throws {RateLimitError} If the client address or a user has too few polls left to import for the valid rows
+   * @returns {Promise<Object>} Outcome of each row, with the operation ID of each queued poll
+   */
+  router.post('/import', text({ type: 'text/csv' }), asyncHandler(async (req: Request, res: Response) => {
+    const principal = getPrincipal(req);
+    const dryRun = req.query.dry_run === 'true';
+    const delimiter = typeof req.query.delimiter === 'string' && req.query.delimiter.length > 0
+      ? req.query.delimiter
+      : DEFAULT_OPTION_DELIMITER;
+
+    const rows: unknown[] = typeof req.body === 'string' ? csvToPollRequests(req.body, delimiter) : req.body;
+    if (!Array.isArray(rows) || rows.length === 0) {
+      throw new ValidationError('Body must be a non-empty JSON array or CSV with at least one row');
+    }
+    if (rows.length > MAX_IMPORT_ROWS) {
+      throw new ValidationError(`Imports may contain at most ${MAX_IMPORT_ROWS} polls`);
+    }
+
+    // Rows are numbered from 1, not counting a CSV header
+    const results: { row: number; status: string; error?: string; details?: FieldError[]; operation_id?: string }[] = [];
+    const valid: { row: number; poll: CreatePollDTO }[] = [];
+    const seen = new Set<string>();
+    rows.forEach((body, index) => {
+      const row = index + 1;
+      try {
+        const poll = parsePollRequest(body, principal);
+        const key = JSON.stringify([poll.question, poll.options]);
+        if (seen.has(key)) {
+          throw new ValidationError('Duplicate of an earlier row');
+        }
+        seen.add(key);
+        valid.push({ row, poll });
+        results.push({ row, status: 'valid' });
+      } catch (error) {
+        if (!(error instanceof ValidationError || error instanceof ForbiddenError)) {
+          throw error;
+        }
+        const details = error instanceof ValidationError ? error.details : undefined;
+        results.push({ row, status: 'invalid', error: error.message, details });
       }
-    } catch (error) {
-      throw new ValidationError('expired_at must be a valid date string');
+    });
+
+    const invalid = rows.length - valid.length;
+    if (dryRun) {
+      res.json({ dry_run: true, valid: valid.length, invalid, rows: results });
+      return;
     }
 
-    const pollData: CreatePollDTO = {
-      question: question.trim(),
-      options: options.map(opt => opt.trim()),
-      expired_at: expiredAtDate
-    };
+    if (valid.length > 0) {
+      // Each queued poll counts against the import buckets of the user it is created for, then of
+      // the client address, so an import refused for a user leaves the address its tokens
+      const pollsByUser = new Map<string | undefined, number>();
+      valid.forEach(({ poll }) => pollsByUser.set(poll.created_by, (pollsByUser.get(poll.created_by) ?? 0) + 1));
+      for (const [user, count] of pollsByUser) {
+        await rateLimitService.consume('import_polls', { user }, count);
+      }
+      await rateLimitService.consume('import_polls', { ip: clientAddress(req) }, valid.length);
 
-    const result = await kafkaService.pollProducerActivity(pollData);
-    res.status(201).json(result);
+      const { clientId } = commandOptions(req);
+      const operationIds = await kafkaService.pollBatchProducerActivity(
+        valid.map(({ poll }) => poll),
+        { clientId }
+      );
+      valid.forEach(({ row }, index) => {
+        results[row - 1] = { row, status: 'queued', operation_id: operationIds[index] };
+      });
+    }
+
+    res.status(valid.length > 0 ? 202 : 400).json({ dry_run: false, queued: valid.length, invalid, rows: results });
+  }));
+
+  /**
+   * Streams every poll created in a date range, with their option totals and the ballots the
+   * caller may see
+   * @route GET /polls/export
+   * @param {string} [req.query.format] - 'csv' (default) or 'jsonl'
+   * @param {string} [req.query.from] - Only polls created at or after this date
+   * @param {string} [req.query.to] - Only polls created before this date
+   * @throws {ValidationError} If the format or a date is invalid
+   * @returns {Promise<void>} Export file of poll, option and ballot records
+   */
+  router.get('/export', asyncHandler(async (req: Request, res: Response) => {
+    const format = exportFormat(req.query.format);
+    const query: ExportQuery = { ballots: exportBallots(req) };
+
+    for (const field of ['from', 'to'] as const) {
+      const value = req.query[field];
+      if (value === undefined) {
+        continue;
+      }
+      const date = new Date(String(value));
+      if (isNaN(date.getTime())) {
+        throw new ValidationError(`${field} must be a valid date`);
+      }
+      query[field] = date;
+    }
+    if (query.from && query.to && query.from >= query.to) {
+      throw new ValidationError('from must be before to');
+    }
+
+    await streamExport(res, format, 'polls', query);
   }));
 
   /**
@@ -79,6 +383,7 @@ export const pollRouter = (kafkaService: KafkaService): Router => {
    * @route GET /polls/:id
    * @param {string} req.params.id - Poll ID
    * @throws {ValidationError} If poll ID is missing
+   * @throws {NotFoundError} If poll does not exist
    * @returns {Promise<Object>} Poll results including options and vote counts
    */
   router.get('/:id', asyncHandler(async (req: Request, res: Response) => {
@@ -95,27 +400,191 @@ export const pollRouter = (kafkaService: KafkaService): Router => {
     });
   }));
 
+  /**
+   * Streams a poll's metadata and option totals, followed by its ballots for the poll owner
+   * @route GET /polls/:id/export
+   * @param {string} req.params.id - Poll ID
+   * @param {string} [req.query.format] - 'csv' (default) or 'jsonl'
+   * @throws {ValidationError} If the format is invalid
+   * @throws {NotFoundError} If poll does not exist
+   * @returns {Promise<void>} Export file of poll, option and ballot records
+   */
+  router.get('/:id/export', asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const format = exportFormat(req.query.format);
+
+    const poll = await new PollService().getPollOwner(id);
+    if (!poll) {
+      throw new NotFoundError('Poll does not exist');
+    }
+
+    await streamExport(res, format, `poll-${id}`, { poll_id: id, ballots: exportBallots(req) });
+  }));
+
+  /**
+   * Retrieves how the votes of a poll evolved, ready for per-bucket and cumulative charts
+   * @route GET /polls/:id/timeseries
+   * @param {string} req.params.id - Poll ID
+   * @param {string} [req.query.bucket] - Bucket width, 'minute', 'hour' (default) or 'day'
+   * @throws {ValidationError} If the bucket width is invalid
+   * @throws {NotFoundError} If poll does not exist
+   * @returns {Promise<Object>} Bucket start times and per-option counts for each bucket
+   */
+  router.get('/:id/timeseries', asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const bucket = req.query.bucket ?? 'hour';
+
+    if (bucket !== 'minute' && bucket !== 'hour' && bucket !== 'day') {
+      throw new ValidationError("bucket must be one of 'minute', 'hour' or 'day'");
+    }
+
+    const pollService = new PollService();
+    const result = await pollService.getPollTimeseries(id, bucket);
+    res.json(result);
+  }));
+
+  /**
+   * Reports the client addresses and subnets that cast bursts of votes on a poll
+   * @route GET /polls/:id/suspicious-activity
+   * @param {string} req.params.id - Poll ID
+   * @throws {UnauthorizedError} If the request is not authenticated
+   * @throws {ForbiddenError} If the caller does not own the poll
+   * @throws {NotFoundError} If poll does not exist
+   * @returns {Promise<Object>} Flagged sources with their largest burst and when they were flagged
+   */
+  router.get('/:id/suspicious-activity', asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const principal = getPrincipal(req);
+
+    const poll = await new PollService().getPollOwner(id);
+    if (!poll) {
+      throw new NotFoundError('Poll does not exist');
+    }
+    if (principal.kind === 'user' && principal.subject !== poll.created_by) {
+      throw new ForbiddenError('Only the poll owner can see its suspicious activity');
+    }
+
+    res.json(await rateLimitService.getSuspiciousActivity(id));
+  }));
+
+  /**
+   * Edits a poll that has no votes yet
+   * @route PATCH /polls/:id
+   * @param {string} req.params.id - Poll ID
+   * @param {string} [req.body.question] - New poll question
+   * @param {string|null} [req.body.remarks] - New remarks, or null to clear them
+   * @param {string} [req.body.expired_at] - Later expiration date
+   * @throws {ValidationError} If request data is invalid
+   * @throws {UnauthorizedError} If the request is not authenticated
+   * @throws {ForbiddenError} If the caller does not own the poll
+   * @returns {Promise<Object>} Operation tracking the queued update
+   */
+  router.patch('/:id', asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const pollData = validate(updatePollSchema, req.body);
+
+    await ensurePollOwner(req, id);
+    const operationId = await kafkaService.pollLifecycleProducerActivity('update', id, pollData, commandOptions(req));
+    sendAccepted(res, operationId);
+  }));
+
+  /**
+   * Closes a poll early by expiring it immediately
+   * @route POST /polls/:id/close
+   * @param {string} req.params.id - Poll ID
+   * @throws {UnauthorizedError} If the request is not authenticated
+   * @throws {ForbiddenError} If the caller does not own the poll
+   * @returns {Promise<Object>} Operation tracking the queued close
+   */
+  router.post('/:id/close', asyncHandler(async (req: Request, res: Response) => {
+    await ensurePollOwner(req, req.params.id);
+    const operationId = await kafkaService.pollLifecycleProducerActivity(
+      'close', req.params.id, undefined, commandOptions(req)
+    );
+    sendAccepted(res, operationId);
+  }));
+
+  /**
+   * Deletes a poll with its options and votes
+   * @route DELETE /polls/:id
+   * @param {string} req.params.id - Poll ID
+   * @throws {UnauthorizedError} If the request is not authenticated
+   * @throws {ForbiddenError} If the caller does not own the poll
+   * @returns {Promise<Object>} Operation tracking the queued deletion
+   */
+  router.delete('/:id', asyncHandler(async (req: Request, res: Response) => {
+    await ensurePollOwner(req, req.params.id);
+    const operationId = await kafkaService.pollLifecycleProducerActivity(
+      'delete', req.params.id, undefined, commandOptions(req)
+    );
+    sendAccepted(res, operationId);
+  }));
+
   /**
    * Records a vote for a poll option
    * @route POST /polls/:id/vote
    * @param {string} req.params.id - Poll ID
    * @param {Object} req.body - Vote data
-   * @param {string} req.body.option_id - Selected option ID
-   * @param {string} req.body.user_id - Voting user ID
-   * @throws {ValidationError} If required parameters are missing
-   * @returns {Promise<Object>} Vote confirmation
+   * @param {string} [req.body.option_id] - Selected option ID (single-choice polls)
+   * @param {string[]} [req.body.option_ids] - Selected option IDs (multi-select polls)
+   * @param {string[]} [req.body.ranking] - Option IDs ordered by preference (ranked polls)
+   * @param {string} [req.body.user_id] - User a service votes on behalf of; users always vote as themselves
+   * @param {string} [req.headers.idempotency-key] - Key under which retries of this request are deduplicated
+   * @throws {ValidationError} If request data is invalid
+   * @throws {UnauthorizedError} If the request is not authenticated
+   * @throws {ForbiddenError} If a user tries to vote as somebody else
+   * @throws {IdempotencyConflictError} If the idempotency key was used for a different request
+   * @throws {RateLimitError} If the client address, user or poll has received too many votes lately
+   * @returns {Promise<Object>} Operation tracking the queued vote
    */
   router.post('/:id/vote', asyncHandler(async (req: Request, res: Response) => {
-    const { id } = req.params;
-    const voteData: CreateVoteDTO = req.body;
+    const voteData = validate(createVoteSchema, { ...req.body, poll_id: req.params.id, user_id: voterId(req) });
+    const address = clientAddress(req);
+    await rateLimitService.consume('vote', { ip: address, user: voteData.user_id, poll: voteData.poll_id });
 
-    if (!id || !voteData.option_id || !voteData.user_id) {
-      throw new ValidationError('Poll ID, option ID, and user ID are required');
-    }
+    const operationId = await kafkaService.voteProducerActivity(voteData, 'cast', commandOptions(req, true));
+    await rateLimitService.recordVote(voteData.poll_id, address);
+    sendAccepted(res, operationId);
+  }));
 
-    await kafkaService.voteProducerActivity({ ...voteData, poll_id: id }).then((result) => {
-      res.json(result);
-    });
+  /**
+   * Moves a user's vote to other options
+   * @route PUT /polls/:id/vote
+   * @param {string} req.params.id - Poll ID
+   * @param {Object} req.body - Vote data
+   * @param {string} [req.body.option_id] - Newly selected option ID (single-choice polls)
+   * @param {string[]} [req.body.option_ids] - Newly selected option IDs (multi-select polls)
+   * @param {string[]} [req.body.ranking] - New option ID order (ranked polls)
+   * @param {string} [req.body.user_id] - User a service votes on behalf of; users always vote as themselves
+   * @throws {ValidationError} If request data is invalid
+   * @throws {UnauthorizedError} If the request is not authenticated
+   * @throws {ForbiddenError} If a user tries to vote as somebody else
+   * @throws {RateLimitError} If the client address, user or poll has received too many votes lately
+   * @returns {Promise<Object>} Operation tracking the queued vote change
+   */
+  router.put('/:id/vote', asyncHandler(async (req: Request, res: Response) => {
+    const voteData = validate(createVoteSchema, { ...req.body, poll_id: req.params.id, user_id: voterId(req) });
+    await rateLimitService.consume('vote', { ip: clientAddress(req), user: voteData.user_id, poll: voteData.poll_id });
+    const operationId = await kafkaService.voteProducerActivity(voteData, 'change', commandOptions(req));
+    sendAccepted(res, operationId);
+  }));
+
+  /**
+   * Retracts a user's vote
+   * @route DELETE /polls/:id/vote
+   * @param {string} req.params.id - Poll ID
+   * @param {string} [req.body.user_id] - User a service retracts the vote of; users always retract their own
+   * @throws {ValidationError} If request data is invalid
+   * @throws {UnauthorizedError} If the request is not authenticated
+   * @throws {ForbiddenError} If a user tries to retract somebody else's vote
+   * @throws {RateLimitError} If the client address, user or poll has received too many votes lately
+   * @returns {Promise<Object>} Operation tracking the queued retraction
+   */
+  router.delete('/:id/vote', asyncHandler(async (req: Request, res: Response) => {
+    const voteData = validate(retractVoteSchema, { poll_id: req.params.id, user_id: voterId(req) });
+    await rateLimitService.consume('vote', { ip: clientAddress(req), user: voteData.user_id, poll: voteData.poll_id });
+    const operationId = await kafkaService.voteProducerActivity(voteData, 'retract', commandOptions(req));
+    sendAccepted(res, operationId);
   }));
 
   return router;
@@ -0,0 +1,84 @@
+import { randomUUID } from 'crypto';
+import { EventType, PollingEvent } from '../models/events';
+import { UnsupportedEventError } from '../utils/errorHandler';
+
+/** Payload schema version produced by this build */
+export const CURRENT_EVENT_VERSION = 1;
+
+/** Handler for one event type, narrowed to that type's payload */
+type EventHandler<T extends EventType> = (event: Extract<PollingEvent, { type: T }>) => Promise<unknown>;
+
+/**
+ * Wraps a payload in a versioned event envelope
+ * @param type - Event type
+ * @param payload - Event payload
+ * @param id - Event ID (default: a new UUID)
+ * @param idempotencyKey - Idempotency key of the originating request
+ * @returns The event envelope
+ */
+export const createEvent = <T extends EventType>(
+  type: T,
+  payload: Extract<PollingEvent, { type: T }>['payload'],
+  id: string = randomUUID(),
+  idempotencyKey?: string
+): Extract<PollingEvent, { type: T }> => ({
+  type,
+  version: CURRENT_EVENT_VERSION,
+  id,
+  occurred_at: new Date().toISOString(),
+  idempotency_key: idempotencyKey,
+  payload
+} as Extract<PollingEvent, { type: T }>);
+
+/**
+ * Checks that a parsed message has the shape of an event envelope
+ * @param value - Parsed message value
+ * @returns True if the value can be dispatched
+ */
+export const isEventEnvelope = (value: unknown): value is PollingEvent => {
+  if (value === null || typeof value !== 'object') {
+    return false;
+  }
+
+  const envelope = value as Record<string, unknown>;
+  return typeof envelope.type === 'string' &&
+    Number.isInteger(envelope.version) &&
+    typeof envelope.id === 'string' &&
+    typeof envelope.occurred_at === 'string' &&
+    envelope.payload !== null &&
+    typeof envelope.payload === 'object';
+};
+
+/**
+ * Routes events to the handler registered for their type and version
+ * @class EventDispatcher
+ */
+export class EventDispatcher {
+  private handlers = new Map<string, (event: PollingEvent) => Promise<unknown>>();
+
+  /**
+   * Registers the handler of an event type at a payload version
+   * @param type - Event type
+   * @param version - Payload version the handler understands
+   * @param handler - Function applying the event
+   * @returns The dispatcher, for chaining
+   */
+  on<T extends EventType>(type: T, version: number, handler: EventHandler<T>): this {
+    this.handlers.set(`${type}@${version}`, handler as (event: PollingEvent) => Promise<unknown>);
+    return this;
+  }
+
+  /**
+   * Applies an event with its registered handler
+   * @param event - Event to apply
+   * @returns Result of the handler
+   * @throws {UnsupportedEventError} If no handler is registered for the event's type and version
+   */
+  async dispatch(event: PollingEvent): Promise<unknown> {
+    const handler = this.handlers.get(`${event.type}@${event.version}`);
+    if (!handler) {
+      throw new UnsupportedEventError(`Unsupported event ${event.type} version ${event.version}`);
+    }
+    return handler(event);
+  }
+}
@@ -0,0 +1,149 @@
+import { PoolClient } from 'pg';
+import { withTransaction, TableNames } from '../config/database';
+import { ExportQuery, ExportRecord, ExportedPoll } from '../models/export';
+
+/** Polls fetched from the cursor at a time */
+const POLL_BATCH_SIZE = 100;
+
+/** Ballots fetched from the cursor at a time */
+const BALLOT_BATCH_SIZE = 1000;
+
+/**
+ * Service streaming poll results out of the database for analysis
+ * @class ExportService
+ */
+export class ExportService {
+  /**
+   * Streams the selected polls, each followed by its options and, where the query allows, its
+   * ballots. Polls and ballots are read through cursors in a read-only snapshot, so memory use does
+   * not grow with the size of the export and the records are consistent with each other.
+   * @param {ExportQuery} query - Polls to export and whose ballots to include
+   * @param {Function} write - Receives each record; the export waits for the returned promise
+   * @returns {Promise<number>} Number of polls exported
+   * @throws {Error} If a query fails or `write` rejects
+   */
+  async exportPolls(query: ExportQuery, write: (record: ExportRecord) => Promise<void>): Promise<number> {
+    return withTransaction(async client => {
+      await client.query('SET TRANSACTION ISOLATION LEVEL REPEATABLE READ READ ONLY');
+      await client.query(
+        `DECLARE export_polls NO SCROLL CURSOR FOR
+          SELECT p.id, p.question, p.poll_type, p.created_by, p.created_at, p.expired_at,
+            COALESCE(vc.vote_count, 0) as total_votes
+          FROM ${TableNames.POLLS} p
+          LEFT JOIN ${TableNames.VOTE_COUNTERS} vc ON vc.poll_id = p.id
+          WHERE ($1::uuid IS NULL OR p.id = $1::uuid)
+            AND ($2::timestamptz IS NULL OR p.created_at >= $2::timestamptz)
+            AND ($3::timestamptz IS NULL OR p.created_at < $3::timestamptz)
+          ORDER BY p.created_at, p.id`,
+        [query.poll_id ?? null, query.from ?? null, query.to ?? null]
+      );
+
+      let exported = 0;
+      while (true) {
+        const { rows } = await client.query(`FETCH ${POLL_BATCH_SIZE} FROM export_polls`);
+        if (rows.length === 0) {
+          break;
+        }
+
+        for (const row of rows) {
+          const poll: ExportedPoll = {
+            record_type: 'poll',
+            poll_id: row.id,
+            question: row.question,
+            poll_type: row.poll_type,
+            created_by: row.created_by,
+            created_at: new Date(row.created_at).toISOString(),
+            expired_at: new Date(row.expired_at).toISOString(),
+            total_votes: parseInt(row.total_votes)
+          };
+          await write(poll);
+          await this.exportOptions(client, poll.poll_id, write);
+
+          const { ballots } = query;
+          if (ballots === 'all' || (typeof ballots === 'object' && ballots.owner === poll.created_by)) {
+            await this.exportBallots(client, poll.poll_id, write);
+          }
+          exported++;
+        }
+      }
+
+      await client.query('CLOSE export_polls');
+      return exported;
+    });
+  }
+
+  /**
+   * Writes the vote totals of a poll's options
+   * @param {PoolClient} client - Database client of the export transaction
+   * @param {string} pollId - Unique identifier of the poll
+   * @param {Function} write - Receives each record
+   */
+  private async exportOptions(
+    client: PoolClient,
+    pollId: string,
+    write: (record: ExportRecord) => Promise<void>
+  ): Promise<void> {
+    const { rows } = await client.query(
+      `SELECT po.id, po.option_text, COALESCE(ovc.vote_count, 0) as vote_count
+        FROM ${TableNames.OPTIONS} po
+        LEFT JOIN ${TableNames.OPTION_VOTE_COUNTERS} ovc ON ovc.option_id = po.id
+        WHERE po.poll_id = $1
+        ORDER BY po.created_at, po.id`,
+      [pollId]
+    );
+    for (const row of rows) {
+      await write({
+        record_type: 'option',
+        poll_id: pollId,
+        option_id: row.id,
+        option_text: row.option_text,
+        vote_count: parseInt(row.vote_count)
+      });
+    }
+  }
+
+  /**
+   * Streams the ballots of a poll in the order they were cast
+   * @param {PoolClient} client - Database client of the export transaction
+   * @param {string} pollId - Unique identifier of the poll
+   * @param {Function} write - Receives each record
+   */
+  private async exportBallots(
+    client: PoolClient,
+    pollId: string,
+    write: (record: ExportRecord) => Promise<void>
+  ): Promise<void> {
+    await client.query(
+      `DECLARE export_ballots NO SCROLL CURSOR FOR
+        SELECT v.id, v.user_id, v.created_at,
+          COALESCE(
+            (SELECT array_agg(bc.option_id ORDER BY bc.position)
+              FROM ${TableNames.BALLOT_CHOICES} bc WHERE bc.vote_id = v.id),
+            ARRAY[v.option_id]
+          ) as option_ids
+        FROM ${TableNames.VOTES} v
+        WHERE v.poll_id = $1
+        ORDER BY v.created_at, v.id`,
+      [pollId]
+    );
+
+    while (true) {
+      const { rows } = await client.query(`FETCH ${BALLOT_BATCH_SIZE} FROM export_ballots`);
+      if (rows.length === 0) {
+        break;
+      }
+      for (const row of rows) {
+        await write({
+          record_type: 'ballot',
+          poll_id: pollId,
+          vote_id: row.id,
+          user_id: row.user_id,
+          option_ids: row.option_ids,
+          voted_at: new Date(row.created_at).toISOString()
+        });
+      }
+    }
+
+    await client.query('CLOSE export_ballots');
+  }
+}
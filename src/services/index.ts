@@ -1,25 +1,8 @@
-class PollService {
-    constructor() {
-        // Initialize any necessary properties or dependencies here
-    }
-
-    async fetchPolls() {
-        // Logic to fetch polls from the database
-    }
-
-    async createPoll(pollData) {
-        // Logic to create a new poll
-    }
-
-    async updatePoll(pollId, pollData) {
-        // Logic to update an existing poll
-    }
-
-    async deletePoll(pollId) {
-        // Logic to delete a poll
-    }
-
-    // Additional business logic methods related to polls can be added here
-}
-
-export default PollService;
\ No newline at end of file
+export { ExportService } from './exportService';
+export { KafkaService } from './kafkaService';
+export { LeaderboardService } from './leaderboardService';
+export { OperationService } from './operationService';
+export { PollService } from './pollService';
+export { RateLimitService } from './rateLimitService';
+export { VoteService } from './voteService';
+export { WebSocketService } from './websocketService';
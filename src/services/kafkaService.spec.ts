@@ -0,0 +1,277 @@
+import { randomUUID } from 'crypto';
+import { CountedPollResult, LeaderboardResult } from '../models/poll';
+import { FanOutMessage } from '../models/websocket';
+import { MemoryBroker, MemoryBus } from '../bus';
+import { KafkaError } from '../utils/errorHandler';
+import { KafkaService } from './kafkaService';
+import { OperationService } from './operationService';
+import { PollService } from './pollService';
+import { VoteService } from './voteService';
+
+process.env.STORE_DRIVER = 'memory';
+
+/**
+ * Runs the command flow of the service on the in-memory bus and store, without Kafka or Postgres
+ */
+describe('KafkaService on the in-memory bus', () => {
+  let broker: MemoryBroker;
+  let kafkaService: KafkaService;
+  // Shares the process-wide in-memory store with the services of the consumer
+  const pollService = new PollService();
+
+  beforeAll(async () => {
+    broker = new MemoryBroker();
+    kafkaService = new KafkaService(undefined, new MemoryBus(broker));
+    await kafkaService.start();
+  });
+
+  afterAll(async () => {
+    await kafkaService.disconnect();
+  });
+
+  it('applies poll and vote commands and replies with their outcome', async () => {
+    const createId = await kafkaService.pollProducerActivity({
+      question: `Bus question ${randomUUID()}`,
+      options: ['Yes', 'No'],
+      expired_at: new Date(Date.now() + 60 * 60 * 1000)
+    });
+    const created = await kafkaService.waitForReply(createId, 5000);
+    expect(created?.status).toBe('applied');
+    const { id, optionIds } = created?.result as { id: string; optionIds: string[] };
+
+    const voteId = await kafkaService.voteProducerActivity({ poll_id: id, user_id: 'alice', option_id: optionIds[1] });
+    expect((await kafkaService.waitForReply(voteId, 5000))?.status).toBe('applied');
+
+    const results = await pollService.getPollResults(id) as CountedPollResult;
+    expect(results.options.find(option => option.option_id === optionIds[1])?.vote_count).toBe(1);
+  });
+
+  it('rejects commands breaking business rules without dead-lettering them', async () => {
+    const operationId = await kafkaService.voteProducerActivity({
+      poll_id: randomUUID(),
+      user_id: 'bob',
+      option_id: randomUUID()
+    });
+    const reply = await kafkaService.waitForReply(operationId, 5000);
+
+    expect(reply).toMatchObject({ status: 'rejected', reason: 'Poll does not exist', code: 'not_found' });
+    expect(await kafkaService.readDeadLetters()).toHaveLength(0);
+  });
+
+  it('dead-letters commands it cannot process and replays them', async () => {
+    const event = {
+      id: randomUUID(),
+      type: 'vote.cast',
+      version: 99,
+      occurred_at: new Date().toISOString(),
+      payload: { poll_id: randomUUID(), user_id: 'bob', option_id: randomUUID() }
+    };
+    await new MemoryBus(broker).produce('polling-updates', [{ key: event.payload.poll_id, value: JSON.stringify(event) }]);
+
+    /**
+     * Waits until the dead-letter topic holds a number of entries
+     */
+    const deadLetters = async (count: number) => {
+      const deadline = Date.now() + 5000;
+      while ((await kafkaService.readDeadLetters()).length < count && Date.now() < deadline) {
+        await new Promise(resolve => setTimeout(resolve, 10));
+      }
+      return kafkaService.readDeadLetters();
+    };
+
+    const [entry] = await deadLetters(1);
+    expect(entry).toMatchObject({
+      error: 'Unsupported event vote.cast version 99',
+      attempts: 1,
+      original_topic: 'polling-updates'
+    });
+    expect(JSON.parse(entry.value).id).toBe(event.id);
+
+    await kafkaService.replayDeadLetter(entry.partition, entry.offset);
+    expect(await deadLetters(2)).toHaveLength(2);
+  });
+
+  it('skips redelivered commands whose operation already has an outcome', async () => {
+    const createId = await kafkaService.pollProducerActivity({
+      question: `Redelivery question ${randomUUID()}`,
+      options: ['Yes', 'No'],
+      expired_at: new Date(Date.now() + 60 * 60 * 1000)
+    });
+    const { id, optionIds } = (await kafkaService.waitForReply(createId, 5000))?.result as { id: string; optionIds: string[] };
+    const voteId = await kafkaService.voteProducerActivity({ poll_id: id, user_id: 'erin', option_id: optionIds[0] });
+    expect((await kafkaService.waitForReply(voteId, 5000))?.status).toBe('applied');
+
+    // Delivers the vote again, as Kafka may after a rebalance
+    const bus = new MemoryBus(broker);
+    const [original] = (await bus.readTopic('polling-updates'))
+      .filter(message => message.value !== null && JSON.parse(message.value).id === voteId);
+    await bus.produce('polling-updates', [{ key: original.key, value: original.value, headers: original.headers }]);
+
+    // Commands of one poll are processed in order, so the redelivered vote is done once a later one is
+    const laterId = await kafkaService.voteProducerActivity({ poll_id: id, user_id: 'frank', option_id: optionIds[0] });
+    expect((await kafkaService.waitForReply(laterId, 5000))?.status).toBe('applied');
+
+    expect(await new OperationService().getOperation(voteId)).toMatchObject({ status: 'applied' });
+    expect((await pollService.getPollResults(id) as CountedPollResult).total_votes).toBe(2);
+  });
+
+  it('applies a keyed command replayed after it failed for a reason other than a business rule', async () => {
+    const createId = await kafkaService.pollProducerActivity({
+      question: `Replay question ${randomUUID()}`,
+      options: ['Yes', 'No'],
+      expired_at: new Date(Date.now() + 60 * 60 * 1000)
+    });
+    const { id, optionIds } = (await kafkaService.waitForReply(createId, 5000))?.result as { id: string; optionIds: string[] };
+    const operationService = new OperationService();
+
+    /**
+     * Waits until a condition holds or five seconds have passed
+     */
+    const eventually = async (condition: () => Promise<boolean>) => {
+      const deadline = Date.now() + 5000;
+      while (!(await condition()) && Date.now() < deadline) {
+        await new Promise(resolve => setTimeout(resolve, 10));
+      }
+    };
+
+    const failure = jest.spyOn(VoteService.prototype, 'recordVote').mockRejectedValueOnce(new Error('Connection lost'));
+    let voteId: string;
+    try {
+      voteId = await kafkaService.voteProducerActivity(
+        { poll_id: id, user_id: 'grace', option_id: optionIds[1] },
+        'cast',
+        { idempotencyKey: `vote-${randomUUID()}`, idempotencyScope: 'user:grace' }
+      );
+      expect(await kafkaService.waitForReply(voteId, 5000)).toMatchObject({ status: 'rejected', reason: 'Connection lost' });
+    } finally {
+      failure.mockRestore();
+    }
+
+    const isVote = (value: string) => JSON.parse(value).id === voteId;
+    await eventually(async () => (await kafkaService.readDeadLetters()).some(entry => isVote(entry.value)));
+    const entry = (await kafkaService.readDeadLetters()).find(candidate => isVote(candidate.value));
+    await kafkaService.replayDeadLetter(entry!.partition, entry!.offset);
+
+    await eventually(async () => (await operationService.getOperation(voteId))?.status === 'applied');
+    expect(await operationService.getOperation(voteId)).toMatchObject({ status: 'applied', reason: null });
+    const results = await pollService.getPollResults(id) as CountedPollResult;
+    expect(results.options.find(option => option.option_id === optionIds[1])?.vote_count).toBe(1);
+  });
+
+  it('updates the leaderboard with votes stored after a flush ran', async () => {
+    const createId = await kafkaService.pollProducerActivity({
+      question: `Leaderboard question ${randomUUID()}`,
+      options: ['Yes', 'No'],
+      expired_at: new Date(Date.now() + 60 * 60 * 1000)
+    });
+    const { id, optionIds } = (await kafkaService.waitForReply(createId, 5000))?.result as { id: string; optionIds: string[] };
+    for (const user of ['heidi', 'ivan']) {
+      const voteId = await kafkaService.voteProducerActivity({ poll_id: id, user_id: user, option_id: optionIds[0] });
+      expect((await kafkaService.waitForReply(voteId, 5000))?.status).toBe('applied');
+    }
+
+    /**
+     * Reads the vote count of the option on the latest broadcast leaderboard
+     */
+    const broadcastCount = async () => {
+      let latest: LeaderboardResult | undefined;
+      for (const message of await new MemoryBus(broker).readTopic('polling-broadcasts')) {
+        const update: FanOutMessage = JSON.parse(message.value ?? 'null');
+        if (update?.type === 'LEADERBOARD_UPDATE') {
+          latest = update.data;
+        }
+      }
+      return latest?.data.find(option => option.option_id === optionIds[0])?.vote_count;
+    };
+
+    // Holds the third vote until a flush has run, as a slow transaction would
+    let release!: () => void;
+    const held = new Promise<void>(resolve => release = resolve);
+    const recordVote = VoteService.prototype.recordVote;
+    const hold = jest.spyOn(VoteService.prototype, 'recordVote').mockImplementationOnce(async function (this: VoteService, vote) {
+      await held;
+      return recordVote.call(this, vote);
+    });
+    try {
+      const voteId = await kafkaService.voteProducerActivity({ poll_id: id, user_id: 'judy', option_id: optionIds[0] });
+      await new Promise(resolve => setTimeout(resolve, 1500));
+      expect(await broadcastCount()).toBe(2);
+
+      release();
+      expect((await kafkaService.waitForReply(voteId, 5000))?.status).toBe('applied');
+    } finally {
+      hold.mockRestore();
+    }
+
+    const deadline = Date.now() + 5000;
+    while (await broadcastCount() !== 3 && Date.now() < deadline) {
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }
+    expect(await broadcastCount()).toBe(3);
+  });
+
+  it('skips malformed replies', async () => {
+    await new MemoryBus(broker).produce('polling-replies', [{ value: 'not json' }, { value: 'null' }]);
+
+    const operationId = await kafkaService.pollProducerActivity({
+      question: `Reply question ${randomUUID()}`,
+      options: ['Yes', 'No'],
+      expired_at: new Date(Date.now() + 60 * 60 * 1000)
+    });
+    expect((await kafkaService.waitForReply(operationId, 5000))?.status).toBe('applied');
+  });
+
+  it('keeps the idempotency keys of different callers apart', async () => {
+    const idempotencyKey = `vote-${randomUUID()}`;
+    const vote = (user_id: string) => ({ poll_id: randomUUID(), user_id, option_id: randomUUID() });
+    const aliceVote = vote('alice');
+
+    const first = await kafkaService.voteProducerActivity(aliceVote, 'cast', { idempotencyKey, idempotencyScope: 'user:alice' });
+    const retried = await kafkaService.voteProducerActivity(aliceVote, 'cast', { idempotencyKey, idempotencyScope: 'user:alice' });
+    const other = await kafkaService.voteProducerActivity(vote('dave'), 'cast', { idempotencyKey, idempotencyScope: 'user:dave' });
+
+    expect(retried).toBe(first);
+    expect(other).not.toBe(first);
+  });
+
+  it('answers retries of rejected keyed commands with the original error code', async () => {
+    const poll = {
+      question: `Retried question ${randomUUID()}`,
+      options: ['Yes', 'No'],
+      expired_at: new Date(Date.now() + 60 * 60 * 1000)
+    };
+    expect((await kafkaService.waitForReply(await kafkaService.pollProducerActivity(poll), 5000))?.status).toBe('applied');
+
+    const options = { idempotencyKey: `poll-${randomUUID()}`, idempotencyScope: 'user:heidi' };
+    const duplicateId = await kafkaService.pollProducerActivity(poll, options);
+    expect(await kafkaService.waitForReply(duplicateId, 5000)).toMatchObject({ status: 'rejected', code: 'conflict' });
+
+    // The retry finds the operation already rejected, so its reply is read back from the operation
+    const retriedId = await kafkaService.pollProducerActivity(poll, options);
+    expect(retriedId).toBe(duplicateId);
+    expect(await kafkaService.waitForReply(retriedId, 5000)).toMatchObject({ status: 'rejected', code: 'conflict' });
+    expect(await new OperationService().getOperation(retriedId)).toMatchObject({ code: 'conflict' });
+  });
+
+  it('rejects commands that cannot be queued and releases their idempotency key', async () => {
+    // A broker without topics fails every send
+    const offline = new KafkaService(undefined, new MemoryBus(new MemoryBroker()));
+    const abandon = jest.spyOn(OperationService.prototype, 'abandonOperation');
+    const vote = { poll_id: randomUUID(), user_id: 'carol', option_id: randomUUID() };
+    const options = { idempotencyKey: `vote-${randomUUID()}`, idempotencyScope: 'user:carol' };
+
+    try {
+      await expect(offline.voteProducerActivity(vote, 'cast', options)).rejects.toThrow(KafkaError);
+      const [operationId] = abandon.mock.calls[0];
+      expect(await new OperationService().getOperation(operationId)).toMatchObject({
+        status: 'rejected',
+        code: 'message_queue_unavailable'
+      });
+
+      expect(await kafkaService.voteProducerActivity(vote, 'cast', options)).not.toBe(operationId);
+    } finally {
+      abandon.mockRestore();
+      await offline.disconnect();
+    }
+  });
+});
@@ -1,322 +1,851 @@
-import { Kafka, Admin, Producer, Consumer, Partitioners } from 'kafkajs';
+import { randomUUID } from 'crypto';
 import dotenv from 'dotenv';
-import { CreatePollDTO, LeaderboardResult } from '../models/poll';
-import { CreateVoteDTO } from '../models/vote';
+import { CreatePollDTO, PollAction, UpdatePollDTO } from '../models/poll';
+import { CreateVoteDTO, RetractVoteDTO, VoteAction } from '../models/vote';
+import { CommandOptions, Operation, OperationReply, OperationState, OperationType } from '../models/operation';
+import { PollingEvent } from '../models/events';
+import { DeadLetter } from '../models/deadLetter';
+import { FanOutMessage } from '../models/websocket';
+import { BusMessage, MessageBus, Subscription } from '../models/messageBus';
+import { createPollSchema, createVoteSchema, retractVoteSchema, updatePollSchema } from '../models/schemas';
+import { KafkaError, errorCode, isDomainError } from '../utils/errorHandler';
+import { isTransientError, withRetry } from '../utils/retry';
+import { hashRequest } from '../utils/idempotency';
+import { validate } from '../utils/schema';
+import { createMessageBus } from '../bus';
+import { OperationService } from './operationService';
+import { EventDispatcher, createEvent, isEventEnvelope } from './eventDispatcher';
 import { PollService } from './pollService';
 import { VoteService } from './voteService';
 import { WebSocketService } from './websocketService';
+import { LeaderboardAggregator } from './leaderboardAggregator';
 import { LeaderboardService } from './leaderboardService';
 
 dotenv.config();
 
+/** Topic carrying poll and vote commands */
+const UPDATES_TOPIC = 'polling-updates';
+
+/** Number of partitions of the updates topic when it is created */
+const UPDATES_PARTITIONS = parseInt(process.env.KAFKA_UPDATES_PARTITIONS || '6', 10);
+
+/** Number of updates topic partitions a consumer processes in parallel */
+const CONSUMER_CONCURRENCY = parseInt(process.env.KAFKA_CONSUMER_CONCURRENCY || '3', 10);
+
+/** Topic carrying command outcomes back to the instance that produced them */
+const REPLIES_TOPIC = 'polling-replies';
+
+/** Topic relaying WebSocket updates to every app instance */
+const BROADCAST_TOPIC = 'polling-broadcasts';
+
+/** Topic holding commands that could not be processed */
+const DLQ_TOPIC = `${UPDATES_TOPIC}.dlq`;
+
+/** Attempts made at a command failing with transient errors before it is dead-lettered */
+const MAX_PROCESSING_ATTEMPTS = parseInt(process.env.KAFKA_MAX_PROCESSING_ATTEMPTS || '5', 10);
+
+/** Backoff before the first retry of a command, doubled for each further retry */
+const RETRY_INITIAL_DELAY_MS = parseInt(process.env.KAFKA_RETRY_INITIAL_DELAY_MS || '500', 10);
+
+/** Maximum time to spend reading the dead-letter topic */
+const DLQ_READ_TIMEOUT_MS = 30000;
+
+/** Maximum time for the consumers to join their groups at startup */
+const STARTUP_TIMEOUT_MS = parseInt(process.env.KAFKA_STARTUP_TIMEOUT_MS || '60000', 10);
+
 /**
- * Service for managing Kafka messaging operations including poll creation and voting
+ * Converts a message of the dead-letter topic into a DeadLetter entry
+ * @param message - Dead-letter message
+ * @returns The dead-letter entry
+ */
+const toDeadLetter = ({ partition, offset, key, value, headers }: BusMessage): DeadLetter => ({
+  partition,
+  offset,
+  key,
+  value: value ?? '',
+  error: headers['x-error'] ?? '',
+  attempts: parseInt(headers['x-attempts'] || '0', 10),
+  original_topic: headers['x-original-topic'] ?? '',
+  original_partition: parseInt(headers['x-original-partition'] ?? '', 10),
+  original_offset: headers['x-original-offset'] ?? '',
+  failed_at: headers['x-failed-at'] ?? ''
+});
+
+/**
+ * Builds the reply of a command from the outcome stored on its operation
+ * @param operation - Operation of the command
+ * @param status - Outcome of the operation
+ * @returns Reply carrying the stored outcome
+ */
+const replyOf = (operation: Operation, status: Exclude<OperationState, 'pending'>): OperationReply => ({
+  correlation_id: operation.id,
+  status,
+  result: operation.result ?? undefined,
+  reason: operation.reason ?? undefined,
+  code: operation.code ?? undefined,
+  operation
+});
+
+/**
+ * Service for managing Kafka messaging operations including poll creation and voting.
+ * Messages travel over a `MessageBus`, so the service also runs on the in-memory bus without Kafka.
  */
 export class KafkaService {
-  private kafka: Kafka;
-  private admin: Admin;
-  private pollProducer: Producer;
-  private voteProducer: Producer;
-  private consumer: Consumer;
-  private leaderboardConsumer: Consumer;
+  private replyConsumerReady?: Promise<void>;
+  private started?: Promise<void>;
+  private operationService = new OperationService();
+  private pollService = new PollService();
+  private leaderboardService = new LeaderboardService();
+  private leaderboardAggregator = new LeaderboardAggregator(
+    leaderboard => this.publishBroadcast({ type: 'LEADERBOARD_UPDATE', data: leaderboard }),
+    () => this.publishBroadcast({ type: 'LEADERBOARD_CHANGED' }),
+    this.leaderboardService
+  );
+  private dispatcher = this.createDispatcher();
+  private replyWaiters = new Map<string, (reply: OperationReply) => void>();
+
+  /** Unique ID of this app instance, used to give it its own reply and broadcast consumer groups */
+  public readonly instanceId: string = process.env.INSTANCE_ID || randomUUID();
 
   /**
-   * Initializes Kafka clients with configuration from environment variables
+   * @param websocketService - WebSocket service used to notify clients about their processed commands
+   * @param bus - Transport of commands, replies and broadcasts, by default the one selected by `BUS_DRIVER`
    */
-  constructor() {
-    this.kafka = new Kafka({
-      clientId: process.env.KAFKA_CLIENT_ID || 'polling-app',
-      brokers: (process.env.KAFKA_BROKERS || 'localhost:9092').split(','),
-      retry: {
-        initialRetryTime: 100,
-        retries: 8
-      }
-    });
+  constructor(
+    private websocketService?: WebSocketService,
+    private bus: MessageBus = createMessageBus()
+  ) {}
 
-    this.admin = this.kafka.admin({
-      retry: {
-        initialRetryTime: 1000,
-        retries: 10
-      }
+  /**
+   * Creates the topics of the service that do not exist yet
+   */
+  async adminActivity(): Promise<void> {
+    await this.bus.ensureTopics([
+      { topic: UPDATES_TOPIC, partitions: UPDATES_PARTITIONS },
+      { topic: REPLIES_TOPIC, partitions: 1 },
+      { topic: BROADCAST_TOPIC, partitions: 1 },
+      { topic: DLQ_TOPIC, partitions: 1 }
+    ]);
+  }
+
+  /**
+   * Produces poll creation events to Kafka.
+   * The event ID is the ID of its operation record, so the consumer's outcome
+   * can be awaited with `waitForReply` or looked up later.
+   * @param data - Poll creation data
+   * @param options - Client to notify and idempotency key of the request
+   * @returns Operation ID of the queued command, or of the original request if the idempotency key was seen before
+   * @throws {IdempotencyConflictError} If the idempotency key was used for a different request
+   * @throws {KafkaError} If the command cannot be queued; its operation is then rejected
+   */
+  async pollProducerActivity(data: CreatePollDTO, options: CommandOptions = {}): Promise<string> {
+    await this.ensureReplyConsumer();
+
+    const payload = this.pollCreatePayload(data);
+    const { id: operationId, replayed } = await this.createOperation('poll.create', payload, options);
+    if (replayed) {
+      return operationId;
     }
-    );
-
-    this.pollProducer = this.kafka.producer({
-      allowAutoTopicCreation: false,
-      transactionTimeout: 30000,
-      createPartitioner: Partitioners.LegacyPartitioner,
-      retry: {
-        initialRetryTime: 1000,
-        retries: 5
-      }
-    });
 
-    this.voteProducer = this.kafka.producer({
-      allowAutoTopicCreation: false,
-      transactionTimeout: 30000,
-      createPartitioner: Partitioners.LegacyPartitioner,
-      retry: {
-        initialRetryTime: 1000,
-        retries: 5
-      }
-    });
+    // The poll ID does not exist yet, so creations are spread across partitions by event ID
+    const event = createEvent('poll.create', payload, operationId, options.idempotencyKey);
+    await this.produceEvent(event, event.id);
 
-    this.consumer = this.kafka.consumer({
-      groupId: 'create-consumer-group',
-      sessionTimeout: 30000,
-      heartbeatInterval: 3000,
-      maxWaitTimeInMs: 500,
-      retry: {
-        initialRetryTime: 1000,
-        retries: 5
-      }
-    });
+    return operationId;
+  }
 
-    this.leaderboardConsumer = this.kafka.consumer({
-      groupId: 'result-consumer-group',
-      sessionTimeout: 30000,
-      heartbeatInterval: 3000,
-      maxWaitTimeInMs: 500,
-      retry: {
-        initialRetryTime: 1000,
-        retries: 5
+  /**
+   * Produces the creation events of several polls to Kafka in a single batch, each with an
+   * operation record of its own. The consumer processes them independently, so some polls may be
+   * created while others are rejected.
+   * @param polls - Poll creation data
+   * @param options - Client to notify about each processed poll
+   * @returns Operation IDs of the queued commands, in the order of the polls
+   * @throws {KafkaError} If the commands cannot be queued; their operations are then rejected
+   */
+  async pollBatchProducerActivity(
+    polls: CreatePollDTO[],
+    options: Omit<CommandOptions, 'idempotencyKey'> = {}
+  ): Promise<string[]> {
+    const events: PollingEvent[] = [];
+    for (const data of polls) {
+      const payload = this.pollCreatePayload(data);
+      const { id: operationId } = await this.createOperation('poll.create', payload, options);
+      events.push(createEvent('poll.create', payload, operationId));
+    }
+
+    await this.produceEvents(events.map(event => ({ event, key: event.id })));
+    return events.map(event => event.id);
+  }
+
+  /**
+   * Builds the payload of a poll creation event
+   * @param data - Poll creation data
+   * @returns Event payload with the expiration date serialized
+   */
+  private pollCreatePayload(data: CreatePollDTO) {
+    const expiredAt = data.expired_at instanceof Date
+      ? data.expired_at.toISOString()
+      : data.expired_at;
+
+    return {
+      question: data.question,
+      options: data.options,
+      expired_at: expiredAt,
+      poll_type: data.poll_type,
+      min_selections: data.min_selections,
+      max_selections: data.max_selections,
+      allow_vote_change: data.allow_vote_change,
+      created_by: data.created_by
+    };
+  }
+
+  /**
+   * Produces poll update, close and delete events to Kafka, keyed by poll ID
+   * @param action - Lifecycle change to apply to the poll
+   * @param pollId - ID of the poll to change
+   * @param data - Fields to change (updates only)
+   * @param options - Client to notify and idempotency key of the request
+   * @returns Operation ID of the queued command
+   * @throws {IdempotencyConflictError} If the idempotency key was used for a different request
+   * @throws {KafkaError} If the command cannot be queued; its operation is then rejected
+   */
+  async pollLifecycleProducerActivity(
+    action: Exclude<PollAction, 'create'>,
+    pollId: string,
+    data: UpdatePollDTO = {},
+    options: CommandOptions = {}
+  ): Promise<string> {
+    await this.ensureReplyConsumer();
+
+    const payload = action === 'update'
+      ? {
+        poll_id: pollId,
+        requested_by: options.requestedBy,
+        question: data.question,
+        remarks: data.remarks,
+        expired_at: data.expired_at instanceof Date ? data.expired_at.toISOString() : data.expired_at
       }
-    });
+      : { poll_id: pollId, requested_by: options.requestedBy };
+
+    const { id: operationId, replayed } = await this.createOperation(`poll.${action}`, payload, options);
+    if (replayed) {
+      return operationId;
+    }
+
+    const event = action === 'update'
+      ? createEvent('poll.update', payload, operationId, options.idempotencyKey)
+      : createEvent(`poll.${action}`, payload, operationId, options.idempotencyKey);
+
+    await this.produceEvent(event, pollId);
+
+    return operationId;
   }
 
   /**
-   * Connects to Kafka admin client and ensures required topics exist
-   * @throws {Error} If connection or topic creation fails
+   * Produces vote events to Kafka, keyed by poll ID so votes of one poll stay in order
+   * @param data - Vote data
+   * @param action - Whether the event casts, changes or retracts the vote (default: 'cast')
+   * @param options - Client to notify and idempotency key of the request
+   * @returns Operation ID of the queued command, or of the original request if the idempotency key was seen before
+   * @throws {IdempotencyConflictError} If the idempotency key was used for a different request
+   * @throws {KafkaError} If the command cannot be queued; its operation is then rejected
    */
-  async adminActivity(): Promise<void> {
-    await this.admin.connect().then(() => {
-      console.log('Kafka admin connection successful');
-    }).catch(error => {
-      console.error('Failed to connect to Kafka admin:', error);
-    });
+  async voteProducerActivity(
+    data: CreateVoteDTO | RetractVoteDTO,
+    action: VoteAction = 'cast',
+    options: CommandOptions = {}
+  ): Promise<string> {
+    await this.ensureReplyConsumer();
+
+    const payload = {
+      poll_id: data.poll_id,
+      option_id: 'option_id' in data ? data.option_id : undefined,
+      option_ids: 'option_ids' in data ? data.option_ids : undefined,
+      ranking: 'ranking' in data ? data.ranking : undefined,
+      user_id: data.user_id
+    };
+
+    const { id: operationId, replayed } = await this.createOperation(`vote.${action}`, payload, options);
+    if (replayed) {
+      return operationId;
+    }
+
+    const event = action === 'retract'
+      ? createEvent('vote.retract', { poll_id: data.poll_id, user_id: data.user_id }, operationId, options.idempotencyKey)
+      : createEvent(`vote.${action}`, payload, operationId, options.idempotencyKey);
+
+    await this.produceEvent(event, data.poll_id);
 
+    return operationId;
+  }
+
+  /**
+   * Records the operation of a command about to be produced, deduplicating by idempotency key
+   * @param type - Kind of command
+   * @param payload - Command payload, fingerprinted to detect reuse of a key for a different request
+   * @param options - Client to notify and idempotency key of the request
+   * @returns Operation ID and whether it belongs to an earlier request with the same key
+   * @throws {IdempotencyConflictError} If the idempotency key was used for a different request
+   */
+  private createOperation(
+    type: OperationType,
+    payload: object,
+    options: CommandOptions
+  ): Promise<{ id: string; replayed: boolean }> {
+    const idempotency = options.idempotencyKey
+      ? { scope: options.idempotencyScope ?? '', key: options.idempotencyKey, requestHash: hashRequest(type, payload) }
+      : undefined;
+    return this.operationService.createOperation(type, options.clientId, idempotency);
+  }
+
+  /**
+   * Sends an event to the updates topic. Events with the same key land on the same partition,
+   * which keeps the changes of one poll in order while different polls spread across partitions.
+   * @param event - Event to send
+   * @param key - Partitioning key
+   * @throws {KafkaError} If the event cannot be sent
+   */
+  private async produceEvent(event: PollingEvent, key: string): Promise<void> {
+    await this.produceEvents([{ event, key }]);
+  }
+
+  /**
+   * Sends events to the updates topic in a single request. If they cannot be sent, their
+   * operations are rejected rather than left pending, as no consumer will ever process them.
+   * @param events - Events to send with their partitioning keys
+   * @throws {KafkaError} If the events cannot be sent
+   */
+  private async produceEvents(events: { event: PollingEvent; key: string }[]): Promise<void> {
     try {
-      const topics: string[] | undefined | null = await this.admin.listTopics();
-      console.log('Available Kafka topics:', topics);
-
-      if (!topics || !topics.includes('polling-updates')) {
-        await this.admin.createTopics({
-          topics: [
-            {
-              topic: 'polling-updates',
-              numPartitions: 2
-            }
-          ]
-        }).then(() => {
-          console.log('Created Kafka topic: polling-updates');
-        }).catch(error => {
-          console.error('Failed to create Kafka topic: polling-updates', error);
+      await this.bus.produce(UPDATES_TOPIC, events.map(({ event, key }) => ({
+        key,
+        value: JSON.stringify(event),
+        headers: {
+          'event-type': event.type,
+          'event-version': String(event.version)
+        }
+      })));
+    } catch (error) {
+      console.error(`Failed to send message to Kafka topic: ${UPDATES_TOPIC}`, error);
+      const reason = 'Command could not be queued';
+      const failure = error instanceof KafkaError
+        ? error
+        : new KafkaError(`${reason}: ${error instanceof Error ? error.message : String(error)}`);
+      for (const { event } of events) {
+        await this.operationService.abandonOperation(event.id, reason, errorCode(failure)).catch(abandonError => {
+          console.error(`Failed to reject operation ${event.id}:`, abandonError);
         });
+      }
+      throw failure;
+    }
+
+    for (const { event } of events) {
+      console.log(`Sent ${event.type} event to Kafka topic: ${UPDATES_TOPIC}`);
+    }
+  }
+
+  /**
+   * Consumes events from Kafka and processes poll and vote commands.
+   * Partitions are consumed concurrently; events of one poll share a partition and stay in order.
+   * Commands failing with transient database errors are retried with backoff. Commands breaking a
+   * business rule are rejected and their offset committed, as processing them again would fail the
+   * same way; messages that still fail otherwise, are not valid event envelopes or have an
+   * unsupported type or version are moved to the dead-letter topic. Replaying them from there
+   * reopens their operation, so they are processed again.
+   * @returns The subscription of the consumer group
+   * @throws {KafkaError} If the consumer cannot connect or subscribe
+   */
+  async consumerActivity(): Promise<Subscription> {
+    return this.bus.subscribe({
+      groupId: 'create-consumer-group',
+      topic: UPDATES_TOPIC,
+      fromBeginning: true,
+      concurrency: CONSUMER_CONCURRENCY
+    }, {
+      eachMessage: async message => {
+        const { topic, partition } = message;
+        if (message.value === null) {
+          console.log(`Received null message from ${topic}`);
+          return;
+        }
 
-        await this.admin.fetchTopicMetadata({
-          topics: ['polling-updates']
-        }).then(metadata => {
-          console.log('Metadata for polling-updates:', metadata);
-        }).catch(error => {
-          console.error('Failed to fetch metadata for polling-updates:', error);
+        let event: unknown;
+        try {
+          event = JSON.parse(message.value);
+        } catch (error) {
+          console.error(`Received malformed message from ${topic} at offset ${message.offset}:`, error);
+          await this.deadLetter(message, error, 1);
+          return;
+        }
+
+        if (!isEventEnvelope(event)) {
+          console.error(`Received message without event envelope from ${topic} at offset ${message.offset}`);
+          await this.deadLetter(message, new Error('Message is not an event envelope'), 1);
+          return;
+        }
+
+        // A command replayed from the dead-letter topic failed for a reason other than a business
+        // rule, so its rejection is undone and it is processed again
+        const operationId = event.id;
+        if (message.headers['x-replayed-from']) {
+          await this.operationService.reopenOperation(operationId).catch(error => {
+            console.error(`Failed to reopen operation ${operationId}:`, error);
+          });
+        }
+
+        // A redelivered event whose operation already has an outcome gets that outcome again
+        const operation = await this.operationService.getOperation(operationId).catch(error => {
+          console.error(`Failed to look up operation ${operationId}:`, error);
+          return null;
         });
+        if (operation && operation.status !== 'pending') {
+          console.log(`Skipping already processed ${event.type} event ${event.id}`);
+          await this.publishReply(replyOf(operation, operation.status));
+          return;
+        }
+
+        let attempts = 0;
+        try {
+          console.log(`Processing ${event.type} event ${event.id} from partition ${partition}`);
+          const result = await withRetry(attempt => {
+            attempts = attempt;
+            return this.dispatcher.dispatch(event as PollingEvent);
+          }, {
+            maxAttempts: MAX_PROCESSING_ATTEMPTS,
+            initialDelayMs: RETRY_INITIAL_DELAY_MS,
+            shouldRetry: isTransientError
+          });
+          console.log(`Processed ${event.type} event ${event.id}:`, result);
+          await this.completeOperation(event.id, 'applied', { result });
+          if (event.type.startsWith('vote.') && 'poll_id' in event.payload) {
+            await this.publishBroadcast({ type: 'POLL_CHANGED', poll_id: event.payload.poll_id });
+          }
+        } catch (error) {
+          console.error(`Failed to process ${event.type} event ${event.id} after ${attempts} attempt(s):`, error);
+          const retryable = !isDomainError(error);
+          await this.completeOperation(event.id, 'rejected', {
+            reason: error instanceof Error ? error.message : 'Unknown error',
+            code: errorCode(error)
+          }, retryable);
+          if (retryable) {
+            await this.deadLetter(message, error, attempts);
+          }
+        }
       }
+    });
+  }
+
+  /**
+   * Pushes the current results of a poll to the WebSocket subscribers of this instance after a vote
+   * was applied. Failures are only logged, as the vote itself has been applied.
+   * @param pollId - ID of the poll the vote was applied to
+   */
+  private async publishPollResults(pollId: string): Promise<void> {
+    if (!this.websocketService?.hasSubscribers(pollId)) {
+      return;
+    }
+
+    try {
+      const result = await this.pollService.getPollResults(pollId);
+      this.websocketService.sendPollResultsUpdate(pollId, result);
     } catch (error) {
-      console.error('Failed to list Kafka topics:', error);
-    } finally {
-      await this.admin.disconnect().then(() => {
-        console.log('Kafka admin disconnected');
-      }).catch(error => {
-        console.error('Failed to disconnect Kafka admin:', error);
-      });
+      console.error(`Failed to publish results of poll ${pollId}:`, error);
     }
   }
 
   /**
-   * Produces poll creation messages to Kafka
-   * @param data - Poll creation data
-   * @throws {Error} If producer connection or message sending fails
+   * Recomputes the leaderboard views the WebSocket clients of this instance subscribed to and
+   * pushes them. Failures are only logged; the next change retries.
    */
-  async pollProducerActivity(data: CreatePollDTO): Promise<void> {
-    await this.pollProducer.connect().then(() => {
-      console.log('Kafka poll producer connection successful');
-    }).catch(error => {
-      console.error('Failed to connect to Kafka poll producer:', error);
-    });
+  private async publishLeaderboardViews(): Promise<void> {
+    if (!this.websocketService) {
+      return;
+    }
 
-    const expiredAt = data.expired_at instanceof Date
-      ? data.expired_at.toISOString()
-      : data.expired_at;
+    for (const view of this.websocketService.subscribedLeaderboardViews()) {
+      try {
+        const result = await this.leaderboardService.getLeaderboardView(view);
+        this.websocketService.sendLeaderboardViewUpdate(result);
+      } catch (error) {
+        console.error('Failed to publish leaderboard view:', error);
+      }
+    }
+  }
 
-    const message = JSON.stringify({
-      question: data.question,
-      options: data.options,
-      expired_at: expiredAt
-    });
+  /**
+   * Builds the dispatcher routing each supported event type and version to its service call.
+   * Payloads are validated with the schemas of the HTTP requests, as events may also come from
+   * other producers or be replayed from the dead-letter topic.
+   * @returns Event dispatcher for the updates topic
+   */
+  private createDispatcher(): EventDispatcher {
+    const pollService = this.pollService;
+    const voteService = new VoteService();
+
+    return new EventDispatcher()
+      .on('poll.create', 1, ({ payload }) => pollService.createPoll(validate(createPollSchema, payload)))
+      .on('poll.update', 1, ({ payload: { poll_id, requested_by, ...pollData } }) => pollService.updatePoll(
+        poll_id,
+        validate(updatePollSchema, pollData),
+        requested_by
+      ))
+      .on('poll.close', 1, ({ payload }) => pollService.closePoll(payload.poll_id, payload.requested_by))
+      .on('poll.delete', 1, ({ payload }) => pollService.deletePoll(payload.poll_id, payload.requested_by))
+      .on('vote.cast', 1, ({ payload }) => voteService.recordVote(validate(createVoteSchema, payload)))
+      .on('vote.change', 1, ({ payload }) => voteService.changeVote(validate(createVoteSchema, payload)))
+      .on('vote.retract', 1, ({ payload }) => voteService.retractVote(validate(retractVoteSchema, payload)));
+  }
 
-    await this.pollProducer.send({
-      topic: 'polling-updates',
-      messages: [
-        {
-          value: message,
-          partition: 0
+  /**
+   * Moves a message that could not be processed to the dead-letter topic,
+   * keeping its key and value and recording why and where it failed in the headers
+   * @param message - The failed message
+   * @param error - Error of the last attempt
+   * @param attempts - Number of processing attempts made
+   */
+  private async deadLetter(message: BusMessage, error: unknown, attempts: number): Promise<void> {
+    const { topic, partition, offset } = message;
+    await this.bus.produce(DLQ_TOPIC, [
+      {
+        key: message.key,
+        value: message.value,
+        headers: {
+          'x-error': error instanceof Error ? error.message : String(error),
+          'x-attempts': String(attempts),
+          'x-original-topic': topic,
+          'x-original-partition': String(partition),
+          'x-original-offset': offset,
+          'x-failed-at': new Date().toISOString()
         }
-      ]
-    }).then(() => {
-      console.log('Sent message to Kafka topic: polling-updates');
-    }).catch(error => {
-      console.error('Failed to send message to Kafka topic: polling-updates', error);
+      }
+    ]).then(() => {
+      console.log(`Dead-lettered message ${topic}/${partition}@${offset}`);
+    }).catch(sendError => {
+      console.error(`Failed to send message to Kafka topic: ${DLQ_TOPIC}`, sendError);
     });
   }
 
   /**
-   * Produces vote messages to Kafka
-   * @param data - Vote data
-   * @throws {Error} If producer connection or message sending fails
+   * Reads every entry currently on the dead-letter topic without joining a lasting consumer group
+   * @returns Dead-letter entries ordered by partition and offset
+   * @throws {KafkaError} If the topic cannot be read in time
    */
-  async voteProducerActivity(data: CreateVoteDTO): Promise<void> {
-    await this.voteProducer.connect().then(() => {
-      console.log('Kafka vote producer connection successful');
-    }).catch(error => {
-      console.error('Failed to connect to Kafka vote producer:', error);
-    });
+  async readDeadLetters(): Promise<DeadLetter[]> {
+    return (await this.bus.readTopic(DLQ_TOPIC, DLQ_READ_TIMEOUT_MS)).map(toDeadLetter);
+  }
 
-    const message = JSON.stringify({
-      poll_id: data.poll_id,
-      option_id: data.option_id,
-      user_id: data.user_id
-    });
+  /**
+   * Produces a dead-lettered message back onto the topic it came from under its original key,
+   * so it lands on the same partition as the other events of its poll
+   * @param partition - Dead-letter topic partition of the entry
+   * @param offset - Dead-letter topic offset of the entry
+   * @returns The replayed entry, or null if no entry exists at that position
+   * @throws {KafkaError} If the dead-letter topic cannot be read
+   */
+  async replayDeadLetter(partition: number, offset: string): Promise<DeadLetter | null> {
+    const entry = (await this.readDeadLetters())
+      .find(deadLetter => deadLetter.partition === partition && deadLetter.offset === offset);
+    if (!entry) {
+      return null;
+    }
 
-    await this.voteProducer.send({
-      topic: 'polling-updates',
-      messages: [
-        {
-          value: message,
-          partition: 1
+    await this.bus.produce(entry.original_topic || UPDATES_TOPIC, [
+      {
+        key: entry.key,
+        value: entry.value,
+        headers: {
+          'x-replayed-from': `${DLQ_TOPIC}/${partition}@${offset}`
         }
-      ]
-    }).then(() => {
-      console.log('Sent message to Kafka topic: polling-updates');
-    }).catch(error => {
-      console.error('Failed to send message to Kafka topic: polling-updates', error);
+      }
+    ]);
+    console.log(`Replayed dead-lettered message ${DLQ_TOPIC}/${partition}@${offset}`);
+
+    return entry;
+  }
+
+  /**
+   * Stores the outcome of a command on its operation record and publishes it to the reply topic.
+   * An operation that already has an outcome keeps it, and that outcome is published instead.
+   * @param correlationId - Operation ID carried by the command, if any
+   * @param status - Whether the command was applied or rejected
+   * @param outcome - Result of an applied command, or reason and error code of a rejected one
+   * @param retryable - Whether a rejected command may still be applied by replaying it from the dead-letter topic
+   */
+  private async completeOperation(
+    correlationId: string | undefined,
+    status: Exclude<OperationState, 'pending'>,
+    outcome: { result?: unknown; reason?: string; code?: string },
+    retryable = false
+  ): Promise<void> {
+    if (!correlationId) {
+      return;
+    }
+
+    let completed: { operation: Operation; clientId: string | null } | null = null;
+    try {
+      completed = await this.operationService.completeOperation(correlationId, status, outcome, retryable);
+    } catch (error) {
+      console.error(`Failed to update operation ${correlationId}:`, error);
+    }
+
+    if (!completed) {
+      const stored = await this.operationService.getOperation(correlationId).catch(() => null);
+      if (stored && stored.status !== 'pending') {
+        await this.publishReply(replyOf(stored, stored.status));
+        return;
+      }
+    }
+
+    await this.publishReply({
+      correlation_id: correlationId,
+      status,
+      ...outcome,
+      client_id: completed?.clientId,
+      operation: completed?.operation
     });
   }
 
   /**
-   * Consumes messages from Kafka and processes poll creation and voting
-   * @throws {Error} If consumer connection, subscription, or message processing fails
+   * Publishes the outcome of a command to the reply topic
+   * @param reply - Outcome of the command
    */
-  async consumerActivity(): Promise<void> {
-    await this.consumer.connect().then(() => {
-      console.log('Kafka consumer connection successful');
-    }).catch(error => {
-      console.error('Failed to connect to Kafka consumer:', error);
+  private async publishReply(reply: OperationReply): Promise<void> {
+    await this.bus.produce(REPLIES_TOPIC, [
+      {
+        key: reply.correlation_id,
+        value: JSON.stringify(reply)
+      }
+    ]).catch(error => {
+      console.error(`Failed to send message to Kafka topic: ${REPLIES_TOPIC}`, error);
     });
+  }
 
-    await this.consumer.subscribe({
-      topic: 'polling-updates',
-      fromBeginning: true
-    }).then(() => {
-      console.log('Subscribed to Kafka topic: polling-updates');
-    }).catch(error => {
-      console.error('Failed to subscribe to Kafka topic: polling-updates', error);
+  /**
+   * Relays an update to every app instance through the broadcast topic
+   * @param message - Update to deliver to WebSocket clients
+   */
+  private async publishBroadcast(message: FanOutMessage): Promise<void> {
+    await this.bus.produce(BROADCAST_TOPIC, [
+      {
+        value: JSON.stringify(message)
+      }
+    ]).catch(error => {
+      console.error(`Failed to send message to Kafka topic: ${BROADCAST_TOPIC}`, error);
     });
+  }
 
-    await this.consumer.run({
-      eachMessage: async ({ topic, partition, message }) => {
-        if (message.value === null) {
-          console.log(`Received null message from ${topic}`);
+  /**
+   * Delivers updates relayed by any app instance to the WebSocket clients of this one.
+   * Only updates published after the consumer joined are delivered; clients catch up by resuming.
+   * @returns The subscription of this instance's consumer group
+   * @throws {KafkaError} If the consumer cannot connect or subscribe
+   */
+  async broadcastConsumerActivity(): Promise<Subscription> {
+    // Every instance delivers every broadcast to its own sockets, so each one gets its own consumer group
+    const subscription = await this.bus.subscribe({
+      groupId: `broadcast-consumer-group-${this.instanceId}`,
+      topic: BROADCAST_TOPIC,
+      fromBeginning: false,
+      maxWaitMs: 100
+    }, {
+      eachMessage: async message => {
+        if (message.value === null || !this.websocketService) return;
+
+        let update: FanOutMessage;
+        try {
+          update = JSON.parse(message.value);
+        } catch (error) {
+          console.error(`Received malformed message from ${BROADCAST_TOPIC} at offset ${message.offset}:`, error);
           return;
         }
 
-        if (partition === 0) {
-          const pollData = JSON.parse(message.value.toString('utf-8'));
-          console.log(`Processing poll creation from partition ${partition}`);
-          const pollService = new PollService();
+        switch (update.type) {
+          case 'LEADERBOARD_UPDATE':
+            this.websocketService.sendLeaderboardUpdate(update.data);
+            break;
+          case 'POLL_CHANGED':
+            await this.publishPollResults(update.poll_id);
+            break;
+          case 'LEADERBOARD_CHANGED':
+            await this.publishLeaderboardViews();
+            break;
+        }
+      }
+    });
+    console.log('Broadcast consumer started');
+    return subscription;
+  }
+
+  /**
+   * Starts this instance's reply consumer once and waits until it has joined its group,
+   * so replies to commands produced afterwards are not missed
+   */
+  private ensureReplyConsumer(): Promise<void> {
+    if (this.replyConsumerReady) {
+      return this.replyConsumerReady;
+    }
+
+    this.replyConsumerReady = (async () => {
+      // Every instance needs to see every reply, so each one gets its own consumer group
+      const { joined } = await this.bus.subscribe({
+        groupId: `reply-consumer-group-${this.instanceId}`,
+        topic: REPLIES_TOPIC,
+        fromBeginning: false,
+        maxWaitMs: 100
+      }, {
+        eachMessage: async message => {
+          if (message.value === null) return;
+
+          // A malformed reply would fail on every delivery, holding up the replies behind it
+          let reply: OperationReply;
           try {
-            const result = await pollService.createPoll(pollData);
-            console.log('Poll created successfully:', result);
+            reply = JSON.parse(message.value);
           } catch (error) {
-            console.error('Failed to create poll:', error);
+            console.error(`Received malformed message from ${REPLIES_TOPIC} at offset ${message.offset}:`, error);
+            return;
           }
-        } else if (partition === 1) {
-          const voteData = JSON.parse(message.value.toString('utf-8'));
-          console.log(`Processing vote from partition ${partition}`);
-          const voteService = new VoteService();
-          try {
-            const result = await voteService.recordVote(voteData);
-            console.log('Vote recorded successfully:', result);
-          } catch (error) {
-            console.error('Failed to record vote:', error);
+          if (reply === null || typeof reply !== 'object' || typeof reply.correlation_id !== 'string') {
+            console.error(`Received message without correlation ID from ${REPLIES_TOPIC} at offset ${message.offset}`);
+            return;
+          }
+
+          // Only the instance holding the originating client's socket can deliver the update
+          if (reply.client_id && reply.operation && this.websocketService) {
+            this.websocketService.sendOperationUpdate(reply.client_id, reply.operation);
+          }
+
+          const waiter = this.replyWaiters.get(reply.correlation_id);
+          if (waiter) {
+            this.replyWaiters.delete(reply.correlation_id);
+            waiter(reply);
           }
-        } else {
-          console.warn(`Received message from unexpected partition ${partition}`);
         }
-      }
-    }).catch(error => {
-      console.error('Failed to run Kafka consumer:', error);
+      });
+      await joined;
+      console.log('Reply consumer started');
+    })().catch(error => {
+      console.error('Failed to start Kafka reply consumer:', error);
+      this.replyConsumerReady = undefined;
     });
+
+    return this.replyConsumerReady;
   }
 
   /**
-   * Consumes vote messages and updates leaderboard via WebSocket
-   * @param wss - WebSocket service instance
-   * @returns Initial leaderboard data
-   * @throws {Error} If consumer connection, subscription, or message processing fails
+   * Waits for the consumer's outcome of a command
+   * @param operationId - Operation ID returned by the producer
+   * @param timeoutMs - Maximum time to wait
+   * @returns The outcome, or null if none arrived in time
    */
-  async leaderboardConsumerActivity(wss: WebSocketService): Promise<LeaderboardResult> {
-    const leaderboardService = new LeaderboardService();
-    const result = await leaderboardService.getLeaderboard();
-
-    await this.leaderboardConsumer.subscribe({
-      topic: 'polling-updates',
-      fromBeginning: true
-    }).then(() => {
-      console.log('Subscribed to Kafka topic: polling-updates');
-    }).catch(error => {
-      console.error('Failed to subscribe to Kafka topic: polling-updates', error);
-    });
+  async waitForReply(operationId: string, timeoutMs: number): Promise<OperationReply | null> {
+    return new Promise(resolve => {
+      const timer = setTimeout(() => {
+        this.replyWaiters.delete(operationId);
+        resolve(null);
+      }, timeoutMs);
 
-    await this.leaderboardConsumer.run({
-      eachMessage: async ({ partition, message }) => {
-        if (message.value === null) return;
+      const settle = (reply: OperationReply) => {
+        clearTimeout(timer);
+        this.replyWaiters.delete(operationId);
+        resolve(reply);
+      };
+      this.replyWaiters.set(operationId, settle);
 
-        if (partition === 1) {
-          const updatedLeaderboard = await leaderboardService.getLeaderboard();
-          wss.sendLeaderboardUpdate(updatedLeaderboard);
+      // The reply may have been consumed before the waiter was registered
+      this.operationService.getOperation(operationId).then(operation => {
+        if (operation && operation.status !== 'pending' && this.replyWaiters.has(operationId)) {
+          settle(replyOf(operation, operation.status));
         }
-      }
-    }).then(() => {
-      console.log('Leaderboard consumer started');
-    }).catch(error => {
-      console.error('Failed to run leaderboard consumer:', error);
+      }).catch(error => {
+        console.error(`Failed to fetch operation ${operationId}:`, error);
+      });
     });
-
-    return result;
   }
 
   /**
-   * Disconnects all Kafka clients
-   * @throws {Error} If disconnection fails
+   * Follows the polls changed by applied votes and relays leaderboard updates to the WebSocket
+   * clients of every instance. Polls are only touched once their votes are stored, so a flush never
+   * reads counters a vote has not reached yet. The consumer group is shared, so each change is
+   * aggregated only once; the aggregator recomputes the touched polls and broadcasts at most once
+   * per flush interval.
+   * @returns The subscription of the consumer group
+   * @throws {KafkaError} If the consumer cannot connect or subscribe
    */
-  async disconnect(): Promise<void> {
-    try {
-      if (this.pollProducer) {
-        await this.pollProducer.disconnect();
-        console.log('Poll producer disconnected');
-      }
+  async leaderboardConsumerActivity(): Promise<Subscription> {
+    await this.leaderboardAggregator.start().catch(error => {
+      console.error('Failed to load leaderboard:', error);
+    });
 
-      if (this.voteProducer) {
-        await this.voteProducer.disconnect();
-        console.log('Vote producer disconnected');
-      }
+    // Changes before the consumer joined are covered by the leaderboard loaded above
+    const subscription = await this.bus.subscribe({
+      groupId: 'leaderboard-consumer-group',
+      topic: BROADCAST_TOPIC,
+      fromBeginning: false,
+      maxWaitMs: 100
+    }, {
+      eachBatch: async messages => {
+        for (const message of messages) {
+          if (message.value === null) continue;
 
-      if (this.consumer) {
-        await this.consumer.disconnect();
-        console.log('Consumer disconnected');
+          try {
+            const update: FanOutMessage = JSON.parse(message.value);
+            if (update.type === 'POLL_CHANGED') {
+              this.leaderboardAggregator.touch(update.poll_id);
+            }
+          } catch (error) {
+            console.error(`Skipping malformed message at offset ${message.offset} for the leaderboard:`, error);
+          }
+        }
       }
-    } catch (error) {
-      console.error('Error disconnecting Kafka clients:', error);
+    });
+    console.log('Leaderboard consumer started');
+    return subscription;
+  }
+
+  /**
+   * Creates missing topics and starts every consumer of this instance, resolving once all of them
+   * have joined their groups. The consumers are only started once; later calls wait for the same startup.
+   * @throws {KafkaError} If the consumers do not become ready within the startup timeout
+   */
+  start(): Promise<void> {
+    if (this.started) {
+      return this.started;
     }
+
+    this.started = (async () => {
+      await this.adminActivity();
+
+      const [subscriptions] = await Promise.all([
+        Promise.all([
+          this.consumerActivity(),
+          this.leaderboardConsumerActivity(),
+          this.broadcastConsumerActivity()
+        ]),
+        this.ensureReplyConsumer()
+      ]);
+      const joined = Promise.all(subscriptions.map(subscription => subscription.joined));
+
+      let timer: NodeJS.Timeout | undefined;
+      const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(
+          () => reject(new KafkaError(`Kafka consumers did not become ready within ${STARTUP_TIMEOUT_MS}ms`)),
+          STARTUP_TIMEOUT_MS
+        );
+      });
+      await Promise.race([joined, timeout]).finally(() => clearTimeout(timer));
+      console.log('Kafka consumers ready');
+    })();
+
+    return this.started;
+  }
+
+  /**
+   * Disconnects from the message bus. Consumers go first, finishing the messages they are
+   * processing, so the producer they reply and dead-letter with is still connected.
+   */
+  async disconnect(): Promise<void> {
+    this.leaderboardAggregator.stop();
+    await this.bus.disconnect();
   }
 }
@@ -0,0 +1,146 @@
+import { LeaderboardOption, LeaderboardResult } from '../models/poll';
+import { LeaderboardService } from './leaderboardService';
+
+/** Minimum time between two leaderboard broadcasts */
+const FLUSH_INTERVAL_MS = parseInt(process.env.LEADERBOARD_FLUSH_INTERVAL_MS || '1000', 10);
+
+/** Interval of the full recomputation correcting drift of the incremental leaderboard */
+const RESYNC_INTERVAL_MS = parseInt(process.env.LEADERBOARD_RESYNC_INTERVAL_MS || '60000', 10);
+
+/** Number of options on the leaderboard */
+const LEADERBOARD_SIZE = 10;
+
+/**
+ * Options tracked beyond the leaderboard, so an option dropping out of the top can be replaced
+ * without a full recomputation
+ */
+const TRACKED_OPTIONS = LEADERBOARD_SIZE * 5;
+
+/**
+ * Orders leaderboard entries by vote count, highest first
+ */
+const byVoteCount = (a: LeaderboardOption, b: LeaderboardOption): number => b.vote_count - a.vote_count;
+
+/**
+ * Keeps the leaderboard in memory and updates it incrementally from the polls touched by votes.
+ * Touched polls are collected between flushes; each flush reloads only their options' counters and
+ * broadcasts at most once, and only if the leaderboard changed. A periodic full recomputation
+ * corrects drift, such as options of expired polls or options beyond the tracked ones overtaking.
+ * Flushes that saw votes also signal the other leaderboard views to be recomputed, at the same pace.
+ */
+export class LeaderboardAggregator {
+  /** Tracked options by ID, the leaderboard plus the runners-up */
+  private options = new Map<string, LeaderboardOption>();
+
+  /** Polls touched by votes since the last flush */
+  private touchedPolls = new Set<string>();
+
+  /** Option IDs and vote counts of the last broadcast leaderboard */
+  private lastSignature = '';
+
+  /** Serializes flushes and resyncs, which both replace tracked options */
+  private queue: Promise<void> = Promise.resolve();
+
+  private flushTimer?: NodeJS.Timeout;
+  private resyncTimer?: NodeJS.Timeout;
+
+  /**
+   * @param publish - Delivers a changed leaderboard to WebSocket clients
+   * @param notifyVotes - Signals that votes were cast since the previous flush
+   * @param leaderboardService - Source of vote counters
+   */
+  constructor(
+    private publish: (leaderboard: LeaderboardResult) => Promise<void>,
+    private notifyVotes: () => Promise<void>,
+    private leaderboardService = new LeaderboardService()
+  ) {}
+
+  /**
+   * Loads the leaderboard and starts the flush and resync timers
+   */
+  async start(): Promise<void> {
+    await this.resync();
+    this.flushTimer = setInterval(() => this.enqueue(() => this.flush()), FLUSH_INTERVAL_MS);
+    this.resyncTimer = setInterval(() => this.enqueue(() => this.resync()), RESYNC_INTERVAL_MS);
+    this.flushTimer.unref();
+    this.resyncTimer.unref();
+  }
+
+  /**
+   * Stops the timers; touched polls not flushed yet are dropped
+   */
+  stop(): void {
+    clearInterval(this.flushTimer);
+    clearInterval(this.resyncTimer);
+  }
+
+  /**
+   * Records that a vote changed the counters of a poll
+   * @param pollId - ID of the poll
+   */
+  touch(pollId: string): void {
+    this.touchedPolls.add(pollId);
+  }
+
+  /**
+   * Runs a task after the ones already queued, logging its failure
+   * @param task - Flush or resync
+   */
+  private enqueue(task: () => Promise<void>): void {
+    this.queue = this.queue.then(task).catch(error => {
+      console.error('Failed to update leaderboard:', error);
+    });
+  }
+
+  /**
+   * Reloads the options of the touched polls, replaces them among the tracked options and
+   * broadcasts the leaderboard if it changed. Signals votes if any polls were touched.
+   */
+  private async flush(): Promise<void> {
+    if (this.touchedPolls.size > 0) {
+      const pollIds = [...this.touchedPolls];
+      this.touchedPolls.clear();
+
+      const counts = await this.leaderboardService.getOptionCounts(pollIds);
+      const touched = new Set(pollIds);
+      for (const [optionId, option] of this.options) {
+        if (touched.has(option.poll_id)) {
+          this.options.delete(optionId);
+        }
+      }
+      for (const option of counts) {
+        this.options.set(option.option_id, option);
+      }
+      this.trim();
+      await this.notifyVotes();
+    }
+
+    const data = [...this.options.values()].sort(byVoteCount).slice(0, LEADERBOARD_SIZE);
+    const signature = JSON.stringify(data.map(option => [option.option_id, option.vote_count]));
+    if (signature === this.lastSignature) {
+      return;
+    }
+
+    this.lastSignature = signature;
+    await this.publish({ data, timestamp: new Date().toISOString() });
+  }
+
+  /**
+   * Replaces the tracked options with a full recomputation. Changes are broadcast by the next flush.
+   */
+  private async resync(): Promise<void> {
+    const { data } = await this.leaderboardService.getLeaderboard(TRACKED_OPTIONS);
+    this.options = new Map(data.map(option => [option.option_id, option]));
+  }
+
+  /**
+   * Drops the tracked options with the fewest votes beyond the tracked number
+   */
+  private trim(): void {
+    if (this.options.size <= TRACKED_OPTIONS) {
+      return;
+    }
+    const kept = [...this.options.values()].sort(byVoteCount).slice(0, TRACKED_OPTIONS);
+    this.options = new Map(kept.map(option => [option.option_id, option]));
+  }
+}
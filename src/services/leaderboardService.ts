@@ -1,47 +1,59 @@
-import { withTransaction, TableNames } from '../config/database';
-import { LeaderboardResult } from '../models/poll';
+import {
+  LeaderboardOption,
+  LeaderboardQuery,
+  LeaderboardResult,
+  LeaderboardViewResult
+} from '../models/poll';
+import { VoteRepository } from '../models/repository';
+import { createRepositories } from '../repositories';
 
 /**
  * Service for managing and retrieving leaderboard data
  */
 export class LeaderboardService {
+  /**
+   * @param votes - Storage of vote counters, by default the one selected by `STORE_DRIVER`
+   */
+  constructor(private votes: VoteRepository = createRepositories().votes) {}
 
   /**
-   * Retrieves the current leaderboard showing top 10 poll options by vote count
+   * Retrieves the current leaderboard showing the top poll options by vote count
+   * @param {number} [limit=10] - Number of options to return
    * @returns {Promise<LeaderboardResult>} Object containing leaderboard data and timestamp
    * - data: Array of poll options with their vote counts
    * - timestamp: ISO string of when the leaderboard was generated
    * @throws {Error} If database query fails
    */
-  async getLeaderboard(): Promise<LeaderboardResult> {
-    return withTransaction(async (client) => {
-      const query = `
-        SELECT
-          p.id as poll_id,
-          p.question as poll_question,
-          o.id as option_id,
-          o.option_text,
-          COALESCE(ovc.vote_count, 0) as vote_count
-        FROM ${TableNames.POLLS} p
-        JOIN ${TableNames.OPTIONS} o ON p.id = o.poll_id
-        LEFT JOIN ${TableNames.OPTION_VOTE_COUNTERS} ovc ON o.id = ovc.option_id
-        WHERE p.expired_at > NOW()
-        ORDER BY ovc.vote_count DESC NULLS LAST
-        LIMIT 10;
-      `;
+  async getLeaderboard(limit = 10): Promise<LeaderboardResult> {
+    return {
+      data: await this.votes.getTopOptions(limit),
+      timestamp: new Date().toISOString()
+    };
+  }
 
-      const result = await client.query(query);
-      return {
-        data: result.rows.map(row => ({
-          poll_id: row.poll_id,
-          poll_question: row.poll_question,
-          option_id: row.option_id,
-          option_text: row.option_text,
-          vote_count: parseInt(row.vote_count)
-        })),
-        timestamp: new Date().toISOString()
-      };
-    });
+  /**
+   * Retrieves the current vote counts of every option of the given polls that are still open
+   * @param {string[]} pollIds - IDs of the polls
+   * @returns {Promise<LeaderboardOption[]>} Options of the open polls among them, with their vote counts
+   * @throws {Error} If database query fails
+   */
+  async getOptionCounts(pollIds: string[]): Promise<LeaderboardOption[]> {
+    return this.votes.getOptionCounts(pollIds);
   }
 
+  /**
+   * Retrieves a leaderboard view of open polls, counting the ballots cast within the window by
+   * `votes.created_at`. Every entry carries its velocity: votes per hour since the window or the
+   * poll started, whichever is later.
+   * @param {LeaderboardQuery} query - Number of entries, scope, window and sort order
+   * @returns {Promise<LeaderboardViewResult>} The view with its entries and timestamp
+   * @throws {Error} If database query fails
+   */
+  async getLeaderboardView(query: LeaderboardQuery): Promise<LeaderboardViewResult> {
+    return {
+      view: query,
+      data: await this.votes.getLeaderboardView(query),
+      timestamp: new Date().toISOString()
+    };
+  }
 }
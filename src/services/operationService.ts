@@ -0,0 +1,114 @@
+import { randomUUID } from 'crypto';
+import { Operation, OperationState, OperationType } from '../models/operation';
+import { IdempotencyKey, OperationOutcome, OperationRepository } from '../models/repository';
+import { createRepositories } from '../repositories';
+import { IdempotencyConflictError } from '../utils/errorHandler';
+
+/**
+ * Service tracking the processing state of commands queued on Kafka
+ * @class OperationService
+ */
+export class OperationService {
+  /**
+   * @param operations - Operation storage, by default the one selected by `STORE_DRIVER`
+   */
+  constructor(private operations: OperationRepository = createRepositories().operations) {}
+
+  /**
+   * Records a new pending operation before its command is produced.
+   * With an idempotency key, a retry of the same request returns the original operation instead.
+   * Keys are scoped to the caller, so callers using the same key do not see each other's operations.
+   * @param {OperationType} type - Kind of command being queued
+   * @param {string} [clientId] - WebSocket client to notify when the command is processed
+   * @param {Object} [idempotency] - Caller scope, client-supplied key and fingerprint of the request
+   * @returns {Promise<{id: string, replayed: boolean}>} ID of the operation, used as the command's
+   * event ID, and whether it belongs to an earlier request with the same key
+   * @throws {IdempotencyConflictError} If the key was already used for a different request
+   */
+  async createOperation(
+    type: OperationType,
+    clientId?: string,
+    idempotency?: IdempotencyKey
+  ): Promise<{ id: string; replayed: boolean }> {
+    return this.operations.transaction(async operations => {
+      const id = randomUUID();
+
+      if (idempotency) {
+        // Waits for a concurrent request holding the same key to commit before deciding
+        const existing = await operations.findIdempotencyKey(idempotency.scope, idempotency.key);
+        if (existing) {
+          if (existing.requestHash !== idempotency.requestHash) {
+            throw new IdempotencyConflictError('Idempotency key was already used with a different request');
+          }
+          return { id: existing.operationId, replayed: true };
+        }
+      }
+
+      await operations.insertOperation(id, type, clientId ?? null);
+      if (idempotency) {
+        await operations.insertIdempotencyKey(idempotency, id);
+      }
+
+      return { id, replayed: false };
+    });
+  }
+
+  /**
+   * Stores the outcome of a processed command on its operation and idempotency key. Operations
+   * that already have an outcome keep it.
+   * @param {string} operationId - ID of the operation
+   * @param {OperationState} status - Whether the command was applied or rejected
+   * @param {Object} outcome - Result of an applied command, or reason and error code of a rejected one
+   * @param {boolean} [retryable] - Whether the command was rejected for a reason other than a business
+   * rule and may still be applied by replaying it; its idempotency key then records no outcome
+   * @returns {Promise<{operation: Operation, clientId: string | null} | null>} Updated operation and the
+   * client to notify, or null if the operation is unknown or no longer pending
+   */
+  async completeOperation(
+    operationId: string,
+    status: Exclude<OperationState, 'pending'>,
+    outcome: OperationOutcome,
+    retryable = false
+  ): Promise<{ operation: Operation; clientId: string | null } | null> {
+    return this.operations.transaction(async operations => {
+      const completed = await operations.updateOperation(operationId, status, outcome);
+      if (completed && !retryable) {
+        await operations.updateIdempotencyKey(operationId, status, outcome);
+      }
+      return completed;
+    });
+  }
+
+  /**
+   * Sets an operation rejected for a reason other than a business rule back to pending, so its
+   * command replayed from the dead-letter topic is processed again
+   * @param {string} operationId - ID of the operation
+   * @returns {Promise<boolean>} Whether the operation was rejected
+   */
+  async reopenOperation(operationId: string): Promise<boolean> {
+    return this.operations.reopenOperation(operationId);
+  }
+
+  /**
+   * Rejects an operation whose command could not be queued and releases its idempotency key,
+   * so a retry of the request under the same key is queued anew
+   * @param {string} operationId - ID of the operation
+   * @param {string} reason - Why the command was not queued
+   * @param {string} [code] - Error code of the failure
+   */
+  async abandonOperation(operationId: string, reason: string, code?: string): Promise<void> {
+    await this.operations.transaction(async operations => {
+      await operations.deleteIdempotencyKey(operationId);
+      await operations.updateOperation(operationId, 'rejected', { reason, code });
+    });
+  }
+
+  /**
+   * Retrieves an operation by ID
+   * @param {string} operationId - ID of the operation
+   * @returns {Promise<Operation | null>} The operation, or null if it does not exist
+   */
+  async getOperation(operationId: string): Promise<Operation | null> {
+    return this.operations.findOperation(operationId);
+  }
+}
@@ -1,156 +1,430 @@
-import { withTransaction, TableNames } from '../config/database';
-import { CreatePollDTO, PollResult } from '../models/poll';
+import {
+  CreatePollDTO,
+  Poll,
+  PollListQuery,
+  PollPage,
+  PollResult,
+  PollTimeseries,
+  PollType,
+  RankedPollResult,
+  TimeseriesBucket,
+  UpdatePollDTO
+} from '../models/poll';
+import { PollRepository } from '../models/repository';
+import { createRepositories } from '../repositories';
+import { tallyInstantRunoff } from '../utils/instantRunoff';
+import {
+  ConflictError,
+  ForbiddenError,
+  NotFoundError,
+  PollExpiredError,
+  ValidationError
+} from '../utils/errorHandler';
+
+/** Poll types accepted by the service */
+const POLL_TYPES: PollType[] = ['single', 'multiple', 'ranked'];
+
+/** Default and maximum page sizes when listing polls */
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+/** Length of each time series bucket in milliseconds; buckets are aligned to UTC */
+const BUCKET_MS: Record<TimeseriesBucket, number> = {
+  minute: 60 * 1000,
+  hour: 60 * 60 * 1000,
+  day: 24 * 60 * 60 * 1000
+};
+
+/** Most buckets a time series returns; longer polls return their latest buckets */
+const MAX_TIMESERIES_BUCKETS = 1440;
+
+/**
+ * Encodes the position of a poll in the listing order into an opaque cursor
+ * @param poll - Last poll of the current page
+ * @returns Base64url cursor holding the poll's creation time and ID
+ */
+const encodeCursor = (poll: Poll): string =>
+  Buffer.from(`${new Date(poll.created_at).toISOString()}|${poll.id}`).toString('base64url');
 
 /**
- * Service handling poll-related operations including creation and result retrieval
+ * Decodes a cursor produced by `encodeCursor`
+ * @param cursor - Opaque cursor from a previous page
+ * @returns Creation time and ID of the last poll of the previous page
+ * @throws {ValidationError} If the cursor is malformed
+ */
+const decodeCursor = (cursor: string): { createdAt: Date; id: string } => {
+  const [createdAt, id] = Buffer.from(cursor, 'base64url').toString('utf-8').split('|');
+  if (!id || isNaN(new Date(createdAt).getTime())) {
+    throw new ValidationError('cursor is invalid');
+  }
+  return { createdAt: new Date(createdAt), id };
+};
+
+/**
+ * Service handling poll-related operations including creation, lifecycle changes and result retrieval
  * @class PollService
  */
 export class PollService {
+  /**
+   * @param polls - Storage of polls, by default the one selected by `STORE_DRIVER`
+   */
+  constructor(private polls: PollRepository = createRepositories().polls) {}
+
   /**
    * Creates a new poll with options and initializes vote counters
-   * @param {CreatePollDTO} pollData - Poll creation data containing question, options and expiration date
+   * @param {CreatePollDTO} pollData - Poll creation data containing question, options, poll type,
+   * selection bounds, vote change setting and expiration date
    * @returns {Promise<{id: string, optionIds: string[]}>} Created poll ID and array of option IDs
-   * @throws {Error} If poll data is invalid
-   * @throws {Error} If poll expiration date is invalid
-   * @throws {Error} If poll with same question already exists
+   * @throws {ValidationError} If poll data is invalid
+   * @throws {ValidationError} If poll type is not supported
+   * @throws {ValidationError} If selection bounds are invalid
+   * @throws {ValidationError} If poll expiration date is invalid
+   * @throws {ConflictError} If poll with same question already exists
    * @throws {Error} If poll creation fails
    * @throws {Error} If option creation fails
    */
   async createPoll(
     pollData: CreatePollDTO
   ): Promise<{ id: string; optionIds: string[] }> {
-    return withTransaction(async client => {
+    return this.polls.transaction(async polls => {
       // Check if poll creation data is valid
       if (!pollData.question || !pollData.options || pollData.options.length < 2) {
-        throw new Error('Invalid poll data');
+        throw new ValidationError('Invalid poll data');
+      }
+
+      // Check if poll type is supported
+      const pollType = pollData.poll_type || 'single';
+      if (!POLL_TYPES.includes(pollType)) {
+        throw new ValidationError('Invalid poll type');
+      }
+
+      // Check if selection bounds fit the poll type and options
+      const minSelections = pollData.min_selections ?? 1;
+      const maxSelections = pollData.max_selections ?? (pollType === 'single' ? 1 : pollData.options.length);
+      if (
+        !Number.isInteger(minSelections) || !Number.isInteger(maxSelections) ||
+        minSelections < 1 || maxSelections < minSelections || maxSelections > pollData.options.length ||
+        (pollType === 'single' && maxSelections !== 1)
+      ) {
+        throw new ValidationError('Invalid selection bounds');
       }
 
       // Check if poll expiration date is valid
       if (!pollData.expired_at || pollData.expired_at <= new Date()) {
-        throw new Error('Invalid poll expiration date');
+        throw new ValidationError('Invalid poll expiration date');
       }
 
       // Check if poll already exists with the same question and options
-      const existingPoll = await client.query(
-        `SELECT id FROM ${TableNames.POLLS} WHERE question = $1`,
-        [pollData.question]
-      );
-      if (existingPoll.rows.length > 0) {
-        throw new Error('Poll already exists');
+      if (await polls.findPollByQuestion(pollData.question)) {
+        throw new ConflictError('Poll already exists');
       }
 
-      // Insert poll
-      const pollResult = await client.query(
-        `INSERT INTO ${TableNames.POLLS} (question, expired_at)
-          VALUES ($1, $2)
-          RETURNING id;`,
-        [pollData.question, pollData.expired_at]
-      );
+      // Insert the poll with its options and vote counters
+      const { id, optionIds } = await polls.insertPoll({
+        question: pollData.question,
+        poll_type: pollType,
+        min_selections: minSelections,
+        max_selections: maxSelections,
+        allow_vote_change: pollData.allow_vote_change ?? true,
+        created_by: pollData.created_by ?? null,
+        expired_at: pollData.expired_at,
+        options: pollData.options
+      });
 
-      const pollId = pollResult.rows[0].id;
+      // Check if option creation was successful
+      if (optionIds.length !== pollData.options.length) {
+        throw new Error('Failed to create options');
+      }
 
-      // Check if poll creation was successful
-      if (!pollId) {
-        throw new Error('Failed to create poll');
+      return { id, optionIds };
+    });
+  }
+
+  /**
+   * Lists polls newest first, paginated by a cursor on `created_at`
+   * @param {PollListQuery} query - Status and creator filters, cursor and page size
+   * @returns {Promise<PollPage>} Page of polls and the cursor of the next page, if any
+   * @throws {ValidationError} If the cursor is invalid
+   */
+  async fetchPolls(query: PollListQuery = {}): Promise<PollPage> {
+    const limit = Math.min(Math.max(query.limit || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+    const after = query.cursor ? decodeCursor(query.cursor) : undefined;
+
+    // Fetch one extra poll to find out whether another page exists
+    const polls = await this.polls.listPolls({
+      status: query.status,
+      created_by: query.created_by,
+      after: after && { created_at: after.createdAt, id: after.id },
+      limit: limit + 1
+    });
+
+    const data = polls.slice(0, limit);
+    return {
+      data,
+      next_cursor: polls.length > limit ? encodeCursor(data[data.length - 1]) : null
+    };
+  }
+
+  /**
+   * Looks up who created a poll
+   * @param {string} pollId - Unique identifier of the poll
+   * @returns {Promise<{created_by: string | null} | null>} Owner of the poll, or null if the poll does not exist
+   */
+  async getPollOwner(pollId: string): Promise<{ created_by: string | null } | null> {
+    const poll = await this.polls.findPoll(pollId);
+    return poll && { created_by: poll.created_by };
+  }
+
+  /**
+   * Edits the question or remarks of a poll and extends its expiration date.
+   * Edits are only allowed while the poll is open and nobody has voted yet.
+   * @param {string} pollId - Unique identifier of the poll
+   * @param {UpdatePollDTO} pollData - Fields to change
+   * @param {string} [requestedBy] - User making the change, who must own the poll
+   * @returns {Promise<Poll>} Updated poll
+   * @throws {ValidationError} If update data is invalid
+   * @throws {NotFoundError} If poll does not exist
+   * @throws {ForbiddenError} If the requesting user does not own the poll
+   * @throws {PollExpiredError} If poll has expired
+   * @throws {ConflictError} If the poll already has votes
+   * @throws {ValidationError} If the new expiration date is not later than the current one
+   */
+  async updatePoll(pollId: string, pollData: UpdatePollDTO, requestedBy?: string): Promise<Poll> {
+    return this.polls.transaction(async polls => {
+      // Check if update data is valid
+      if (!pollId || (pollData.question === undefined && pollData.remarks === undefined && !pollData.expired_at)) {
+        throw new ValidationError('Invalid poll data');
+      }
+      if (pollData.question !== undefined && !pollData.question) {
+        throw new ValidationError('Invalid poll data');
       }
 
-      // Insert options
-      const optionIds: string[] = [];
-      for (const optionText of pollData.options) {
-        const optionResult = await client.query(
-          `INSERT INTO ${TableNames.OPTIONS} (poll_id, option_text)
-            VALUES ($1, $2)
-            RETURNING id;`,
-          [pollId, optionText]
-        );
-        optionIds.push(optionResult.rows[0].id);
+      const poll = await this.getPollForUpdate(polls, pollId, requestedBy);
+      if (new Date(poll.expired_at) <= new Date()) {
+        throw new PollExpiredError('Poll has expired');
       }
 
-      // Check if option creation was successful
-      if (optionIds.length !== pollData.options.length) {
-        throw new Error('Failed to create options');
+      // Check if anybody has voted yet
+      if (await polls.getVoteCount(pollId) > 0) {
+        throw new ConflictError('Poll cannot be edited after votes have been cast');
       }
 
-      // Update vote counters table
-      await client.query(
-        `INSERT INTO ${TableNames.VOTE_COUNTERS} (poll_id) VALUES ($1)`,
-        [pollId]
-      );
-      await client.query(
-        `INSERT INTO ${TableNames.OPTION_VOTE_COUNTERS} (option_id) SELECT id FROM ${TableNames.OPTIONS} WHERE poll_id = $1`,
-        [pollId]
-      );
+      // Check if the expiration date is only extended
+      const expiredAt = pollData.expired_at ? new Date(pollData.expired_at) : new Date(poll.expired_at);
+      if (isNaN(expiredAt.getTime()) || expiredAt < new Date(poll.expired_at)) {
+        throw new ValidationError('Poll expiration date can only be extended');
+      }
 
-      return { id: pollId, optionIds };
+      return polls.updatePoll(pollId, {
+        question: pollData.question ?? poll.question,
+        remarks: pollData.remarks !== undefined ? pollData.remarks : poll.remarks,
+        expired_at: expiredAt
+      });
     });
   }
 
   /**
-   * Retrieves poll results including vote counts for each option
+   * Closes a poll early by expiring it immediately
+   * @param {string} pollId - Unique identifier of the poll
+   * @param {string} [requestedBy] - User closing the poll, who must own it
+   * @returns {Promise<Poll>} Closed poll
+   * @throws {NotFoundError} If poll does not exist
+   * @throws {ForbiddenError} If the requesting user does not own the poll
+   * @throws {PollExpiredError} If poll has already expired
+   */
+  async closePoll(pollId: string, requestedBy?: string): Promise<Poll> {
+    return this.polls.transaction(async polls => {
+      const poll = await this.getPollForUpdate(polls, pollId, requestedBy);
+      if (new Date(poll.expired_at) <= new Date()) {
+        throw new PollExpiredError('Poll has expired');
+      }
+
+      return polls.updatePoll(pollId, { expired_at: new Date() });
+    });
+  }
+
+  /**
+   * Deletes a poll together with its options, votes and counters
+   * @param {string} pollId - Unique identifier of the poll
+   * @param {string} [requestedBy] - User deleting the poll, who must own it
+   * @returns {Promise<{id: string}>} ID of the deleted poll
+   * @throws {NotFoundError} If poll does not exist
+   * @throws {ForbiddenError} If the requesting user does not own the poll
+   */
+  async deletePoll(pollId: string, requestedBy?: string): Promise<{ id: string }> {
+    return this.polls.transaction(async polls => {
+      await this.getPollForUpdate(polls, pollId, requestedBy);
+      await polls.deletePoll(pollId);
+
+      return { id: pollId };
+    });
+  }
+
+  /**
+   * Retrieves poll results including vote counts for each option.
+   * Ranked polls return round-by-round instant-runoff results instead of per-option vote counts.
    * @param {string} pollId - Unique identifier of the poll
    * @returns {Promise<PollResult>} Poll details including question, options, vote counts and timestamps
-   * @throws {Error} If poll ID is invalid
-   * @throws {Error} If poll does not exist
-   * @throws {Error} If fetching poll results fails
+   * @throws {ValidationError} If poll ID is invalid
+   * @throws {NotFoundError} If poll does not exist
    */
   async getPollResults(pollId: string): Promise<PollResult> {
-    return withTransaction(async client => {
+    return this.polls.transaction(async polls => {
       // Check if requested id is valid
       if (!pollId) {
-        throw new Error('Invalid poll ID');
+        throw new ValidationError('Invalid poll ID');
       }
 
       // Check if poll exists
-      const pollExists = await client.query(
-        `SELECT id FROM ${TableNames.POLLS} WHERE id = $1`,
-        [pollId]
+      const poll = await polls.findPoll(pollId);
+      if (!poll) {
+        throw new NotFoundError('Poll does not exist');
+      }
+
+      if (poll.poll_type === 'ranked') {
+        return this.getRankedPollResults(polls, poll);
+      }
+
+      const totalVotes = await polls.getVoteCount(pollId);
+      const options = await polls.listOptions(pollId);
+      return {
+        id: poll.id,
+        question: poll.question,
+        poll_type: poll.poll_type,
+        total_votes: totalVotes,
+        total_ballots: totalVotes,
+        total_selections: options.reduce((sum, option) => sum + option.vote_count, 0),
+        min_selections: poll.min_selections,
+        max_selections: poll.max_selections,
+        options,
+        created_at: new Date(poll.created_at),
+        expired_at: new Date(poll.expired_at)
+      };
+    });
+  }
+
+  /**
+   * Retrieves how the votes of a poll evolved, from the per-minute rollups the vote consumer keeps.
+   * Votes are bucketed by the time they were first cast; changed votes stay in their bucket and
+   * retracted votes are removed. Buckets run from the poll's creation until it expired or now,
+   * limited to the latest `MAX_TIMESERIES_BUCKETS`; cumulative counts include earlier votes.
+   * @param {string} pollId - Unique identifier of the poll
+   * @param {TimeseriesBucket} bucket - Width of the buckets
+   * @returns {Promise<PollTimeseries>} Per-bucket and cumulative vote counts of every option
+   * @throws {ValidationError} If poll ID is invalid
+   * @throws {NotFoundError} If poll does not exist
+   */
+  async getPollTimeseries(pollId: string, bucket: TimeseriesBucket): Promise<PollTimeseries> {
+    return this.polls.transaction(async polls => {
+      if (!pollId) {
+        throw new ValidationError('Invalid poll ID');
+      }
+
+      const poll = await polls.findPoll(pollId);
+      if (!poll) {
+        throw new NotFoundError('Poll does not exist');
+      }
+
+      const step = BUCKET_MS[bucket];
+      const last = Math.floor(Math.min(Date.now(), new Date(poll.expired_at).getTime()) / step) * step;
+      const first = Math.max(
+        Math.floor(new Date(poll.created_at).getTime() / step) * step,
+        last - (MAX_TIMESERIES_BUCKETS - 1) * step
       );
-      if (pollExists.rows.length === 0) {
-        throw new Error('Poll does not exist');
-      }
-
-      // Fetch poll results
-      const query = `
-        SELECT
-          p.id,
-          p.question,
-          vc.vote_count as total_votes,
-          json_agg(
-            json_build_object(
-              'option_id', po.id,
-              'option_text', po.option_text,
-              'vote_count', ovc.vote_count
-            )
-          ) as options,
-          p.created_at,
-          p.expired_at
-          FROM ${TableNames.POLLS} p
-          LEFT JOIN ${TableNames.OPTIONS} po ON p.id = po.poll_id
-          LEFT JOIN ${TableNames.OPTION_VOTE_COUNTERS} ovc ON po.id = ovc.option_id
-          LEFT JOIN ${TableNames.VOTE_COUNTERS} vc ON p.id = vc.poll_id
-          WHERE p.id = $1
-          GROUP BY p.id, vc.vote_count;
-      `;
-
-      const result = await client.query(query, [pollId]);
-
-      if (result.rows.length === 0) {
-        throw new Error('Failed to fetch poll results');
-      }
-
-      const row = result.rows[0];
+      const size = Math.max(0, (last - first) / step + 1);
+
+      const options = await polls.listOptions(pollId);
+      const rollups = await polls.sumRollups(pollId, step, first);
+
+      const series = new Map(options.map(option => [option.option_id, {
+        option_id: option.option_id,
+        option_text: option.option_text,
+        counts: new Array<number>(size).fill(0),
+        cumulative: new Array<number>(size).fill(0)
+      }]));
+      const earlier = new Map<string, number>();
+
+      for (const rollup of rollups) {
+        const option = series.get(rollup.option_id);
+        const index = (rollup.bucket_ms - first) / step;
+        if (!option) {
+          continue;
+        }
+        if (index < 0) {
+          earlier.set(rollup.option_id, rollup.vote_count);
+        } else if (index < size) {
+          option.counts[index] += rollup.vote_count;
+        }
+      }
+
+      for (const option of series.values()) {
+        let total = earlier.get(option.option_id) ?? 0;
+        option.counts.forEach((count, index) => {
+          total += count;
+          option.cumulative[index] = total;
+        });
+      }
+
       return {
-        id: row.id,
-        question: row.question,
-        total_votes: parseInt(row.total_votes),
-        options: row.options.map((opt: any) => ({
-          option_id: opt.option_id,
-          option_text: opt.option_text,
-          vote_count: parseInt(opt.vote_count)
-        })),
-        created_at: new Date(row.created_at),
-        expired_at: new Date(row.expired_at)
+        poll_id: pollId,
+        bucket,
+        buckets: Array.from({ length: size }, (_, index) => new Date(first + index * step).toISOString()),
+        options: [...series.values()]
       };
     });
   }
+
+  /**
+   * Locks a poll for the rest of the transaction
+   * @param {PollRepository} polls - Repository bound to the surrounding transaction
+   * @param {string} pollId - Unique identifier of the poll
+   * @param {string} [requestedBy] - User changing the poll, who must own it; unset for service callers
+   * @returns {Promise<Poll>} Locked poll
+   * @throws {NotFoundError} If poll does not exist
+   * @throws {ForbiddenError} If the requesting user does not own the poll
+   */
+  private async getPollForUpdate(polls: PollRepository, pollId: string, requestedBy?: string): Promise<Poll> {
+    if (!pollId) {
+      throw new ValidationError('Invalid poll ID');
+    }
+
+    const poll = await polls.findPoll(pollId, true);
+    if (!poll) {
+      throw new NotFoundError('Poll does not exist');
+    }
+    if (requestedBy !== undefined && poll.created_by !== requestedBy) {
+      throw new ForbiddenError('Only the poll owner can change this poll');
+    }
+
+    return poll;
+  }
+
+  /**
+   * Builds instant-runoff results for a ranked poll from its stored ballots
+   * @param {PollRepository} polls - Repository bound to the surrounding transaction
+   * @param {Poll} poll - The ranked poll
+   * @returns {Promise<RankedPollResult>} Poll details with elimination rounds and the winning option
+   */
+  private async getRankedPollResults(polls: PollRepository, poll: Poll): Promise<RankedPollResult> {
+    const totalVotes = await polls.getVoteCount(poll.id);
+    const options = (await polls.listOptions(poll.id)).map(({ option_id, option_text }) => ({ option_id, option_text }));
+    const rankings = await polls.listRankings(poll.id);
+    const { rounds, winner_option_id } = tallyInstantRunoff(options, rankings);
+
+    return {
+      id: poll.id,
+      question: poll.question,
+      poll_type: 'ranked',
+      total_votes: totalVotes,
+      total_ballots: totalVotes,
+      total_selections: rankings.reduce((sum, ranking) => sum + ranking.length, 0),
+      min_selections: poll.min_selections,
+      max_selections: poll.max_selections,
+      options,
+      rounds,
+      winner_option_id,
+      created_at: new Date(poll.created_at),
+      expired_at: new Date(poll.expired_at)
+    };
+  }
 }
@@ -0,0 +1,129 @@
+import {
+  ActivitySourceType,
+  AnomalyRules,
+  RateLimitRules,
+  RateLimitScope,
+  RateLimitStore,
+  RateLimitSubjects,
+  RateLimitedAction,
+  SuspiciousActivityReport,
+  TokenBucketRule
+} from '../models/rateLimit';
+import { createRateLimitStore } from '../rateLimit';
+import { RateLimitError, ValidationError } from '../utils/errorHandler';
+import { anomalyRulesFromEnv, rateLimitRulesFromEnv, subnetOf } from '../utils/rateLimit';
+
+/** Wording of the rate limit errors, by action and scope */
+const ACTION_NAMES: Record<RateLimitedAction, string> = {
+  vote: 'votes',
+  create_poll: 'polls created',
+  import_polls: 'polls imported'
+};
+const SCOPE_NAMES: Record<RateLimitScope, string> = { ip: 'address', user: 'user', poll: 'poll' };
+
+/**
+ * Service limiting how fast clients vote and create polls, with a token bucket per client address,
+ * user and poll, and flagging polls that receive bursts of votes from one address or subnet
+ * @class RateLimitService
+ */
+export class RateLimitService {
+  /**
+   * @param store - Buckets, counters and flags, by default the store selected by `RATE_LIMIT_STORE`
+   * @param rules - Rate limits, by default those configured in the environment
+   * @param anomalyRules - Vote burst thresholds, by default those configured in the environment
+   * @param clock - Current time in milliseconds since the epoch
+   */
+  constructor(
+    private store: RateLimitStore = createRateLimitStore(),
+    private rules: RateLimitRules = rateLimitRulesFromEnv(),
+    private anomalyRules: AnomalyRules = anomalyRulesFromEnv(),
+    private clock: () => number = Date.now
+  ) {}
+
+  /**
+   * Takes a token per action from each bucket a request counts against. Tokens taken before a
+   * bucket runs short are not given back, so rejected requests still count against their other
+   * subjects.
+   * @param action - Action of the request
+   * @param subjects - Client address, acting user and poll of the request
+   * @param count - Number of actions the request performs at once, such as the polls of an import
+   * @throws {ValidationError} If a bucket cannot ever hold that many tokens; nothing is taken then
+   * @throws {RateLimitError} If a bucket holds fewer tokens than the request needs, with the seconds
+   * until it holds enough
+   */
+  async consume(action: RateLimitedAction, subjects: RateLimitSubjects, count = 1): Promise<void> {
+    const now = this.clock();
+    const buckets: { scope: RateLimitScope; rule: TokenBucketRule; subject: string }[] = [];
+
+    for (const scope of Object.keys(this.rules[action]) as RateLimitScope[]) {
+      const rule = this.rules[action][scope];
+      const subject = subjects[scope];
+      if (!rule || subject === undefined) {
+        continue;
+      }
+
+      if (count > rule.capacity) {
+        throw new ValidationError(
+          `Too many ${ACTION_NAMES[action]} for this ${SCOPE_NAMES[scope]}, at most ${rule.capacity} are allowed at once`
+        );
+      }
+      buckets.push({ scope, rule, subject });
+    }
+
+    for (const { scope, rule, subject } of buckets) {
+      const outcome = await this.store.take(`${action}:${scope}:${subject}`, rule, count, now);
+      if (!outcome.allowed) {
+        throw new RateLimitError(
+          `Too many ${ACTION_NAMES[action]} for this ${SCOPE_NAMES[scope]}, try again later`,
+          Math.max(Math.ceil(outcome.retryAfterMs / 1000), 1)
+        );
+      }
+    }
+  }
+
+  /**
+   * Counts a vote towards the burst of its address and subnet on the poll, flagging the sources
+   * whose burst reaches its threshold. Detection is best effort: failures are logged and never
+   * fail the vote.
+   * @param pollId - Poll voted on
+   * @param address - Client address of the vote
+   * @returns Sources flagged by this vote
+   */
+  async recordVote(pollId: string, address: string): Promise<ActivitySourceType[]> {
+    const now = this.clock();
+    const sources: [ActivitySourceType, string, number][] = [
+      ['ip', address, this.anomalyRules.ipThreshold],
+      ['subnet', subnetOf(address), this.anomalyRules.subnetThreshold]
+    ];
+    const flagged: ActivitySourceType[] = [];
+
+    try {
+      for (const [sourceType, source, threshold] of sources) {
+        const votes = await this.store.increment(`burst:${pollId}:${sourceType}:${source}`, this.anomalyRules.windowMs, now);
+        if (votes >= threshold) {
+          await this.store.flag(pollId, sourceType, source, votes, now);
+          flagged.push(sourceType);
+        }
+      }
+    } catch (error) {
+      console.error(`Failed to record vote activity on poll ${pollId}:`, error);
+    }
+
+    return flagged;
+  }
+
+  /**
+   * Reports the sources flagged for vote bursts on a poll
+   * @param pollId - Poll ID
+   * @returns Flagged sources with the thresholds they reached
+   */
+  async getSuspiciousActivity(pollId: string): Promise<SuspiciousActivityReport> {
+    return {
+      poll_id: pollId,
+      window_seconds: this.anomalyRules.windowMs / 1000,
+      ip_threshold: this.anomalyRules.ipThreshold,
+      subnet_threshold: this.anomalyRules.subnetThreshold,
+      flagged: await this.store.listFlags(pollId)
+    };
+  }
+}
@@ -1,75 +1,250 @@
-import { withTransaction, TableNames } from '../config/database';
-import { CreateVoteDTO } from '../models/vote';
+import { VotablePoll, VoteRepository } from '../models/repository';
+import { CreateVoteDTO, RetractVoteDTO } from '../models/vote';
+import { createRepositories } from '../repositories';
+import {
+  ConflictError,
+  InvalidOptionError,
+  NotFoundError,
+  PollExpiredError,
+  ValidationError
+} from '../utils/errorHandler';
 
 /**
  * Service handling vote operations
  * @class VoteService
  */
 export class VoteService {
+  /**
+   * @param votes - Storage of votes, by default the one selected by `STORE_DRIVER`
+   */
+  constructor(private votes: VoteRepository = createRepositories().votes) {}
 
   /**
-   * Records a vote with transaction safety
-   * @param {CreateVoteDTO} voteData - Vote data including poll, option and user IDs
+   * Records a vote with transaction safety.
+   * Single-choice polls take an `option_id`, multi-select polls take `option_ids` and ranked polls
+   * take an ordered `ranking` of option IDs. Multi-select and ranked ballots are stored as ballot
+   * choices; every chosen option of a multi-select ballot is counted, ranked ballots count their
+   * first preference.
+   * @param {CreateVoteDTO} voteData - Vote data including poll, option(s) or ranking, and user IDs
    * @returns {Promise<{id: string}>} Vote result
    * @throws {Error} If vote recording fails
-   * @throws {Error} If vote data is invalid
-   * @throws {Error} If poll has expired
-   * @throws {Error} If option does not exist in the poll
-   * @throws {Error} If user has already voted in the poll
+   * @throws {ValidationError} If vote data is invalid
+   * @throws {NotFoundError} If poll does not exist
+   * @throws {PollExpiredError} If poll has expired
+   * @throws {InvalidOptionError} If the number of chosen options is outside the poll's selection bounds
+   * @throws {InvalidOptionError} If option does not exist in the poll
+   * @throws {InvalidOptionError} If the ballot contains duplicate options
+   * @throws {ConflictError} If user has already voted in the poll
    */
   async recordVote(voteData: CreateVoteDTO): Promise<{ id: string }> {
-    return withTransaction(async (client) => {
+    return this.votes.transaction(async (votes) => {
+      // Validate input data
+      if (!voteData.poll_id || !voteData.user_id) {
+        throw new ValidationError('Invalid vote data');
+      }
+
+      const poll = await this.getOpenPoll(votes, voteData.poll_id);
+      const choices = await this.resolveChoices(votes, poll, voteData);
+
+      // Check if user has already voted in the poll
+      if (await votes.findBallot(voteData.poll_id, voteData.user_id)) {
+        throw new ConflictError('User has already voted on this poll');
+      }
+
+      // Insert the vote, keeping the first choice as the ballot's option
+      const voteId = await votes.insertVote(voteData.poll_id, voteData.user_id, choices[0]);
+
+      await this.storeChoices(votes, poll, voteId, choices);
+      await this.updateOptionCounters(votes, poll, voteId, choices, 1);
+
+      // Update the total vote counter
+      await votes.adjustPollVoteCount(voteData.poll_id, 1);
+
+      return { id: voteId };
+    })
+  }
+
+  /**
+   * Moves a user's existing vote to a new set of options, keeping an audit row of the previous choice
+   * @param {CreateVoteDTO} voteData - Vote data including poll, new option(s) or ranking, and user IDs
+   * @returns {Promise<{id: string}>} ID of the changed vote
+   * @throws {ValidationError} If vote data is invalid
+   * @throws {NotFoundError} If poll does not exist
+   * @throws {PollExpiredError} If poll has expired
+   * @throws {ConflictError} If the poll does not allow vote changes
+   * @throws {InvalidOptionError} If the new ballot is invalid for the poll
+   * @throws {NotFoundError} If user has not voted in the poll
+   */
+  async changeVote(voteData: CreateVoteDTO): Promise<{ id: string }> {
+    return this.votes.transaction(async (votes) => {
       // Validate input data
-      if (!voteData.poll_id || !voteData.option_id || !voteData.user_id) {
-        throw new Error('Invalid vote data');
+      if (!voteData.poll_id || !voteData.user_id) {
+        throw new ValidationError('Invalid vote data');
       }
 
-      // Check if poll has expired
-      const pollResult = await client.query(
-        `SELECT expired_at FROM ${TableNames.POLLS} WHERE id = $1`,
-        [voteData.poll_id]
-      );
-      if (pollResult.rows.length === 0 || pollResult.rows[0].expired_at <= new Date()) {
-        throw new Error('Poll has expired');
+      const poll = await this.getOpenPoll(votes, voteData.poll_id);
+      if (!poll.allow_vote_change) {
+        throw new ConflictError('Vote changes are disabled for this poll');
       }
 
-      // Check if option exists in the poll
-      const optionResult = await client.query(
-        `SELECT id FROM ${TableNames.OPTIONS} WHERE poll_id = $1 AND id = $2`,
-        [voteData.poll_id, voteData.option_id]
-      );
-      if (optionResult.rows.length === 0) {
-        throw new Error('Invalid option for the poll');
+      const choices = await this.resolveChoices(votes, poll, voteData);
+      const { voteId, previousChoices } = await this.getExistingBallot(votes, poll, voteData);
+
+      await this.recordHistory(votes, voteId, voteData, 'changed', previousChoices);
+
+      // Swap the counted options and stored choices over to the new ballot
+      await this.updateOptionCounters(votes, poll, voteId, previousChoices, -1);
+      await votes.deleteChoices(voteId);
+      await votes.setVoteOption(voteId, choices[0]);
+      await this.storeChoices(votes, poll, voteId, choices);
+      await this.updateOptionCounters(votes, poll, voteId, choices, 1);
+
+      return { id: voteId };
+    });
+  }
+
+  /**
+   * Retracts a user's existing vote, keeping an audit row of the retracted choice
+   * @param {RetractVoteDTO} voteData - Poll and user IDs of the vote to retract
+   * @returns {Promise<{id: string}>} ID of the retracted vote
+   * @throws {ValidationError} If vote data is invalid
+   * @throws {NotFoundError} If poll does not exist
+   * @throws {PollExpiredError} If poll has expired
+   * @throws {ConflictError} If the poll does not allow vote changes
+   * @throws {NotFoundError} If user has not voted in the poll
+   */
+  async retractVote(voteData: RetractVoteDTO): Promise<{ id: string }> {
+    return this.votes.transaction(async (votes) => {
+      // Validate input data
+      if (!voteData.poll_id || !voteData.user_id) {
+        throw new ValidationError('Invalid vote data');
       }
 
-      // Check if user has already voted in the poll
-      const existingVote = await client.query(
-        `SELECT id FROM ${TableNames.VOTES} WHERE poll_id = $1 AND user_id = $2`,
-        [voteData.poll_id, voteData.user_id]
-      );
-      if (existingVote.rows.length > 0) {
-        throw new Error('User has already voted on this poll');
+      const poll = await this.getOpenPoll(votes, voteData.poll_id);
+      if (!poll.allow_vote_change) {
+        throw new ConflictError('Vote changes are disabled for this poll');
       }
 
-      // Insert the vote
-      const voteResult = await client.query(
-        `INSERT INTO ${TableNames.VOTES} (poll_id, option_id, user_id) VALUES ($1, $2, $3) RETURNING id`,
-        [voteData.poll_id, voteData.option_id, voteData.user_id]
-      );
+      const { voteId, previousChoices } = await this.getExistingBallot(votes, poll, voteData);
+
+      await this.recordHistory(votes, voteId, voteData, 'retracted', previousChoices);
+      await this.updateOptionCounters(votes, poll, voteId, previousChoices, -1);
 
-      // Update the vote counter
-      await client.query(
-        `UPDATE ${TableNames.OPTION_VOTE_COUNTERS} SET vote_count = vote_count + 1 WHERE option_id = $1`,
-        [voteData.option_id]
-      );
+      // Remove the vote together with its ballot choices
+      await votes.deleteVote(voteId);
 
       // Update the total vote counter
-      await client.query(
-        `UPDATE ${TableNames.VOTE_COUNTERS} SET vote_count = vote_count + 1 WHERE poll_id = $1`,
-        [voteData.poll_id]
-      );
+      await votes.adjustPollVoteCount(voteData.poll_id, -1);
 
-      return { id: voteResult.rows[0].id };
-    })
+      return { id: voteId };
+    });
+  }
+
+  /**
+   * Loads a poll that is still accepting votes
+   * @throws {NotFoundError} If poll does not exist
+   * @throws {PollExpiredError} If poll has expired
+   */
+  private async getOpenPoll(votes: VoteRepository, pollId: string): Promise<VotablePoll> {
+    const poll = await votes.findVotablePoll(pollId);
+    if (!poll) {
+      throw new NotFoundError('Poll does not exist');
+    }
+    if (new Date(poll.expired_at) <= new Date()) {
+      throw new PollExpiredError('Poll has expired');
+    }
+    return poll;
+  }
+
+  /**
+   * Resolves the ballot of a vote into an ordered list of option IDs and validates it against the poll
+   * @throws {ValidationError} If the ballot is missing
+   * @throws {InvalidOptionError} If the ballot is out of the selection bounds, has duplicates or foreign options
+   */
+  private async resolveChoices(votes: VoteRepository, poll: VotablePoll, voteData: CreateVoteDTO): Promise<string[]> {
+    const choices = poll.poll_type === 'ranked'
+      ? voteData.ranking
+      : voteData.option_ids ?? (voteData.option_id ? [voteData.option_id] : undefined);
+    if (!Array.isArray(choices) || choices.length === 0) {
+      throw new ValidationError('Invalid vote data');
+    }
+    if (choices.length < poll.min_selections || choices.length > poll.max_selections) {
+      throw new InvalidOptionError(`Ballot must choose between ${poll.min_selections} and ${poll.max_selections} options`);
+    }
+    if (new Set(choices).size !== choices.length) {
+      throw new InvalidOptionError('Ballot contains duplicate options');
+    }
+
+    // Check if options exist in the poll
+    if (await votes.countPollOptions(voteData.poll_id, choices) !== choices.length) {
+      throw new InvalidOptionError('Invalid option for the poll');
+    }
+
+    return choices;
+  }
+
+  /**
+   * Locks a user's vote in a poll and reads its current choices
+   * @throws {NotFoundError} If user has not voted in the poll
+   */
+  private async getExistingBallot(
+    votes: VoteRepository,
+    poll: VotablePoll,
+    voteData: RetractVoteDTO
+  ): Promise<{ voteId: string; previousChoices: string[] }> {
+    const ballot = await votes.findBallot(voteData.poll_id, voteData.user_id, true);
+    if (!ballot) {
+      throw new NotFoundError('User has not voted on this poll');
+    }
+
+    return {
+      voteId: ballot.id,
+      previousChoices: poll.poll_type === 'single' ? [ballot.option_id] : ballot.choices
+    };
+  }
+
+  /**
+   * Stores every choice of a multi-select or ranked ballot in order
+   */
+  private async storeChoices(votes: VoteRepository, poll: VotablePoll, voteId: string, choices: string[]): Promise<void> {
+    if (poll.poll_type === 'single') {
+      return;
+    }
+    await votes.storeChoices(voteId, choices);
+  }
+
+  /**
+   * Adds `delta` to the vote counters of a ballot's counted options, and to their rollups in the
+   * minute the vote was first cast, so changed votes stay in their original bucket.
+   * Ranked ballots only count their first preference.
+   */
+  private async updateOptionCounters(
+    votes: VoteRepository,
+    poll: VotablePoll,
+    voteId: string,
+    choices: string[],
+    delta: number
+  ): Promise<void> {
+    const countedOptions = poll.poll_type === 'ranked' ? choices.slice(0, 1) : choices;
+    await votes.adjustOptionVoteCounts(voteId, countedOptions, delta);
+  }
+
+  /**
+   * Keeps an audit row of a ballot's choices before it was changed or retracted
+   */
+  private async recordHistory(
+    votes: VoteRepository,
+    voteId: string,
+    voteData: RetractVoteDTO,
+    action: 'changed' | 'retracted',
+    previousChoices: string[]
+  ): Promise<void> {
+    await votes.recordHistory({
+      vote_id: voteId,
+      poll_id: voteData.poll_id,
+      user_id: voteData.user_id,
+      action,
+      previous_option_ids: previousChoices
+    });
   }
 }
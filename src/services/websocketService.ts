@@ -1,6 +1,93 @@
 import WebSocket from 'ws';
 import { Server } from 'http';
-import { LeaderboardResult } from '../models/poll';
+import { randomUUID } from 'crypto';
+import { LeaderboardQuery, LeaderboardResult, LeaderboardViewResult, PollResult } from '../models/poll';
+import { Operation } from '../models/operation';
+import { ClientMessage, SubscriptionMessage } from '../models/websocket';
+import { ValidationError } from '../utils/errorHandler';
+import { leaderboardChannel, parseLeaderboardQuery } from '../utils/leaderboardView';
+
+/** Maximum number of channels, polls and leaderboard views, a single client may subscribe to */
+const MAX_SUBSCRIPTIONS_PER_CLIENT = parseInt(process.env.WS_MAX_SUBSCRIPTIONS || '100', 10);
+
+/** Interval between liveness pings; clients that have not answered the previous ping are terminated */
+const HEARTBEAT_INTERVAL_MS = parseInt(process.env.WS_HEARTBEAT_INTERVAL_MS || '30000', 10);
+
+/** Unsent bytes a client may have buffered before further frames are queued instead of written */
+const MAX_BUFFERED_BYTES = parseInt(process.env.WS_MAX_BUFFERED_BYTES || '1048576', 10);
+
+/** Frames a slow client may have queued before the oldest ones are dropped */
+const MAX_QUEUED_FRAMES = parseInt(process.env.WS_MAX_QUEUED_FRAMES || '100', 10);
+
+/** Number of recent updates kept for clients resuming after a reconnect */
+const REPLAY_BUFFER_SIZE = parseInt(process.env.WS_REPLAY_BUFFER_SIZE || '1000', 10);
+
+/** How long a channel keeps being published after its last subscriber disconnected */
+const RESUME_WINDOW_MS = parseInt(process.env.WS_RESUME_WINDOW_MS || '60000', 10);
+
+/** Frame waiting to be written to a client */
+interface OutboundFrame {
+  /** Frames with the same key supersede each other while queued; unset for frames that must all be delivered */
+  key?: string;
+  data: string;
+}
+
+/** Sequenced update, kept for clients resuming after a reconnect */
+interface Update extends OutboundFrame {
+  key: string;
+  seq: number;
+  /** Channel the update is published on, unset for updates every client receives */
+  channel?: string;
+}
+
+/** State of a connected client */
+interface ClientConnection {
+  socket: WebSocket;
+  /** Whether the client answered the last ping */
+  alive: boolean;
+  /** Frames held back while the socket's buffer is full */
+  queue: OutboundFrame[];
+  /** Channels the client is subscribed to */
+  channels: Set<string>;
+}
+
+/**
+ * Names the WebSocket channel of a poll's results
+ * @param pollId - ID of the poll
+ * @returns Channel name
+ */
+const pollChannel = (pollId: string): string => `poll:${pollId}`;
+
+/**
+ * Parses a message sent by a client
+ * @param raw - Raw message data
+ * @returns The parsed message, or null if it is not a message of the client protocol
+ * @throws {ValidationError} If the leaderboard view of a subscription is invalid
+ */
+const parseClientMessage = (raw: WebSocket.RawData): ClientMessage | null => {
+  let message: unknown;
+  try {
+    message = JSON.parse(raw.toString());
+  } catch (error) {
+    return null;
+  }
+
+  if (typeof message !== 'object' || message === null) {
+    return null;
+  }
+
+  const { type, poll_id, leaderboard, last_seq, epoch } = message as Record<string, unknown>;
+  if ((type === 'subscribe' || type === 'unsubscribe') && typeof poll_id === 'string' && poll_id.length > 0) {
+    return { type, poll_id };
+  }
+  if ((type === 'subscribe' || type === 'unsubscribe') && typeof leaderboard === 'object' && leaderboard !== null) {
+    return { type, leaderboard: parseLeaderboardQuery(leaderboard as Record<string, unknown>) };
+  }
+  if (type === 'resume' && typeof last_seq === 'number' && Number.isInteger(last_seq) && last_seq >= 0) {
+    return { type, last_seq, epoch: typeof epoch === 'string' ? epoch : undefined };
+  }
+  return null;
+};
 
 /**
  * Service for managing WebSocket connections and broadcasting updates to connected clients
@@ -9,19 +96,333 @@ export class WebSocketService {
   /** WebSocket server instance */
   public wss: WebSocket.Server;
 
+  /** Connected clients by the ID they were given on connection */
+  private clients = new Map<string, ClientConnection>();
+
+  /** IDs of the clients subscribed to each channel */
+  private subscribers = new Map<string, Set<string>>();
+
+  /** Channels whose last subscriber disconnected, with the time until which they keep being published */
+  private recentlyWatched = new Map<string, number>();
+
+  /** Leaderboard views by channel, while subscribed or recently watched */
+  private leaderboardViews = new Map<string, LeaderboardQuery>();
+
+  /**
+   * Identifies the sequence of this instance's updates. Sequence numbers of different instances,
+   * or of one instance before a restart, are unrelated, so resuming compares the epoch first.
+   */
+  private readonly epoch = randomUUID();
+
+  /** Sequence number of the last published update */
+  private seq = 0;
+
+  /** Most recent updates in sequence order */
+  private replayBuffer: Update[] = [];
+
+  /** Latest update of each key, oldest first, from which resuming clients get a snapshot */
+  private latestUpdates = new Map<string, Update>();
+
+  private heartbeat: NodeJS.Timeout;
+
   /**
-   * Initializes the WebSocket server and sets up connection handling
+   * Initializes the WebSocket server and sets up connection handling.
+   * Each connection is given a client ID, which HTTP requests can send in the `X-Client-Id`
+   * header to be notified when their queued commands are processed. Clients send
+   * `{ "type": "subscribe" | "unsubscribe", "poll_id": "..." }` to follow the results of single polls,
+   * `{ "type": "subscribe" | "unsubscribe", "leaderboard": { "limit", "scope", "window", "sort" } }`
+   * to follow leaderboard views, and `{ "type": "resume", "epoch": "...", "last_seq": n }` after reconnecting to catch up on missed updates.
    * @param server - HTTP server instance to attach the WebSocket server to
    */
   constructor(server: Server) {
     this.wss = new WebSocket.Server({ server });
     this.wss.on('connection', (ws: WebSocket) => {
-      console.log('New WebSocket connection established');
+      const clientId = randomUUID();
+      this.clients.set(clientId, { socket: ws, alive: true, queue: [], channels: new Set() });
+      console.log(`New WebSocket connection established: ${clientId}`);
+
+      ws.send(JSON.stringify({
+        type: 'CONNECTED',
+        data: { client_id: clientId, epoch: this.epoch, seq: this.seq }
+      }));
+
+      ws.on('pong', () => {
+        const connection = this.clients.get(clientId);
+        if (connection) {
+          connection.alive = true;
+        }
+      });
+
+      ws.on('message', (raw) => {
+        this.handleMessage(clientId, raw);
+      });
+
+      ws.on('close', () => {
+        const connection = this.clients.get(clientId);
+        this.clients.delete(clientId);
+        for (const channel of connection?.channels ?? []) {
+          this.unsubscribe(clientId, channel, true);
+        }
+      });
 
       ws.on('error', (error) => {
         console.error('WebSocket error:', error);
       });
     });
+
+    this.heartbeat = setInterval(() => this.checkLiveness(), HEARTBEAT_INTERVAL_MS);
+    this.heartbeat.unref();
+  }
+
+  /**
+   * Terminates clients that did not answer the previous ping and pings the others
+   */
+  private checkLiveness(): void {
+    for (const [clientId, connection] of this.clients) {
+      if (!connection.alive) {
+        console.log(`Terminating unresponsive WebSocket client: ${clientId}`);
+        connection.socket.terminate();
+        continue;
+      }
+      connection.alive = false;
+      connection.socket.ping();
+    }
+
+    const now = Date.now();
+    for (const [channel, until] of this.recentlyWatched) {
+      if (until <= now) {
+        this.recentlyWatched.delete(channel);
+        this.leaderboardViews.delete(channel);
+      }
+    }
+  }
+
+  /**
+   * Handles a message of the client protocol, answering with an acknowledgement or an error
+   * @param clientId - ID of the sending client
+   * @param raw - Raw message data
+   */
+  private handleMessage(clientId: string, raw: WebSocket.RawData): void {
+    const connection = this.clients.get(clientId);
+    if (!connection) {
+      return;
+    }
+
+    let message: ClientMessage | null;
+    try {
+      message = parseClientMessage(raw);
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        this.sendError(clientId, error.message);
+        return;
+      }
+      throw error;
+    }
+    if (!message) {
+      this.sendError(
+        clientId,
+        'Messages must be { "type": "subscribe" | "unsubscribe", "poll_id": string }, ' +
+          '{ "type": "subscribe" | "unsubscribe", "leaderboard": object } or { "type": "resume", "last_seq": number }'
+      );
+      return;
+    }
+
+    if (message.type === 'resume') {
+      this.resume(clientId, connection, message.last_seq, message.epoch);
+      return;
+    }
+
+    const { channel, subject } = this.subscriptionTarget(message);
+    if (message.type === 'unsubscribe') {
+      this.unsubscribe(clientId, channel, false);
+      this.sendToClient(clientId, JSON.stringify({ type: 'UNSUBSCRIBED', data: subject }));
+      return;
+    }
+
+    if (!connection.channels.has(channel) && connection.channels.size >= MAX_SUBSCRIPTIONS_PER_CLIENT) {
+      this.sendError(clientId, `Clients may subscribe to at most ${MAX_SUBSCRIPTIONS_PER_CLIENT} channels`);
+      return;
+    }
+
+    connection.channels.add(channel);
+    const clients = this.subscribers.get(channel) ?? new Set<string>();
+    clients.add(clientId);
+    this.subscribers.set(channel, clients);
+    this.recentlyWatched.delete(channel);
+    if ('leaderboard' in message) {
+      this.leaderboardViews.set(channel, message.leaderboard);
+    }
+    this.sendToClient(clientId, JSON.stringify({ type: 'SUBSCRIBED', data: subject }));
+
+    // Views are shared between clients, so a new subscriber can start from the latest one
+    const latest = this.latestUpdates.get(channel);
+    if (latest && 'leaderboard' in message) {
+      this.send(clientId, latest);
+    }
+  }
+
+  /**
+   * Resolves the channel of a subscription message
+   * @param message - Subscription message
+   * @returns The channel, and what the acknowledgement reports as subscribed
+   */
+  private subscriptionTarget(message: SubscriptionMessage): { channel: string; subject: Record<string, unknown> } {
+    if ('poll_id' in message) {
+      return { channel: pollChannel(message.poll_id), subject: { poll_id: message.poll_id } };
+    }
+    const channel = leaderboardChannel(message.leaderboard);
+    return { channel, subject: { channel, leaderboard: message.leaderboard } };
+  }
+
+  /**
+   * Removes a client from the subscribers of a channel
+   * @param clientId - ID of the client
+   * @param channel - Channel to leave
+   * @param disconnected - Whether the client went away, in which case the channel keeps being
+   * published for a while so the client can resume
+   */
+  private unsubscribe(clientId: string, channel: string, disconnected: boolean): void {
+    this.clients.get(clientId)?.channels.delete(channel);
+    const clients = this.subscribers.get(channel);
+    clients?.delete(clientId);
+    if (clients?.size === 0) {
+      this.subscribers.delete(channel);
+      if (disconnected) {
+        this.recentlyWatched.set(channel, Date.now() + RESUME_WINDOW_MS);
+      } else {
+        this.leaderboardViews.delete(channel);
+      }
+    }
+  }
+
+  /**
+   * Checks whether any client of this instance follows a channel, or did until recently and may resume
+   * @param channel - Channel name
+   * @returns Whether the channel has subscribers
+   */
+  private isWatched(channel: string): boolean {
+    return this.subscribers.has(channel) || (this.recentlyWatched.get(channel) ?? 0) > Date.now();
+  }
+
+  /**
+   * Sends a reconnected client the updates it missed since `lastSeq`, or a snapshot of the latest
+   * update of each kind if those are no longer buffered or the client last received updates of
+   * another epoch, such as from another instance. Clients subscribe to their channels again before
+   * resuming to receive the updates published on them.
+   * @param clientId - ID of the client
+   * @param connection - State of the client
+   * @param lastSeq - Sequence number of the last update the client received
+   * @param epoch - Epoch of that sequence number
+   */
+  private resume(clientId: string, connection: ClientConnection, lastSeq: number, epoch?: string): void {
+    const oldest = this.replayBuffer.length > 0 ? this.replayBuffer[0].seq : this.seq + 1;
+    const mode = epoch === this.epoch && lastSeq <= this.seq && lastSeq >= oldest - 1 ? 'deltas' : 'snapshot';
+    const updates = mode === 'deltas'
+      ? this.replayBuffer.filter(update => update.seq > lastSeq)
+      : [...this.latestUpdates.values()].sort((a, b) => a.seq - b.seq);
+
+    for (const update of updates) {
+      if (!update.channel || connection.channels.has(update.channel)) {
+        this.send(clientId, update);
+      }
+    }
+
+    this.sendToClient(clientId, JSON.stringify({ type: 'RESUMED', data: { mode, epoch: this.epoch, seq: this.seq } }));
+  }
+
+  /**
+   * Tells a client that its message was rejected
+   * @param clientId - ID of the client
+   * @param message - Why the message was rejected
+   */
+  private sendError(clientId: string, message: string): void {
+    this.sendToClient(clientId, JSON.stringify({ type: 'ERROR', data: { message } }));
+  }
+
+  /**
+   * Writes a frame to a client, or queues it while the client's socket buffer is full.
+   * A queued frame replaces an earlier queued frame with the same key, and the oldest frames are
+   * dropped once the queue is full; the client can recover dropped updates by resuming.
+   * @param clientId - ID of the client
+   * @param frame - Frame to send
+   * @returns Whether the client is connected here and the frame was sent or queued
+   */
+  private send(clientId: string, frame: OutboundFrame): boolean {
+    const connection = this.clients.get(clientId);
+    if (!connection || connection.socket.readyState !== WebSocket.OPEN) {
+      return false;
+    }
+
+    if (connection.queue.length === 0 && connection.socket.bufferedAmount <= MAX_BUFFERED_BYTES) {
+      this.write(connection, frame);
+      return true;
+    }
+
+    if (frame.key) {
+      connection.queue = connection.queue.filter(queued => queued.key !== frame.key);
+    }
+    connection.queue.push(frame);
+    if (connection.queue.length > MAX_QUEUED_FRAMES) {
+      connection.queue.shift();
+      console.warn(`Dropped a frame for slow WebSocket client: ${clientId}`);
+    }
+    return true;
+  }
+
+  /**
+   * Writes a frame to a client's socket and drains its queue once the frame is flushed
+   * @param connection - State of the client
+   * @param frame - Frame to write
+   */
+  private write(connection: ClientConnection, frame: OutboundFrame): void {
+    connection.socket.send(frame.data, (error) => {
+      if (!error) {
+        this.drain(connection);
+      }
+    });
+  }
+
+  /**
+   * Writes queued frames to a client while its socket buffer has room
+   * @param connection - State of the client
+   */
+  private drain(connection: ClientConnection): void {
+    while (
+      connection.queue.length > 0 &&
+      connection.socket.readyState === WebSocket.OPEN &&
+      connection.socket.bufferedAmount <= MAX_BUFFERED_BYTES
+    ) {
+      this.write(connection, connection.queue.shift() as OutboundFrame);
+    }
+  }
+
+  /**
+   * Assigns the next sequence number to an update, keeps it for resuming clients and sends it
+   * to every client, or only to the subscribers of its channel
+   * @param type - Message type
+   * @param key - Updates with the same key supersede each other
+   * @param payload - Message data
+   * @param channel - Channel the update is published on, if any
+   */
+  private publish(type: string, key: string, payload: unknown, channel?: string): void {
+    const seq = ++this.seq;
+    const update: Update = { key, seq, channel, data: JSON.stringify({ type, epoch: this.epoch, seq, data: payload }) };
+
+    this.replayBuffer.push(update);
+    if (this.replayBuffer.length > REPLAY_BUFFER_SIZE) {
+      this.replayBuffer.shift();
+    }
+
+    this.latestUpdates.delete(key);
+    this.latestUpdates.set(key, update);
+    if (this.latestUpdates.size > REPLAY_BUFFER_SIZE) {
+      this.latestUpdates.delete(this.latestUpdates.keys().next().value);
+    }
+
+    const recipients = channel ? this.subscribers.get(channel) ?? [] : this.clients.keys();
+    for (const clientId of recipients) {
+      this.send(clientId, update);
+    }
   }
 
   /**
@@ -29,11 +430,19 @@ export class WebSocketService {
    * @param data - String data to broadcast to all clients
    */
   broadcast(data: string): void {
-    this.wss.clients.forEach((client) => {
-      if (client.readyState === WebSocket.OPEN) {
-        client.send(data);
-      }
-    });
+    for (const clientId of this.clients.keys()) {
+      this.send(clientId, { data });
+    }
+  }
+
+  /**
+   * Sends data to a single client connected to this instance
+   * @param clientId - ID the client was given on connection
+   * @param data - String data to send
+   * @returns Whether the client is connected here and the data was sent or queued
+   */
+  sendToClient(clientId: string, data: string): boolean {
+    return this.send(clientId, { data });
   }
 
   /**
@@ -41,16 +450,68 @@ export class WebSocketService {
    * @param leaderboard - Current leaderboard data to broadcast
    */
   sendLeaderboardUpdate(leaderboard: LeaderboardResult): void {
-    this.broadcast(JSON.stringify({
-      type: 'LEADERBOARD_UPDATE',
-      data: leaderboard
+    this.publish('LEADERBOARD_UPDATE', 'leaderboard', leaderboard);
+  }
+
+  /**
+   * Checks whether any client of this instance follows a poll, or did until recently and may resume
+   * @param pollId - ID of the poll
+   * @returns Whether the poll has subscribers
+   */
+  hasSubscribers(pollId: string): boolean {
+    return this.isWatched(pollChannel(pollId));
+  }
+
+  /**
+   * Lists the leaderboard views clients of this instance follow, or did until recently and may resume
+   * @returns Subscribed views
+   */
+  subscribedLeaderboardViews(): LeaderboardQuery[] {
+    return [...this.leaderboardViews]
+      .filter(([channel]) => this.isWatched(channel))
+      .map(([, view]) => view);
+  }
+
+  /**
+   * Sends a leaderboard view to the clients subscribed to it
+   * @param result - Current entries of the view
+   */
+  sendLeaderboardViewUpdate(result: LeaderboardViewResult): void {
+    const channel = leaderboardChannel(result.view);
+    this.publish('LEADERBOARD_VIEW_UPDATE', channel, result, channel);
+  }
+
+  /**
+   * Sends the current results of a poll to the clients subscribed to it
+   * @param pollId - ID of the poll
+   * @param result - Current poll results
+   */
+  sendPollResultsUpdate(pollId: string, result: PollResult): void {
+    const channel = pollChannel(pollId);
+    this.publish('POLL_RESULTS_UPDATE', channel, result, channel);
+  }
+
+  /**
+   * Notifies the client that queued a command about its outcome
+   * @param clientId - ID of the originating client
+   * @param operation - Processed operation
+   */
+  sendOperationUpdate(clientId: string, operation: Operation): void {
+    this.sendToClient(clientId, JSON.stringify({
+      type: 'OPERATION_UPDATE',
+      data: operation
     }));
   }
 
   /**
-   * Closes the WebSocket server and terminates all connections
+   * Stops the heartbeat, closes all connections with a "going away" status so clients reconnect
+   * and resume elsewhere, and closes the WebSocket server
    */
   close(): void {
+    clearInterval(this.heartbeat);
+    for (const { socket } of this.clients.values()) {
+      socket.close(1001, 'Server shutting down');
+    }
     this.wss.close();
   }
 }
@@ -0,0 +1,229 @@
+import { createHash, createHmac, timingSafeEqual } from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import { AuthPrincipal, TokenClaims } from '../models/auth';
+import { ForbiddenError, UnauthorizedError, ValidationError } from './errorHandler';
+
+declare global {
+  namespace Express {
+    interface Request {
+      /** Caller authenticated by the auth middleware, if the request carried credentials */
+      principal?: AuthPrincipal;
+    }
+  }
+}
+
+/**
+ * Resolves the caller of a request from one kind of credentials
+ */
+export interface AuthStrategy {
+  /**
+   * @param req - Incoming request
+   * @returns The authenticated caller, or null if the request carries no credentials of this kind
+   * @throws {UnauthorizedError} If the request carries credentials of this kind that are invalid
+   */
+  authenticate(req: Request): AuthPrincipal | null;
+}
+
+/**
+ * Compares two secrets in constant time, whatever their lengths
+ * @param a - First secret
+ * @param b - Second secret
+ * @returns Whether both secrets are equal
+ */
+const safeEqual = (a: string | Buffer, b: string | Buffer): boolean =>
+  timingSafeEqual(createHash('sha256').update(a).digest(), createHash('sha256').update(b).digest());
+
+/**
+ * Decodes a base64url-encoded JSON segment of a token
+ * @throws {UnauthorizedError} If the segment is not valid JSON
+ */
+const decodeSegment = (segment: string): Record<string, unknown> => {
+  try {
+    return JSON.parse(Buffer.from(segment, 'base64url').toString('utf-8'));
+  } catch (error) {
+    throw new UnauthorizedError('Malformed bearer token');
+  }
+};
+
+/**
+ * Verifies an HS256-signed JWT and returns its claims
+ * @param token - Compact-serialized JWT
+ * @param secret - Shared HMAC secret
+ * @returns Claims of the token
+ * @throws {UnauthorizedError} If the token is malformed, badly signed, expired, not yet valid or has no subject
+ */
+export const verifyToken = (token: string, secret: string): TokenClaims => {
+  const segments = token.split('.');
+  if (segments.length !== 3) {
+    throw new UnauthorizedError('Malformed bearer token');
+  }
+
+  const [header, payload, signature] = segments;
+  if (decodeSegment(header).alg !== 'HS256') {
+    throw new UnauthorizedError('Unsupported token algorithm');
+  }
+
+  const expected = createHmac('sha256', secret).update(`${header}.${payload}`).digest();
+  if (!safeEqual(expected, Buffer.from(signature, 'base64url'))) {
+    throw new UnauthorizedError('Invalid token signature');
+  }
+
+  const claims = decodeSegment(payload);
+  const now = Math.floor(Date.now() / 1000);
+  if (typeof claims.exp === 'number' && claims.exp <= now) {
+    throw new UnauthorizedError('Token has expired');
+  }
+  if (typeof claims.nbf === 'number' && claims.nbf > now) {
+    throw new UnauthorizedError('Token is not valid yet');
+  }
+  if (typeof claims.sub !== 'string' || claims.sub.length === 0) {
+    throw new UnauthorizedError('Token has no subject');
+  }
+
+  return claims as TokenClaims;
+};
+
+/**
+ * Authenticates users by an HS256-signed JWT in the `Authorization: Bearer` header
+ * @param secret - Shared HMAC secret the tokens are signed with
+ * @returns Strategy yielding the token subject as a user principal
+ */
+export const bearerTokenStrategy = (secret: string): AuthStrategy => ({
+  authenticate(req) {
+    const authorization = req.get('Authorization');
+    if (!authorization) {
+      return null;
+    }
+
+    const [scheme, token] = authorization.split(' ');
+    if (scheme.toLowerCase() !== 'bearer' || !token) {
+      throw new UnauthorizedError('Authorization header must be a bearer token');
+    }
+
+    return { kind: 'user', subject: verifyToken(token, secret).sub };
+  }
+});
+
+/**
+ * Authenticates other services by a key in the `X-API-Key` header
+ * @param keys - Names of the calling services keyed by their API keys
+ * @returns Strategy yielding the service name as a service principal
+ */
+export const apiKeyStrategy = (keys: Map<string, string>): AuthStrategy => ({
+  authenticate(req) {
+    const apiKey = req.get('X-API-Key');
+    if (apiKey === undefined) {
+      return null;
+    }
+
+    for (const [key, service] of keys) {
+      if (safeEqual(apiKey, key)) {
+        return { kind: 'service', subject: service };
+      }
+    }
+    throw new UnauthorizedError('Invalid API key');
+  }
+});
+
+/**
+ * Builds the auth strategies configured in the environment:
+ * `AUTH_JWT_SECRET` enables bearer tokens and `AUTH_API_KEYS` (comma-separated `service:key` pairs) enables API keys
+ * @returns Configured strategies, tried in order
+ */
+export const strategiesFromEnv = (): AuthStrategy[] => {
+  const strategies: AuthStrategy[] = [];
+
+  if (process.env.AUTH_JWT_SECRET) {
+    strategies.push(bearerTokenStrategy(process.env.AUTH_JWT_SECRET));
+  }
+
+  if (process.env.AUTH_API_KEYS) {
+    const keys = new Map<string, string>();
+    for (const pair of process.env.AUTH_API_KEYS.split(',')) {
+      const separator = pair.indexOf(':');
+      if (separator > 0 && separator < pair.length - 1) {
+        keys.set(pair.slice(separator + 1).trim(), pair.slice(0, separator).trim());
+      }
+    }
+    strategies.push(apiKeyStrategy(keys));
+  }
+
+  if (strategies.length === 0) {
+    console.warn('No authentication configured; set AUTH_JWT_SECRET or AUTH_API_KEYS to allow write requests');
+  }
+
+  return strategies;
+};
+
+/**
+ * Creates middleware attaching the authenticated caller to `req.principal`.
+ * Requests without credentials pass through anonymously; routes that need a caller use `getPrincipal`.
+ * @param strategies - Strategies to try in order, the first one recognizing the credentials wins
+ * @returns Express middleware
+ */
+export const authenticate = (strategies: AuthStrategy[]) => (
+  req: Request,
+  _res: Response,
+  next: NextFunction
+): void => {
+  try {
+    for (const strategy of strategies) {
+      const principal = strategy.authenticate(req);
+      if (principal) {
+        req.principal = principal;
+        break;
+      }
+    }
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Returns the authenticated caller of a request that needs one
+ * @param req - Request that went through the auth middleware
+ * @returns Authenticated caller
+ * @throws {UnauthorizedError} If the request is anonymous
+ */
+export const getPrincipal = (req: Request): AuthPrincipal => {
+  if (!req.principal) {
+    throw new UnauthorizedError('Authentication required');
+  }
+  return req.principal;
+};
+
+/**
+ * Resolves the user a request acts as. Users always act as themselves, services act on behalf of
+ * the user they name.
+ * @param principal - Authenticated caller
+ * @param requested - User ID named in the request, if any
+ * @returns ID of the acting user, or undefined if a service named none
+ * @throws {ForbiddenError} If a user names somebody else
+ * @throws {ValidationError} If a service names an invalid user ID
+ */
+export const actingUserId = (principal: AuthPrincipal, requested?: unknown): string | undefined => {
+  if (principal.kind === 'user') {
+    if (requested !== undefined && requested !== principal.subject) {
+      throw new ForbiddenError('Cannot act on behalf of another user');
+    }
+    return principal.subject;
+  }
+
+  if (requested !== undefined && (typeof requested !== 'string' || requested.trim().length === 0)) {
+    throw new ValidationError('User ID must be a non-empty string');
+  }
+  return requested;
+};
+
+/**
+ * Checks that the caller may manage a poll: its owner, or any service
+ * @param principal - Authenticated caller
+ * @param owner - ID of the user who created the poll, if known
+ * @throws {ForbiddenError} If a user other than the owner tries to manage the poll
+ */
+export const assertPollOwner = (principal: AuthPrincipal, owner: string | null): void => {
+  if (principal.kind === 'user' && principal.subject !== owner) {
+    throw new ForbiddenError('Only the poll owner can change this poll');
+  }
+};
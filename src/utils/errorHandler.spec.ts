@@ -0,0 +1,141 @@
+import express from 'express';
+import { AddressInfo } from 'net';
+import { IncomingHttpHeaders, Server, request as httpRequest } from 'http';
+import {
+  ConflictError,
+  InvalidOptionError,
+  NotFoundError,
+  PollExpiredError,
+  RateLimitError,
+  ValidationError,
+  asyncHandler,
+  errorCode,
+  errorFromCode,
+  errorHandler
+} from './errorHandler';
+
+describe('errorHandler', () => {
+  let server: Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    const app = express();
+    app.use(express.json());
+    app.get('/polls/missing', asyncHandler(async () => {
+      throw new NotFoundError('Poll does not exist');
+    }));
+    app.post('/polls/:id/vote', asyncHandler(async (req: express.Request) => {
+      switch (req.body.case) {
+        case 'duplicate': throw new ConflictError('User has already voted on this poll');
+        case 'expired': throw new PollExpiredError('Poll has expired');
+        case 'option': throw new InvalidOptionError('Invalid option for the poll');
+        case 'invalid': throw new ValidationError('Invalid vote data', [{ field: 'option_id', message: 'is required' }]);
+        case 'limited': throw new RateLimitError('Too many votes for this address, try again later', 12);
+        default: throw new Error('Connection lost');
+      }
+    }));
+    app.post('/operations/rejected', asyncHandler(async (req: express.Request) => {
+      throw errorFromCode(req.body.code, 'Command was rejected');
+    }));
+    app.get('/stream', (_req, res, next) => {
+      res.status(200).write('partial');
+      next(new Error('Stream failed'));
+    });
+    app.use(errorHandler);
+
+    server = app.listen(0);
+    await new Promise(resolve => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(() => new Promise(resolve => server.close(resolve)));
+
+  /**
+   * Sends a request and reads the whole response
+   */
+  const request = (method: string, path: string, body?: unknown) =>
+    new Promise<{ status?: number; headers: IncomingHttpHeaders; body: string }>((resolve, reject) => {
+      const req = httpRequest(`${baseUrl}${path}`, { method, headers: { 'Content-Type': 'application/json' } }, res => {
+        let data = '';
+        res.setEncoding('utf8');
+        res.on('data', chunk => data += chunk);
+        res.on('end', () => resolve({ status: res.statusCode, headers: res.headers, body: data }));
+        res.on('aborted', () => reject(new Error('Response aborted')));
+        res.on('error', reject);
+      });
+      req.on('error', reject);
+      req.end(body === undefined ? undefined : JSON.stringify(body));
+    });
+
+  /**
+   * Sends a vote request that fails in the given way
+   */
+  const vote = (failure: string) => request('POST', '/polls/1/vote', { case: failure });
+
+  it('answers with RFC 7807 problem details', async () => {
+    const response = await request('GET', '/polls/missing?page=1');
+
+    expect(response.status).toBe(404);
+    expect(response.headers['content-type']).toMatch(/^application\/problem\+json/);
+    expect(JSON.parse(response.body)).toEqual({
+      type: 'urn:polling:problem:not_found',
+      title: 'Not Found',
+      status: 404,
+      detail: 'Poll does not exist',
+      instance: '/polls/missing?page=1',
+      code: 'not_found'
+    });
+  });
+
+  it.each([
+    ['duplicate', 409, 'conflict'],
+    ['expired', 410, 'poll_expired'],
+    ['option', 422, 'invalid_option'],
+    ['invalid', 400, 'validation_failed'],
+    ['limited', 429, 'rate_limited'],
+    ['unknown', 500, 'internal_error']
+  ])('maps %s errors to %i with code %s', async (failure, status, code) => {
+    const response = await vote(failure);
+
+    expect(response.status).toBe(status);
+    expect(JSON.parse(response.body)).toMatchObject({ status, code });
+  });
+
+  it('keeps the field errors of validation problems', async () => {
+    const problem = JSON.parse((await vote('invalid')).body);
+
+    expect(problem.details).toEqual([{ field: 'option_id', message: 'is required' }]);
+  });
+
+  it('tells rate limited clients when to retry', async () => {
+    const response = await vote('limited');
+
+    expect(response.headers['retry-after']).toBe('12');
+    expect(JSON.parse(response.body).detail).toBe('Too many votes for this address, try again later');
+  });
+
+  it('leaves responses that have started to the default handler', async () => {
+    // The default handler destroys the connection, cutting the body short
+    await expect(request('GET', '/stream')).rejects.toThrow();
+  });
+
+  it('round-trips errors through their codes', () => {
+    const error = errorFromCode(errorCode(new ConflictError('Poll already exists')), 'Poll already exists');
+
+    expect(error).toBeInstanceOf(ConflictError);
+    expect(error.message).toBe('Poll already exists');
+  });
+
+  it.each([
+    ['conflict', 409, 'conflict'],
+    ['database_unavailable', 503, 'database_unavailable'],
+    ['internal_error', 500, 'internal_error'],
+    ['no_such_code', 500, 'internal_error'],
+    [undefined, 500, 'internal_error']
+  ])('answers rejections with code %s with %i', async (rejectedCode, status, code) => {
+    const response = await request('POST', '/operations/rejected', { code: rejectedCode });
+
+    expect(response.status).toBe(status);
+    expect(JSON.parse(response.body)).toMatchObject({ status, code, detail: 'Command was rejected' });
+  });
+});
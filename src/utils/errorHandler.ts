@@ -1,7 +1,8 @@
 import { Request, Response, NextFunction } from 'express';
+import { FieldError } from './schema';
 
 export class ValidationError extends Error {
-  constructor(message: string) {
+  constructor(message: string, public details?: FieldError[]) {
     super(message);
     this.name = 'ValidationError';
   }
@@ -28,23 +29,175 @@ export class KafkaError extends Error {
   }
 }
 
-interface ErrorResponse {
-  error: string;
-  message: string;
+export class UnsupportedEventError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UnsupportedEventError';
+  }
+}
+
+export class IdempotencyConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'IdempotencyConflictError';
+  }
+}
+
+export class UnauthorizedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UnauthorizedError';
+  }
+}
+
+export class ForbiddenError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ForbiddenError';
+  }
+}
+
+export class NotFoundError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'NotFoundError';
+  }
+}
+
+export class ConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConflictError';
+  }
+}
+
+export class PollExpiredError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PollExpiredError';
+  }
+}
+
+export class InvalidOptionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidOptionError';
+  }
+}
+
+export class RateLimitError extends Error {
+  /**
+   * @param message - Error message
+   * @param retryAfter - Seconds until the request may be retried
+   */
+  constructor(message: string, public retryAfter = 1) {
+    super(message);
+    this.name = 'RateLimitError';
+  }
+}
+
+/** HTTP status, stable code and title of the responses for one error class */
+interface ProblemType {
+  error: new (message: string) => Error;
+  status: number;
+  code: string;
+  title: string;
+}
+
+/**
+ * Problem types of the errors surfaced to clients. The codes are part of the API: clients match on
+ * them, so they must not change.
+ */
+const PROBLEM_TYPES: ProblemType[] = [
+  { error: ValidationError, status: 400, code: 'validation_failed', title: 'Validation Error' },
+  { error: UnauthorizedError, status: 401, code: 'unauthenticated', title: 'Authentication Error' },
+  { error: ForbiddenError, status: 403, code: 'forbidden', title: 'Authorization Error' },
+  { error: NotFoundError, status: 404, code: 'not_found', title: 'Not Found' },
+  { error: ConflictError, status: 409, code: 'conflict', title: 'Conflict' },
+  { error: PollExpiredError, status: 410, code: 'poll_expired', title: 'Poll Expired' },
+  { error: InvalidOptionError, status: 422, code: 'invalid_option', title: 'Invalid Option' },
+  { error: IdempotencyConflictError, status: 422, code: 'idempotency_conflict', title: 'Idempotency Conflict' },
+  { error: RateLimitError, status: 429, code: 'rate_limited', title: 'Too Many Requests' },
+  { error: DatabaseError, status: 503, code: 'database_unavailable', title: 'Database Error' },
+  { error: KafkaError, status: 503, code: 'message_queue_unavailable', title: 'Message Queue Error' },
+  { error: WebSocketError, status: 500, code: 'websocket_error', title: 'WebSocket Error' }
+];
+
+/** RFC 7807 problem details of an error response */
+interface ProblemDetails {
+  /** URI identifying the problem type, derived from its code */
+  type: string;
+  title: string;
+  status: number;
+  detail: string;
+  /** Path of the request that failed */
+  instance: string;
+  code: string;
+  /** Field errors of validation problems */
   details?: unknown;
 }
 
+/**
+ * Resolves the HTTP status, code and title of an error
+ * @param error - Error to classify
+ * @returns Problem type of the error; errors of unknown classes are internal server errors
+ */
+const problemTypeOf = (error: unknown): Omit<ProblemType, 'error'> => {
+  const problemType = PROBLEM_TYPES.find(candidate => error instanceof candidate.error);
+  if (problemType) {
+    return problemType;
+  }
+
+  if (error instanceof SyntaxError && 'body' in error) {
+    return { status: 400, code: 'invalid_json', title: 'Invalid JSON' };
+  }
+  if (error instanceof TypeError) {
+    return { status: 400, code: 'invalid_type', title: 'Type Error' };
+  }
+  return { status: 500, code: 'internal_error', title: 'Internal Server Error' };
+};
+
+/**
+ * Reads the stable code of an error, for outcomes reported outside of HTTP responses
+ * @param error - Error to classify
+ * @returns Code of the error's problem type
+ */
+export const errorCode = (error: unknown): string => problemTypeOf(error).code;
+
+/**
+ * Checks whether an error rejects a request or command on its merits, such as invalid data or a
+ * poll that does not exist, so processing it again would fail the same way
+ * @param error - Error to classify
+ * @returns True for errors surfaced to clients with a 4xx status
+ */
+export const isDomainError = (error: unknown): boolean =>
+  PROBLEM_TYPES.some(candidate => error instanceof candidate.error && candidate.status < 500);
+
+/**
+ * Recreates an error from its code and message, such as the rejection of a command processed by
+ * the consumer
+ * @param code - Code of the error, if known
+ * @param message - Error message
+ * @returns Error of the class with that code; `internal_error`, unknown and missing codes give a
+ * plain error, answered as an internal server error
+ */
+export const errorFromCode = (code: string | undefined, message: string): Error => {
+  const problemType = PROBLEM_TYPES.find(candidate => candidate.code === code);
+  return problemType ? new problemType.error(message) : new Error(message);
+};
+
+/**
+ * Answers failed requests with an RFC 7807 `application/problem+json` body carrying the stable
+ * `code` of the error, and with a `Retry-After` header when rate limited. Errors raised after the
+ * response has started, such as while streaming an export, are left to the default Express
+ * handler, which closes the connection.
+ */
 export const errorHandler = (
   error: Error,
   req: Request,
   res: Response,
   next: NextFunction
 ): void => {
-  const errorResponse: ErrorResponse = {
-    error: error.name,
-    message: error.message
-  };
-
   // Log error with request context
   console.error('Error details:', {
     name: error.name,
@@ -58,79 +211,45 @@ export const errorHandler = (
     timestamp: new Date().toISOString()
   });
 
-  // Handle specific error types
-  switch (true) {
-    case error instanceof ValidationError:
-      res.status(400).json({
-        ...errorResponse,
-        error: 'Validation Error'
-      });
-      break;
-
-    case error instanceof DatabaseError:
-      res.status(503).json({
-        ...errorResponse,
-        error: 'Database Error'
-      });
-      break;
+  if (res.headersSent) {
+    return next(error);
+  }
 
-    case error instanceof WebSocketError:
-      res.status(500).json({
-        ...errorResponse,
-        error: 'WebSocket Error'
-      });
-      break;
+  const { status, code, title } = problemTypeOf(error);
+  const problem: ProblemDetails = {
+    type: `urn:polling:problem:${code}`,
+    title,
+    status,
+    detail: error.message,
+    instance: req.originalUrl,
+    code
+  };
 
-    case error instanceof KafkaError:
-      res.status(503).json({
-        ...errorResponse,
-        error: 'Message Queue Error'
-      });
+  switch (code) {
+    case 'validation_failed':
+      problem.details = (error as ValidationError).details;
       break;
 
-    case error instanceof SyntaxError && 'body' in error:
-      res.status(400).json({
-        error: 'Invalid JSON',
-        message: 'Invalid request body format'
-      });
+    case 'rate_limited':
+      res.set('Retry-After', String((error as RateLimitError).retryAfter));
       break;
 
-    case error instanceof TypeError:
-      res.status(400).json({
-        ...errorResponse,
-        error: 'Type Error',
-        message: 'Invalid data type in request'
-      });
+    case 'invalid_json':
+      problem.detail = 'Invalid request body format';
       break;
 
-    case error.name === 'UnauthorizedError':
-      res.status(401).json({
-        ...errorResponse,
-        error: 'Authentication Error'
-      });
+    case 'invalid_type':
+      problem.detail = 'Invalid data type in request';
       break;
 
-    case error.name === 'ForbiddenError':
-      res.status(403).json({
-        ...errorResponse,
-        error: 'Authorization Error'
-      });
+    case 'internal_error':
+      problem.detail = process.env.NODE_ENV === 'production'
+        ? 'An unexpected error occurred'
+        : error.message;
       break;
-
-    default:
-      // Handle unknown errors
-      res.status(500).json({
-        error: 'Internal Server Error',
-        message: process.env.NODE_ENV === 'production' 
-          ? 'An unexpected error occurred' 
-          : error.message
-      });
   }
 
-  // If headers have already been sent, delegate to default Express error handler
-  if (res.headersSent) {
-    return next(error);
-  }
+  res.status(status).type('application/problem+json').json(problem);
 };
 
 // Helper function to wrap async route handlers
@@ -0,0 +1,95 @@
+import { Response } from 'express';
+import { ExportFormat, ExportRecord } from '../models/export';
+
+/** Columns of CSV exports; each record fills the columns that apply to its type */
+const CSV_COLUMNS = [
+  'record_type',
+  'poll_id',
+  'question',
+  'poll_type',
+  'created_by',
+  'created_at',
+  'expired_at',
+  'total_votes',
+  'option_id',
+  'option_text',
+  'vote_count',
+  'vote_id',
+  'user_id',
+  'option_ids',
+  'voted_at'
+];
+
+/** Content types of the export formats */
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  jsonl: 'application/x-ndjson; charset=utf-8'
+};
+
+/**
+ * Quotes a CSV field when needed. Fields a spreadsheet would evaluate as a formula are prefixed
+ * with a quote, as exports contain user-supplied text.
+ * @param value - Field value
+ * @returns Escaped field
+ */
+const csvField = (value: unknown): string => {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  let text = Array.isArray(value) ? value.join(' ') : String(value);
+  if (/^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Renders the lines an export starts with
+ * @param format - Export format
+ * @returns CSV header line, or nothing for JSON Lines
+ */
+export const exportHeader = (format: ExportFormat): string =>
+  format === 'csv' ? `${CSV_COLUMNS.join(',')}\r\n` : '';
+
+/**
+ * Renders a record as a line of the export
+ * @param format - Export format
+ * @param record - Record to render
+ * @returns CSV row or JSON line, including the line break
+ */
+export const formatExportRecord = (format: ExportFormat, record: ExportRecord): string => {
+  if (format === 'jsonl') {
+    return `${JSON.stringify(record)}\n`;
+  }
+  const fields = record as unknown as Record<string, unknown>;
+  return `${CSV_COLUMNS.map(column => csvField(fields[column])).join(',')}\r\n`;
+};
+
+/**
+ * Writes a chunk to a response, waiting while the client is slower than the export
+ * @param res - Express response
+ * @param chunk - Data to write
+ * @throws {Error} If the client closed the connection
+ */
+export const writeChunk = (res: Response, chunk: string): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (res.destroyed) {
+      reject(new Error('Client closed the connection'));
+      return;
+    }
+    if (res.write(chunk)) {
+      resolve();
+      return;
+    }
+
+    const onDrain = () => {
+      res.off('close', onClose);
+      resolve();
+    };
+    const onClose = () => {
+      res.off('drain', onDrain);
+      reject(new Error('Client closed the connection'));
+    };
+    res.once('drain', onDrain);
+    res.once('close', onClose);
+  });
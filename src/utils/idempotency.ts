@@ -0,0 +1,35 @@
+import { createHash } from 'crypto';
+
+/** Maximum length of a client-supplied idempotency key */
+export const MAX_IDEMPOTENCY_KEY_LENGTH = 255;
+
+/**
+ * Serializes a value to JSON with object keys sorted, so equal payloads always serialize the same way
+ * @param value - Value to serialize
+ * @returns Canonical JSON string
+ */
+const canonicalJson = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value instanceof Date) {
+    return JSON.stringify(value.toISOString());
+  }
+  if (value !== null && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([key, entry]) => `${JSON.stringify(key)}:${canonicalJson(entry)}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value);
+};
+
+/**
+ * Fingerprints a command so a reused idempotency key can be matched against its original request
+ * @param type - Command type
+ * @param payload - Command payload
+ * @returns SHA-256 hex digest of the type and canonical payload
+ */
+export const hashRequest = (type: string, payload: unknown): string =>
+  createHash('sha256').update(`${type}\n${canonicalJson(payload)}`).digest('hex');
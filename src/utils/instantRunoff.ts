@@ -0,0 +1,78 @@
+import { InstantRunoffRound } from '../models/poll';
+
+/**
+ * Outcome of an instant-runoff count
+ */
+export interface InstantRunoffOutcome {
+  rounds: InstantRunoffRound[];
+  winner_option_id: string | null;
+}
+
+/**
+ * Counts ranked ballots using instant-runoff voting.
+ * Each round every ballot counts towards its highest-ranked option that is still in the race.
+ * An option holding a majority of the non-exhausted ballots wins; otherwise every option tied
+ * for the lowest tally is eliminated and the next round begins. If all remaining options are
+ * tied the count ends without a winner.
+ * @param options - Options of the poll in display order
+ * @param ballots - Ranked ballots, each an array of option IDs ordered by preference
+ * @returns Round-by-round tallies and the winning option ID, or null if there is no winner
+ */
+export const tallyInstantRunoff = (
+  options: { option_id: string; option_text: string }[],
+  ballots: string[][]
+): InstantRunoffOutcome => {
+  const rounds: InstantRunoffRound[] = [];
+  const remaining = new Set(options.map(opt => opt.option_id));
+
+  if (ballots.length === 0) {
+    return { rounds, winner_option_id: null };
+  }
+
+  while (remaining.size > 0) {
+    const counts = new Map<string, number>();
+    remaining.forEach(optionId => counts.set(optionId, 0));
+
+    let exhausted = 0;
+    for (const ballot of ballots) {
+      const choice = ballot.find(optionId => remaining.has(optionId));
+      if (choice === undefined) {
+        exhausted++;
+      } else {
+        counts.set(choice, (counts.get(choice) || 0) + 1);
+      }
+    }
+
+    const tallies = options
+      .filter(opt => remaining.has(opt.option_id))
+      .map(opt => ({
+        option_id: opt.option_id,
+        option_text: opt.option_text,
+        vote_count: counts.get(opt.option_id) || 0
+      }));
+
+    const activeBallots = ballots.length - exhausted;
+    const leader = tallies.reduce((best, tally) => tally.vote_count > best.vote_count ? tally : best);
+
+    if (activeBallots > 0 && leader.vote_count * 2 > activeBallots) {
+      rounds.push({ round: rounds.length + 1, tallies, eliminated: [], exhausted_ballots: exhausted });
+      return { rounds, winner_option_id: leader.option_id };
+    }
+
+    const lowest = Math.min(...tallies.map(tally => tally.vote_count));
+    const eliminated = tallies
+      .filter(tally => tally.vote_count === lowest)
+      .map(tally => tally.option_id);
+
+    // Every remaining option is tied, so no further round can separate them
+    if (eliminated.length === remaining.size) {
+      rounds.push({ round: rounds.length + 1, tallies, eliminated: [], exhausted_ballots: exhausted });
+      return { rounds, winner_option_id: remaining.size === 1 ? eliminated[0] : null };
+    }
+
+    rounds.push({ round: rounds.length + 1, tallies, eliminated, exhausted_ballots: exhausted });
+    eliminated.forEach(optionId => remaining.delete(optionId));
+  }
+
+  return { rounds, winner_option_id: null };
+};
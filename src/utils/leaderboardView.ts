@@ -0,0 +1,70 @@
+import { LeaderboardQuery, LeaderboardScope, LeaderboardSort, LeaderboardWindow } from '../models/poll';
+import { ValidationError } from './errorHandler';
+
+/** Largest number of entries a leaderboard view may return */
+export const MAX_LEADERBOARD_LIMIT = 100;
+
+/** The view of the live leaderboard every client receives */
+export const DEFAULT_LEADERBOARD_QUERY: LeaderboardQuery = {
+  limit: 10,
+  scope: 'options',
+  window: 'all',
+  sort: 'votes'
+};
+
+/** Length of each leaderboard window in hours, null for all time */
+export const WINDOW_HOURS: Record<LeaderboardWindow, number | null> = {
+  hour: 1,
+  day: 24,
+  all: null
+};
+
+/** Shortest period vote velocity is averaged over, so brand-new polls do not spike */
+export const TRENDING_MIN_HOURS = 0.25;
+
+const SCOPES: LeaderboardScope[] = ['options', 'polls'];
+const WINDOWS: LeaderboardWindow[] = ['hour', 'day', 'all'];
+const SORTS: LeaderboardSort[] = ['votes', 'trending'];
+
+/**
+ * Validates a leaderboard view selection, from query string parameters or a WebSocket message,
+ * filling in the defaults
+ * @param input - Raw `limit`, `scope`, `window` and `sort` values
+ * @returns Complete view selection
+ * @throws {ValidationError} If a value is invalid
+ */
+export const parseLeaderboardQuery = (input: Record<string, unknown>): LeaderboardQuery => {
+  const { limit, scope, window, sort } = input;
+
+  const size = limit !== undefined ? Number(limit) : DEFAULT_LEADERBOARD_QUERY.limit;
+  if (!Number.isInteger(size) || size < 1 || size > MAX_LEADERBOARD_LIMIT) {
+    throw new ValidationError(`limit must be an integer between 1 and ${MAX_LEADERBOARD_LIMIT}`);
+  }
+
+  if (scope !== undefined && !SCOPES.includes(scope as LeaderboardScope)) {
+    throw new ValidationError(`scope must be one of ${SCOPES.join(', ')}`);
+  }
+
+  if (window !== undefined && !WINDOWS.includes(window as LeaderboardWindow)) {
+    throw new ValidationError(`window must be one of ${WINDOWS.join(', ')}`);
+  }
+
+  if (sort !== undefined && !SORTS.includes(sort as LeaderboardSort)) {
+    throw new ValidationError(`sort must be one of ${SORTS.join(', ')}`);
+  }
+
+  return {
+    limit: size,
+    scope: (scope as LeaderboardScope | undefined) ?? DEFAULT_LEADERBOARD_QUERY.scope,
+    window: (window as LeaderboardWindow | undefined) ?? DEFAULT_LEADERBOARD_QUERY.window,
+    sort: (sort as LeaderboardSort | undefined) ?? DEFAULT_LEADERBOARD_QUERY.sort
+  };
+};
+
+/**
+ * Names the WebSocket channel of a leaderboard view
+ * @param query - View selection
+ * @returns Channel name, equal for equal views
+ */
+export const leaderboardChannel = (query: LeaderboardQuery): string =>
+  `leaderboard:${query.scope}:${query.window}:${query.sort}:${query.limit}`;
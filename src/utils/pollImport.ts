@@ -0,0 +1,119 @@
+import { ValidationError } from './errorHandler';
+
+/** Most polls a single import may contain */
+export const MAX_IMPORT_ROWS = 500;
+
+/** Separator of the options within the `options` column of a CSV import */
+export const DEFAULT_OPTION_DELIMITER = '|';
+
+/** Columns of a CSV import; `question`, `options` and `expired_at` are required */
+const CSV_IMPORT_COLUMNS = [
+  'question',
+  'options',
+  'expired_at',
+  'poll_type',
+  'min_selections',
+  'max_selections',
+  'allow_vote_change',
+  'created_by'
+];
+
+/**
+ * Splits CSV text into records of fields. Fields may be quoted, with `""` escaping a quote and
+ * line breaks allowed inside quotes.
+ * @param text - CSV text
+ * @returns Records, skipping blank lines
+ * @throws {ValidationError} If a quoted field is not closed
+ */
+export const parseCsv = (text: string): string[][] => {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field.length === 0) {
+      quoted = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (quoted) {
+    throw new ValidationError('CSV contains an unterminated quoted field');
+  }
+  if (field.length > 0 || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+  return records.filter(fields => fields.some(value => value.trim().length > 0));
+};
+
+/**
+ * Converts a CSV import into poll request bodies, as `POST /polls` would receive them.
+ * The first record names the columns. Options are split on the delimiter, selection bounds are
+ * read as numbers and `allow_vote_change` as a boolean; empty cells are left out.
+ * @param text - CSV text with a header record
+ * @param delimiter - Separator of the options within the `options` column
+ * @returns One request body per data record
+ * @throws {ValidationError} If the header misses a required column or names an unknown one
+ */
+export const csvToPollRequests = (text: string, delimiter = DEFAULT_OPTION_DELIMITER): Record<string, unknown>[] => {
+  const [header, ...records] = parseCsv(text);
+  const columns = (header ?? []).map(column => column.trim().toLowerCase());
+
+  const unknown = columns.filter(column => !CSV_IMPORT_COLUMNS.includes(column));
+  if (unknown.length > 0) {
+    throw new ValidationError(`Unknown CSV columns: ${unknown.join(', ')}`);
+  }
+  const missing = CSV_IMPORT_COLUMNS.slice(0, 3).filter(column => !columns.includes(column));
+  if (missing.length > 0) {
+    throw new ValidationError(`CSV header must name the columns: ${missing.join(', ')}`);
+  }
+
+  return records.map(fields => {
+    const body: Record<string, unknown> = {};
+    columns.forEach((column, index) => {
+      const value = (fields[index] ?? '').trim();
+      if (value.length === 0) {
+        return;
+      }
+      switch (column) {
+        case 'options':
+          body.options = value.split(delimiter).map(option => option.trim());
+          break;
+        case 'min_selections':
+        case 'max_selections':
+          body[column] = Number(value);
+          break;
+        case 'allow_vote_change':
+          body.allow_vote_change = value === 'true' ? true : value === 'false' ? false : value;
+          break;
+        default:
+          body[column] = value;
+      }
+    });
+    return body;
+  });
+};
@@ -0,0 +1,106 @@
+import { Request } from 'express';
+import { isIPv4, isIPv6 } from 'net';
+import { AnomalyRules, RateLimitRules, RateLimitScope, RateLimitedAction, TokenBucketRule } from '../models/rateLimit';
+
+/** Rules applied when the environment sets none, as `<requests>/<seconds>` */
+const DEFAULT_RULES: Record<RateLimitedAction, Record<RateLimitScope, string>> = {
+  vote: { ip: '30/60', user: '10/60', poll: '600/60' },
+  create_poll: { ip: '20/60', user: '10/60', poll: 'off' },
+  import_polls: { ip: '1000/3600', user: '500/3600', poll: 'off' }
+};
+
+/** Prefix of IPv4 addresses written as IPv6 by dual-stack sockets */
+const IPV4_MAPPED_PREFIX = '::ffff:';
+
+/**
+ * Parses a token bucket rule
+ * @param name - Environment variable, for the error message
+ * @param value - `<requests>/<seconds>`: a bucket of that many requests refilled over that many
+ * seconds, or `off`
+ * @returns The rule, or undefined if it is off
+ * @throws {Error} If the value is malformed
+ */
+const parseRule = (name: string, value: string): TokenBucketRule | undefined => {
+  if (value.trim() === 'off') {
+    return undefined;
+  }
+
+  const match = /^\s*(\d+)\s*\/\s*(\d+)\s*$/.exec(value);
+  if (!match || parseInt(match[1], 10) < 1 || parseInt(match[2], 10) < 1) {
+    throw new Error(`${name} must be '<requests>/<seconds>' with positive numbers, or 'off'`);
+  }
+
+  const capacity = parseInt(match[1], 10);
+  return { capacity, refillPerSecond: capacity / parseInt(match[2], 10) };
+};
+
+/**
+ * Reads the rate limits from `RATE_LIMIT_<ACTION>_PER_<SCOPE>`, for example
+ * `RATE_LIMIT_VOTE_PER_IP=30/60` or `RATE_LIMIT_CREATE_POLL_PER_USER=off`
+ * @returns Rules by action and scope
+ * @throws {Error} If a rule is malformed
+ */
+export const rateLimitRulesFromEnv = (): RateLimitRules => {
+  const rules: RateLimitRules = { vote: {}, create_poll: {}, import_polls: {} };
+
+  for (const action of Object.keys(DEFAULT_RULES) as RateLimitedAction[]) {
+    for (const scope of Object.keys(DEFAULT_RULES[action]) as RateLimitScope[]) {
+      const name = `RATE_LIMIT_${action.toUpperCase()}_PER_${scope.toUpperCase()}`;
+      const rule = parseRule(name, process.env[name] || DEFAULT_RULES[action][scope]);
+      if (rule) {
+        rules[action][scope] = rule;
+      }
+    }
+  }
+
+  return rules;
+};
+
+/**
+ * Reads the vote burst thresholds from `ANOMALY_WINDOW_SECONDS`, `ANOMALY_IP_THRESHOLD` and
+ * `ANOMALY_SUBNET_THRESHOLD`
+ * @returns Anomaly detection rules
+ */
+export const anomalyRulesFromEnv = (): AnomalyRules => ({
+  windowMs: parseInt(process.env.ANOMALY_WINDOW_SECONDS || '60', 10) * 1000,
+  ipThreshold: parseInt(process.env.ANOMALY_IP_THRESHOLD || '20', 10),
+  subnetThreshold: parseInt(process.env.ANOMALY_SUBNET_THRESHOLD || '50', 10)
+});
+
+/**
+ * Reads the address of the client behind a request; set `TRUST_PROXY` when the app runs behind a
+ * proxy, so it is read from `X-Forwarded-For`
+ * @param req - Express request
+ * @returns Client address, with IPv4-mapped IPv6 addresses written as IPv4
+ */
+export const clientAddress = (req: Request): string => {
+  const address = req.ip ?? req.socket.remoteAddress ?? 'unknown';
+  const unmapped = address.toLowerCase().startsWith(IPV4_MAPPED_PREFIX)
+    ? address.slice(IPV4_MAPPED_PREFIX.length)
+    : address;
+  return isIPv4(unmapped) ? unmapped : address;
+};
+
+/**
+ * Finds the subnet of an address that one network usually spans: the /24 of IPv4 addresses and
+ * the /64 of IPv6 addresses
+ * @param address - Client address
+ * @returns Subnet in CIDR notation, or the address itself if it is not an IP address
+ */
+export const subnetOf = (address: string): string => {
+  if (isIPv4(address)) {
+    return `${address.split('.').slice(0, 3).join('.')}.0/24`;
+  }
+  if (!isIPv6(address)) {
+    return address;
+  }
+
+  // Expands `::` to the zero groups it stands for; only the first four groups are kept
+  const [head, tail] = address.split('%')[0].split('::');
+  const headGroups = head ? head.split(':') : [];
+  const tailGroups = tail ? tail.split(':') : [];
+  const groups = tail === undefined
+    ? headGroups
+    : [...headGroups, ...Array(Math.max(8 - headGroups.length - tailGroups.length, 0)).fill('0'), ...tailGroups];
+  return `${groups.slice(0, 4).map(group => parseInt(group, 16).toString(16)).join(':')}::/64`;
+};
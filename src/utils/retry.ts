@@ -0,0 +1,57 @@
+import { DatabaseError } from './errorHandler';
+
+/** Postgres error codes worth retrying: connection failures, serialization failures, deadlocks and shutdowns */
+const TRANSIENT_PG_CODES = ['40001', '40P01', '53300', '57P01', '57P02', '57P03'];
+
+/** Node.js socket error codes raised when the database cannot be reached */
+const TRANSIENT_NETWORK_CODES = ['ECONNREFUSED', 'ECONNRESET', 'ETIMEDOUT', 'EPIPE'];
+
+/**
+ * Options for retrying an operation with exponential backoff
+ */
+export interface RetryOptions {
+  /** Maximum number of attempts, including the first one */
+  maxAttempts: number;
+  /** Delay before the second attempt, doubled for each further attempt */
+  initialDelayMs: number;
+  /** Decides whether a failed attempt may be retried */
+  shouldRetry: (error: unknown) => boolean;
+}
+
+/**
+ * Checks whether an error is a transient database failure that may succeed when retried
+ * @param error - Error thrown by a database operation
+ * @returns True for DatabaseErrors and retryable pg or connection errors
+ */
+export const isTransientError = (error: unknown): boolean => {
+  if (error instanceof DatabaseError) {
+    return true;
+  }
+
+  const code = (error as { code?: unknown } | null)?.code;
+  if (typeof code !== 'string') {
+    return error instanceof Error && /timeout exceeded when trying to connect|Connection terminated/i.test(error.message);
+  }
+
+  return code.startsWith('08') || TRANSIENT_PG_CODES.includes(code) || TRANSIENT_NETWORK_CODES.includes(code);
+};
+
+/**
+ * Runs an operation, retrying failed attempts with exponential backoff while `shouldRetry` allows it
+ * @param fn - Operation to run, receiving the 1-based attempt number
+ * @param options - Attempt limit, initial delay and retry predicate
+ * @returns Result of the first successful attempt
+ * @throws The error of the last attempt
+ */
+export const withRetry = async <T>(fn: (attempt: number) => Promise<T>, options: RetryOptions): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fn(attempt);
+    } catch (error) {
+      if (attempt >= options.maxAttempts || !options.shouldRetry(error)) {
+        throw error;
+      }
+      await new Promise(resolve => setTimeout(resolve, options.initialDelayMs * Math.pow(2, attempt - 1)));
+    }
+  }
+};
@@ -0,0 +1,164 @@
+import { ValidationError } from './errorHandler';
+
+/** Matches the canonical text form of a UUID */
+export const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/** Rejection of a single field, reported in `ErrorResponse.details` */
+export interface FieldError {
+  /** Path of the field, such as `options[2]` */
+  field: string;
+  message: string;
+}
+
+/** Rules a single field must satisfy */
+export interface FieldSchema {
+  type: 'string' | 'integer' | 'boolean' | 'date' | 'uuid' | 'array';
+  required?: boolean;
+  /** Whether `null` is accepted, for fields that can be cleared */
+  nullable?: boolean;
+  /** Bounds of a string's trimmed length or of an array's item count */
+  minLength?: number;
+  maxLength?: number;
+  /** Bounds of an integer */
+  min?: number;
+  max?: number;
+  /** Values a string may take */
+  oneOf?: readonly string[];
+  /** Whether a date must lie in the future */
+  future?: boolean;
+  /** Rules of each array item */
+  items?: FieldSchema;
+  /** Whether array items must be distinct */
+  unique?: boolean;
+}
+
+/** Declarative description of a DTO */
+export interface Schema<T> {
+  fields: { [K in keyof T]-?: FieldSchema };
+  /** Rules spanning several fields, checked once every field is valid */
+  checks?: ((data: T) => FieldError | null)[];
+}
+
+/**
+ * Checks a value against the rules of a field and converts it: strings are trimmed and dates parsed
+ * @param rules - Rules of the field
+ * @param value - Value to check, present and not null
+ * @param field - Path of the field
+ * @param errors - Collects the rejections
+ * @returns Converted value
+ */
+const checkField = (rules: FieldSchema, value: unknown, field: string, errors: FieldError[]): unknown => {
+  const reject = (message: string) => {
+    errors.push({ field, message: `${field} ${message}` });
+    return value;
+  };
+
+  switch (rules.type) {
+    case 'string': {
+      if (typeof value !== 'string') {
+        return reject('must be a string');
+      }
+      const text = value.trim();
+      if (text.length < (rules.minLength ?? 1)) {
+        return reject(rules.minLength ? `must be at least ${rules.minLength} characters` : 'must not be empty');
+      }
+      if (rules.maxLength !== undefined && text.length > rules.maxLength) {
+        return reject(`must be at most ${rules.maxLength} characters`);
+      }
+      if (rules.oneOf && !rules.oneOf.includes(text)) {
+        return reject(`must be one of ${rules.oneOf.map(option => `'${option}'`).join(', ')}`);
+      }
+      return text;
+    }
+
+    case 'uuid':
+      return typeof value === 'string' && UUID_PATTERN.test(value) ? value.toLowerCase() : reject('must be a UUID');
+
+    case 'integer':
+      if (!Number.isInteger(value)) {
+        return reject('must be an integer');
+      }
+      if (rules.min !== undefined && (value as number) < rules.min) {
+        return reject(`must be at least ${rules.min}`);
+      }
+      if (rules.max !== undefined && (value as number) > rules.max) {
+        return reject(`must be at most ${rules.max}`);
+      }
+      return value;
+
+    case 'boolean':
+      return typeof value === 'boolean' ? value : reject('must be a boolean');
+
+    case 'date': {
+      const date = typeof value === 'string' || value instanceof Date ? new Date(value) : new Date(NaN);
+      if (isNaN(date.getTime())) {
+        return reject('must be a valid date string');
+      }
+      if (rules.future && date.getTime() <= Date.now()) {
+        return reject('must be in the future');
+      }
+      return date;
+    }
+
+    case 'array': {
+      if (!Array.isArray(value)) {
+        return reject('must be an array');
+      }
+      if (rules.minLength !== undefined && value.length < rules.minLength) {
+        return reject(`must contain at least ${rules.minLength} items`);
+      }
+      if (rules.maxLength !== undefined && value.length > rules.maxLength) {
+        return reject(`must contain at most ${rules.maxLength} items`);
+      }
+      const items = rules.items
+        ? value.map((item, index) => checkField(rules.items as FieldSchema, item, `${field}[${index}]`, errors))
+        : value;
+      if (rules.unique && new Set(items.map(item => JSON.stringify(item))).size !== items.length) {
+        return reject('must not contain duplicates');
+      }
+      return items;
+    }
+  }
+};
+
+/**
+ * Validates input against a schema, collecting every rejected field
+ * @param schema - Schema of the expected DTO
+ * @param input - Untrusted input, such as a request body or an event payload
+ * @returns The DTO with the schema's fields only, strings trimmed and dates parsed
+ * @throws {ValidationError} If any field is rejected, with the rejections as details
+ */
+export const validate = <T>(schema: Schema<T>, input: unknown): T => {
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    throw new ValidationError('Request data must be an object');
+  }
+
+  const source = input as Record<string, unknown>;
+  const errors: FieldError[] = [];
+  const data: Record<string, unknown> = {};
+
+  for (const [field, rules] of Object.entries(schema.fields) as [string, FieldSchema][]) {
+    const value = source[field];
+    if (value === undefined || (value === null && !rules.nullable)) {
+      if (rules.required) {
+        errors.push({ field, message: `${field} is required` });
+      }
+      continue;
+    }
+    data[field] = value === null ? null : checkField(rules, value, field, errors);
+  }
+
+  if (errors.length === 0) {
+    for (const check of schema.checks ?? []) {
+      const error = check(data as T);
+      if (error) {
+        errors.push(error);
+      }
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new ValidationError(errors.map(error => error.message).join('; '), errors);
+  }
+  return data as T;
+};